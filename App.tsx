@@ -1,33 +1,86 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   BarChart3, TrendingUp, Clock, Database, Filter, Package, Truck, 
   Download, BrainCircuit, AlertCircle, Trash2, CheckCircle2, 
   BarChart, History, Scale, Upload, Zap, Layers, RefreshCw, FileDown,
   Table, XCircle, FileSpreadsheet, Settings2, AlertTriangle, CheckCircle, Info, Eraser, Files, Sparkles, Mail, Send, Copy, ClipboardCheck,
-  ChevronRight, Cpu, Activity
+  ChevronRight, Cpu, Activity, Banknote, ShieldAlert, Target, Server, HardDrive, Ship, Award, ArrowRightLeft, FlaskConical, Link2
 } from 'lucide-react';
 import { 
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, Bar, ComposedChart, Line, LineChart
 } from 'recharts';
 
-import { HistoricalData, ForecastResult, FilterState, NegotiatedRate, BenchmarkResult, ConfidenceLevel } from './types';
+import { HistoricalData, ForecastResult, FilterState, NegotiatedRate, BenchmarkResult, ConfidenceLevel, ImportReport, WorkspaceState, FxRate, OutlierMethod, OutlierSettings, ForecastGranularity, ForecastSettings, ValidationReport, BulkForecastFailure, AIProviderId, AIProviderSettings, Incoterm, LandedCostRule, LandedCostSettings, InventorySettings, Scenario, IndexPoint, IndexLink } from './types';
 import DataUpload from './components/DataUpload';
+import ImportReportPanel from './components/ImportReportPanel';
+import ValidationReportPanel from './components/ValidationReportPanel';
+import BulkFailurePanel from './components/BulkFailurePanel';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import OutlierReviewPanel from './components/OutlierReviewPanel';
+import BacktestPanel from './components/BacktestPanel';
+import VendorScorecardPanel from './components/VendorScorecardPanel';
+import SavingsSummaryPanel from './components/SavingsSummaryPanel';
+import InventoryPolicyPanel from './components/InventoryPolicyPanel';
+import ScenarioBuilder from './components/ScenarioBuilder';
+import SourcingComparisonPanel from './components/SourcingComparisonPanel';
+import IndexLinkagePanel from './components/IndexLinkagePanel';
 import StatsCard from './components/StatsCard';
-import { getForecastFromAI, getBenchmarkAnalysis, getBulkForecastsFromAI } from './services/geminiService';
-import { cleanseOutliers, parseNegotiationCSV, generateNegotiationSampleCSV, parseForecastCSV, generateForecastTemplateCSV } from './services/dataService';
-
-type ModelType = 'gemini-3-flash-preview' | 'gemini-3-pro-preview' | 'gemini-flash-lite-latest';
+import { getForecastFromAI, getBenchmarkAnalysis, getBulkForecastsFromAI, BulkForecastRun } from './services/geminiService';
+import { parseNegotiationCSV, generateNegotiationSampleCSV, parseForecastCSV, generateForecastTemplateCSV, parseFxRateCSV, generateFxTemplateCSV, parseLandedCostCSV, generateLandedCostTemplateCSV, parseIndexCSV, generateIndexTemplateCSV } from './services/dataService';
+import { evaluateBenchmarks, reclassifyBenchmarks, hasBaseline } from './services/benchmarkEngine';
+import { CONFIDENCE_LEVELS, priceInterval, leadTimeInterval, exportedPriceInterval } from './services/confidenceBands';
+import { ImportKind, PendingImport, prepareImportFromFile, saveMapping } from './services/columnMapping';
+import { buildForecastWorkbook, buildBenchmarkWorkbook, buildSavingsWorkbook, downloadWorkbook } from './services/excelService';
+import { downloadText } from './services/download';
+import { toCSVRow } from './services/csvParser';
+import { AUTOSAVE_ID, autosaveWorkspace, getWorkspace } from './services/storageService';
+import { restoreWorkspaceRecord } from './services/workspaceBundle';
+import { LOCAL_FORECAST_MODEL, getStatisticalForecast, getBulkStatisticalForecasts } from './services/forecastEngine';
+import { BulkForecaster } from './services/backtestEngine';
+import { MIN_CONCURRENCY, MAX_CONCURRENCY, DEFAULT_CONCURRENCY, clampConcurrency } from './services/bulkRunner';
+import { AI_PROVIDER_LABELS, createAIProvider, loadAIProviderSettings, saveAIProviderSettings } from './services/aiProvider';
+import { GEMINI_MODELS } from './services/geminiProvider';
+import { MOCK_MODEL } from './services/mockProvider';
+import { CacheStats, browserAICache, getCacheStats, invalidateStaleEntries, invalidateCombination, clearAICache } from './services/aiCache';
+import { DEFAULT_FORECAST_SETTINGS, GRANULARITY_LABELS, MIN_HORIZON, MAX_HORIZON, clampHorizon, bucketByPeriod, average, formatPeriodLabel } from './services/timeSeries';
+import { OUTLIER_METHOD_LABELS, DEFAULT_THRESHOLDS, DEFAULT_OUTLIER_SETTINGS, detectOutliers, isExcludedOutlier } from './services/outlierEngine';
+import { BASE_CURRENCY, normalizeHistory, normalizeRates, normalizeLandedCostRules, normalizeForecasts, mergeFxRates, listCurrencies, formatMoney } from './services/currencyService';
+import { INCOTERMS, DEFAULT_LANDED_COST_SETTINGS, MAX_PAYMENT_TERMS_DAYS, LandedCostModel, assignCategories, costBreakdown, mergeLandedCostRules } from './services/landedCost';
+import { AlternativeSource, suggestAlternatives } from './services/sourcingEngine';
+import { SavingsLedgerEntry, buildSavingsLedger } from './services/savingsEngine';
+import { InventoryPolicy, DEFAULT_INVENTORY_SETTINGS, LEAD_TIME_VARIABILITY_LABELS, computeInventoryPolicies, describeInventoryFormulas } from './services/inventoryPolicy';
+import { applyScenario, applyScenarioToForecast, compareBenchmarkOutcomes, describeShock } from './services/scenarioEngine';
+import { SensitivityEstimate, listIndices, linkedIndices, mergeIndexSeries, estimateSensitivity, applyIndexLinkages } from './services/indexLinkage';
+
+// Built-in model ids read "family-name-variant"; self-hosted model names are shown verbatim
+const modelLabel = (m: string): string =>
+  GEMINI_MODELS.includes(m) || m === LOCAL_FORECAST_MODEL || m === MOCK_MODEL
+    ? `${m.split('-')[1].toUpperCase()} ${m.split('-')[2]?.toUpperCase() || ''}`
+    : m;
+
+const modelTagline = (m: string): string => {
+  if (m === LOCAL_FORECAST_MODEL) return 'Offline Statistical Baseline';
+  if (m === MOCK_MODEL) return 'Deterministic Demo Responses';
+  if (!GEMINI_MODELS.includes(m)) return 'Self-Hosted Endpoint';
+  return m.includes('pro') ? 'Deep Reasoning' : m.includes('lite') ? 'Ultra Low Latency' : 'Balanced Performance';
+};
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'trends' | 'benchmark'>('trends');
+  const [activeTab, setActiveTab] = useState<WorkspaceState['activeTab']>('trends');
   const [data, setData] = useState<HistoricalData[]>([]);
   const [cleansedData, setCleansedData] = useState<HistoricalData[]>([]);
   const [outlierCount, setOutlierCount] = useState(0);
   const [isCleansed, setIsCleansed] = useState(false);
+  const [outlierSettings, setOutlierSettings] = useState<OutlierSettings>(DEFAULT_OUTLIER_SETTINGS);
   
   // Tab 1 state
-  const [selectedModel, setSelectedModel] = useState<ModelType>('gemini-3-flash-preview');
+  const [selectedModel, setSelectedModel] = useState<string>('gemini-3-flash-preview');
+  const [aiProviderSettings, setAIProviderSettings] = useState<AIProviderSettings>(loadAIProviderSettings);
+  const [aiCacheEnabled, setAICacheEnabled] = useState(true);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [forecastSettings, setForecastSettings] = useState<ForecastSettings>(DEFAULT_FORECAST_SETTINGS);
   const [forecast, setForecast] = useState<ForecastResult | null>(null);
   const [allForecasts, setAllForecasts] = useState<ForecastResult[]>([]); 
   const [uploadedForecasts, setUploadedForecasts] = useState<ForecastResult[]>([]);
@@ -36,19 +89,136 @@ const App: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [bulkLoading, setBulkLoading] = useState(false);
   const [bulkProgress, setBulkProgress] = useState(0);
+  const [bulkConcurrency, setBulkConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [bulkFailures, setBulkFailures] = useState<BulkForecastFailure[]>([]);
+  const [bulkRemaining, setBulkRemaining] = useState<FilterState[]>([]);
+  const bulkAbort = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [importReports, setImportReports] = useState<ImportReport<unknown>[]>([]);
+  const [validationReports, setValidationReports] = useState<ValidationReport[]>([]);
+  const [mappingQueue, setMappingQueue] = useState<PendingImport[]>([]);
   const [filters, setFilters] = useState<FilterState>({ partNumber: '', vendor: '', country: '' });
 
   // Benchmark specific state
   const [proposedRates, setProposedRates] = useState<NegotiatedRate[]>([]);
   const [benchmarks, setBenchmarks] = useState<BenchmarkResult[]>([]);
   const [confidenceLevel, setConfidenceLevel] = useState<ConfidenceLevel>(95);
+  const [aiCommentary, setAiCommentary] = useState(true);
   const [showAttentionOnly, setShowAttentionOnly] = useState(false);
   const [emailRecipients, setEmailRecipients] = useState('');
   const [copySuccess, setCopySuccess] = useState(false);
   const [emailModeStatus, setEmailModeStatus] = useState<string | null>(null);
+  const [xlsxPerVendor, setXlsxPerVendor] = useState(false);
+
+  // Currency state
+  const [reportingCurrency, setReportingCurrency] = useState(BASE_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+
+  // Landed cost state
+  const [landedCostRules, setLandedCostRules] = useState<LandedCostRule[]>([]);
+  const [landedCostSettings, setLandedCostSettings] = useState<LandedCostSettings>(DEFAULT_LANDED_COST_SETTINGS);
+
+  // Inventory policy state
+  const [inventorySettings, setInventorySettings] = useState<InventorySettings>(DEFAULT_INVENTORY_SETTINGS);
+
+  // Scenario state
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [showScenarioBuilder, setShowScenarioBuilder] = useState(false);
+
+  // Market index state
+  const [indexSeries, setIndexSeries] = useState<IndexPoint[]>([]);
+  const [indexLinks, setIndexLinks] = useState<IndexLink[]>([]);
+
+  // Workspace persistence state
+  const [workspaceReady, setWorkspaceReady] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  const normalizedHistory = useMemo(() => normalizeHistory(data, fxRates, reportingCurrency), [data, fxRates, reportingCurrency]);
+  const normalizedRates = useMemo(() => normalizeRates(proposedRates, fxRates, reportingCurrency), [proposedRates, fxRates, reportingCurrency]);
+  const normalizedLandedCosts = useMemo(() => normalizeLandedCostRules(landedCostRules, fxRates, reportingCurrency), [landedCostRules, fxRates, reportingCurrency]);
+  const availableCurrencies = useMemo(() => listCurrencies(data, proposedRates, fxRates), [data, proposedRates, fxRates]);
+  const normalizedUploads = useMemo(() => normalizeForecasts(uploadedForecasts, fxRates, reportingCurrency), [uploadedForecasts, fxRates, reportingCurrency]);
+
+  const missingFxCurrencies = useMemo(() => Array.from(new Set([
+    ...normalizedHistory.missingCurrencies, ...normalizedRates.missingCurrencies, ...normalizedLandedCosts.missingCurrencies, ...normalizedUploads.missingCurrencies
+  ])).sort(), [normalizedHistory, normalizedRates, normalizedLandedCosts, normalizedUploads]);
+
+  // TCO benchmarking is active once a landed cost table has been loaded
+  const costModel = useMemo<LandedCostModel | undefined>(() => landedCostRules.length > 0
+    ? { rules: normalizedLandedCosts.records, settings: landedCostSettings }
+    : undefined, [landedCostRules, normalizedLandedCosts, landedCostSettings]);
+  const categorizedRates = useMemo(() => assignCategories(normalizedRates.records, data), [normalizedRates, data]);
+
+  // Flagged rows stay in `reviewedData` for charting and review; excluded outliers never reach the analysis
+  const reviewedData = isCleansed ? cleansedData : normalizedHistory.records;
+  const activeData = useMemo(() => reviewedData.filter(d => !isExcludedOutlier(d)), [reviewedData]);
+
+  // --- WORKSPACE PERSISTENCE ---
+  const workspaceState = useMemo<WorkspaceState>(() => ({
+    data, cleansedData, outlierCount, isCleansed, outlierSettings, selectedModel, forecastSettings, filters,
+    allForecasts, uploadedForecasts, forecastSource, proposedRates, benchmarks, confidenceLevel, activeTab,
+    reportingCurrency, fxRates, landedCostRules, landedCostSettings, inventorySettings, scenarios, activeScenarioId, indexSeries, indexLinks
+  }), [data, cleansedData, outlierCount, isCleansed, outlierSettings, selectedModel, forecastSettings, filters, allForecasts, uploadedForecasts, forecastSource, proposedRates, benchmarks, confidenceLevel, activeTab, reportingCurrency, fxRates, landedCostRules, landedCostSettings, inventorySettings, scenarios, activeScenarioId, indexSeries, indexLinks]);
+
+  const applyWorkspaceState = (state: WorkspaceState) => {
+    setData(state.data);
+    setCleansedData(state.cleansedData);
+    setOutlierCount(state.outlierCount);
+    setIsCleansed(state.isCleansed);
+    setOutlierSettings(state.outlierSettings);
+    setSelectedModel(state.selectedModel);
+    setForecastSettings(state.forecastSettings);
+    setAllForecasts(state.allForecasts);
+    setUploadedForecasts(state.uploadedForecasts);
+    setForecastSource(state.forecastSource);
+    setProposedRates(state.proposedRates);
+    setBenchmarks(state.benchmarks);
+    setConfidenceLevel(state.confidenceLevel);
+    setFilters(state.filters);
+    setActiveTab(state.activeTab);
+    setReportingCurrency(state.reportingCurrency);
+    setFxRates(state.fxRates);
+    setLandedCostRules(state.landedCostRules);
+    setLandedCostSettings(state.landedCostSettings);
+    setInventorySettings(state.inventorySettings);
+    setScenarios(state.scenarios);
+    setActiveScenarioId(state.activeScenarioId);
+    setIndexSeries(state.indexSeries);
+    setIndexLinks(state.indexLinks);
+    setForecast(null);
+    setError(null);
+  };
 
-  const activeData = isCleansed ? cleansedData : data;
+  const handleRestoreWorkspace = (state: WorkspaceState, name: string, upgradeNotes: string[] = []) => {
+    applyWorkspaceState(state);
+    showStatus([`Workspace "${name}" restored.`, ...upgradeNotes].join(' '));
+  };
+
+  useEffect(() => {
+    getWorkspace(AUTOSAVE_ID)
+      .then(record => {
+        if (record) {
+          const { state, notes } = restoreWorkspaceRecord(record);
+          applyWorkspaceState(state);
+          if (notes.length > 0) showStatus(notes.join(' '));
+          setLastSavedAt(record.updatedAt);
+        }
+      })
+      .catch(err => console.warn("Workspace restore failed:", err))
+      .finally(() => setWorkspaceReady(true));
+  }, []);
+
+  // Debounced autosave once the previous session has been restored
+  useEffect(() => {
+    if (!workspaceReady) return;
+    const timer = setTimeout(() => {
+      autosaveWorkspace(workspaceState)
+        .then(record => setLastSavedAt(record.updatedAt))
+        .catch(err => console.warn("Workspace autosave failed:", err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [workspaceState, workspaceReady]);
 
   // --- DYNAMIC FILTER LOGIC ---
   const availableParts = useMemo(() => {
@@ -72,6 +242,71 @@ const App: React.FC = () => {
     return Array.from(new Set(filtered.map(d => d.country))).sort();
   }, [activeData, filters.partNumber, filters.vendor]);
 
+  const aiProvider = useMemo(() => createAIProvider(aiProviderSettings), [aiProviderSettings]);
+  const modelOptions: string[] = useMemo(() => [...aiProvider.models, LOCAL_FORECAST_MODEL], [aiProvider]);
+
+  useEffect(() => {
+    saveAIProviderSettings(aiProviderSettings);
+  }, [aiProviderSettings]);
+
+  // Switching provider (or restoring a workspace saved under another one) falls back to the provider's first model
+  useEffect(() => {
+    if (!modelOptions.includes(selectedModel)) setSelectedModel(modelOptions[0]);
+  }, [modelOptions, selectedModel]);
+
+  const updateAIProviderSettings = (patch: Partial<AIProviderSettings>) => setAIProviderSettings(s => ({ ...s, ...patch }));
+
+  const aiCache = aiCacheEnabled ? browserAICache : undefined;
+
+  const refreshCacheStats = () => {
+    getCacheStats()
+      .then(setCacheStats)
+      .catch(err => {
+        console.warn("AI cache unavailable:", err);
+        setCacheStats(null);
+      });
+  };
+
+  useEffect(() => {
+    refreshCacheStats();
+  }, []);
+
+  const showStatus = (message: string) => {
+    setEmailModeStatus(message);
+    setTimeout(() => setEmailModeStatus(null), 4000);
+  };
+
+  const runCacheAction = async (action: () => Promise<string>) => {
+    try {
+      showStatus(await action());
+    } catch (err: any) {
+      setError(`Cache Error: ${err?.message || "The AI response cache could not be updated."}`);
+    } finally {
+      refreshCacheStats();
+    }
+  };
+
+  const handleInvalidateStaleCache = () => runCacheAction(async () => {
+    const removed = await invalidateStaleEntries(activeData);
+    return `${removed} stale cache ${removed === 1 ? 'entry' : 'entries'} removed.`;
+  });
+
+  const handleInvalidateSelectionCache = () => runCacheAction(async () => {
+    const removed = await invalidateCombination(filters);
+    return `${removed} cached ${removed === 1 ? 'response' : 'responses'} removed for ${filters.partNumber}.`;
+  });
+
+  const handleClearCache = () => runCacheAction(async () => {
+    await clearAICache();
+    return "AI response cache cleared.";
+  });
+
+  // Failed or unprocessed combinations only make sense against the data and settings they were run with
+  useEffect(() => {
+    setBulkFailures([]);
+    setBulkRemaining([]);
+  }, [activeData, selectedModel, forecastSettings]);
+
   // AUTO-DISPLAY cached forecasts when filters change
   useEffect(() => {
     if (filters.partNumber && filters.vendor && filters.country) {
@@ -100,22 +335,125 @@ const App: React.FC = () => {
     });
   }, [availableParts, availableVendors, availableCountries, activeData.length]);
 
-  const handleCleanse = () => {
-    const { cleansed, outlierCount: count } = cleanseOutliers(data);
-    setCleansedData(cleansed);
+  const handleDetectOutliers = () => {
+    // Keep earlier restorations for rows that are flagged again
+    const restoredIds = new Set(cleansedData.filter(d => d.outlierRestored).map(d => d.id));
+    const input = normalizedHistory.records.map(d => restoredIds.has(d.id) ? { ...d, outlierRestored: true } : d);
+    const { flagged, outlierCount: count } = detectOutliers(input, outlierSettings);
+    setCleansedData(flagged);
     setOutlierCount(count);
     setIsCleansed(true);
     setForecast(null);
     setAllForecasts([]); 
   };
 
+  const handleClearOutliers = () => {
+    setCleansedData([]);
+    setOutlierCount(0);
+    setIsCleansed(false);
+    setForecast(null);
+    setAllForecasts([]);
+  };
+
+  const updateOutlierRows = (update: (d: HistoricalData) => HistoricalData) => {
+    const next = cleansedData.map(update);
+    setCleansedData(next);
+    setOutlierCount(next.filter(isExcludedOutlier).length);
+  };
+
+  const handleToggleOutlier = (id: string) => {
+    updateOutlierRows(d => d.id === id ? { ...d, outlierRestored: !d.outlierRestored } : d);
+  };
+
+  const handleSetOutlierRows = (ids: Set<string>, restored: boolean) => {
+    updateOutlierRows(d => ids.has(d.id) ? { ...d, outlierRestored: restored } : d);
+  };
+
+  const handleOutlierMethodChange = (method: OutlierMethod) => {
+    setOutlierSettings(s => ({ ...s, method, threshold: DEFAULT_THRESHOLDS[method] }));
+  };
+
+  // Cleansed history, forecasts and benchmarks are all priced on the previous currency basis
+  const resetCurrencyDependents = () => {
+    setCleansedData([]);
+    setOutlierCount(0);
+    setIsCleansed(false);
+    setForecast(null);
+    setAllForecasts([]);
+    setBenchmarks([]);
+  };
+
+  const handleReportingCurrencyChange = (currency: string) => {
+    if (currency === reportingCurrency) return;
+    setReportingCurrency(currency);
+    resetCurrencyDependents();
+  };
+
+  const handleClearFxRates = () => {
+    setFxRates([]);
+    resetCurrencyDependents();
+  };
+
+  // Benchmarks were costed with the previous table or terms
+  const handleClearLandedCosts = () => {
+    setLandedCostRules([]);
+    setBenchmarks([]);
+  };
+
+  const updateLandedCostSettings = (patch: Partial<LandedCostSettings>) => {
+    setLandedCostSettings(prev => ({ ...prev, ...patch }));
+    setBenchmarks([]);
+  };
+
+  const updateInventorySettings = (patch: Partial<InventorySettings>) => setInventorySettings(prev => ({ ...prev, ...patch }));
+
+  const handleSaveScenario = (scenario: Scenario) => {
+    setScenarios(prev => prev.some(s => s.id === scenario.id) ? prev.map(s => s.id === scenario.id ? scenario : s) : [...prev, scenario]);
+    showStatus(`Scenario "${scenario.name}" saved.`);
+  };
+
+  const handleDeleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+    if (activeScenarioId === id) setActiveScenarioId(null);
+  };
+
+  // Index changes leave linked forecasts stale, so they and the benchmarks built on them are dropped like FX and outlier changes
+  const resetIndexDependents = (isAffected: (f: ForecastResult) => boolean) => {
+    const stale = allForecasts.filter(isAffected).length;
+    if (forecast && isAffected(forecast)) setForecast(null);
+    if (stale === 0) return;
+    setAllForecasts(prev => prev.filter(f => !isAffected(f)));
+    if (forecastSource === 'system') setBenchmarks([]);
+    showStatus(`${stale} index-linked forecast(s) cleared. Re-run the forecast to apply the current index data.`);
+  };
+
+  const handleClearIndices = () => {
+    resetIndexDependents(f => !!f.indexAdjustment || linkedIndices(indexLinks, f.partNumber).length > 0);
+    setIndexSeries([]);
+    setIndexLinks([]);
+  };
+
+  const handleChangeIndexLinks = (partNumber: string, indices: string[]) => {
+    resetIndexDependents(f => f.partNumber === partNumber);
+    setIndexLinks(prev => [...prev.filter(l => l.partNumber !== partNumber), ...(indices.length > 0 ? [{ partNumber, indices }] : [])]);
+  };
+
+  // Forecasts of index-linked parts are blended with the projected index before they reach benchmarking
+  const linkIndices = (forecasts: ForecastResult[]): ForecastResult[] =>
+    indexLinks.length > 0 ? applyIndexLinkages(forecasts, activeData, indexLinks, indexSeries) : forecasts;
+
+  const recordValidation = (report: ValidationReport) => setValidationReports(prev => [...prev, report]);
+
   const handleRunForecast = async () => {
     if (!filters.partNumber || !filters.vendor || !filters.country) return;
     setLoading(true);
     setError(null);
+    setValidationReports([]);
     setActiveTab('trends');
     try {
-      const result = await getForecastFromAI(activeData, filters, selectedModel);
+      const [result] = linkIndices([selectedModel === LOCAL_FORECAST_MODEL
+        ? getStatisticalForecast(activeData, filters, forecastSettings, confidenceLevel)
+        : await getForecastFromAI(activeData, filters, selectedModel, forecastSettings, recordValidation, aiProvider, aiCache)]);
       setAllForecasts(prev => {
         const other = prev.filter(p => !(p.partNumber === result.partNumber && p.vendor === result.vendor && p.country === result.country));
         return [...other, result];
@@ -125,12 +463,11 @@ const App: React.FC = () => {
       setError(err.message || "An unexpected error occurred during forecasting.");
     } finally {
       setLoading(false);
+      refreshCacheStats();
     }
   };
 
-  const handleGenerateAllForecasts = async () => {
-    if (activeData.length === 0) return;
-    
+  const allCombinations = useMemo(() => {
     const combinations: FilterState[] = [];
     const parts = Array.from(new Set(activeData.map(d => d.partNumber)));
     parts.forEach(p => {
@@ -143,19 +480,48 @@ const App: React.FC = () => {
         });
       });
     });
+    return combinations;
+  }, [activeData]);
+
+  const backtestForecaster: BulkForecaster = async (model, trainingData, combinations, onProgress, settings) =>
+    model === LOCAL_FORECAST_MODEL
+      ? getBulkStatisticalForecasts(trainingData, combinations, onProgress, settings, confidenceLevel)
+      : getBulkForecastsFromAI(trainingData, combinations, onProgress, model, settings, undefined, { provider: aiProvider, cache: aiCache }).then(run => {
+        if (run.results.length === 0 && run.failures.length > 0) throw new Error(`Bulk Analysis Failed: ${run.failures[0].reason}`);
+        return run.results;
+      });
+
+  // `resumed` runs only cover part of the combinations, so their results are merged into the existing set
+  const runBulkForecasts = async (combinations: FilterState[], resumed: boolean) => {
+    if (activeData.length === 0 || combinations.length === 0) return;
+    const controller = new AbortController();
+    bulkAbort.current = controller;
 
     setBulkLoading(true);
     setBulkProgress(0);
     setError(null);
+    setValidationReports([]);
     
     try {
-      const results = await getBulkForecastsFromAI(activeData, combinations, (processedCount) => {
+      const onProgress = (processedCount: number) => {
         setBulkProgress(Math.round((processedCount / combinations.length) * 100));
-      }, selectedModel);
-      
-      setAllForecasts(results);
-      
-      if (results.length > 0) {
+      };
+      const run: BulkForecastRun = selectedModel === LOCAL_FORECAST_MODEL
+        ? { results: getBulkStatisticalForecasts(activeData, combinations, onProgress, forecastSettings, confidenceLevel), failures: [], remaining: [] }
+        : await getBulkForecastsFromAI(activeData, combinations, onProgress, selectedModel, forecastSettings, recordValidation, { concurrency: bulkConcurrency, signal: controller.signal, provider: aiProvider, cache: aiCache });
+
+      const sameCombo = (a: FilterState, b: FilterState) => a.partNumber === b.partNumber && a.vendor === b.vendor && a.country === b.country;
+      const results = linkIndices(run.results);
+      setAllForecasts(prev => resumed ? [...prev.filter(p => !results.some(r => sameCombo(p, r))), ...results] : results);
+      setBulkFailures(prev => [...prev.filter(f => !combinations.some(c => sameCombo(f, c))), ...run.failures]);
+      setBulkRemaining(run.remaining);
+
+      const cacheHits = results.filter(r => r.cachedAt).length;
+      if (cacheHits > 0) showStatus(`${cacheHits} of ${results.length} forecasts served from the AI response cache.`);
+
+      if (results.length === 0 && run.failures.length > 0) {
+        setError("Bulk Analysis Failed: The AI engine was unable to forecast any of the requested combinations. See the failure list for reasons.");
+      } else if (results.length > 0 && !resumed) {
         const first = results[0];
         setActiveTab('trends');
         setFilters({
@@ -168,57 +534,102 @@ const App: React.FC = () => {
     } catch (err: any) {
       setError(err.message || "Bulk processing encountered a critical failure.");
     } finally {
+      bulkAbort.current = null;
       setBulkLoading(false);
       setBulkProgress(0);
+      refreshCacheStats();
     }
   };
 
-  const handleNegotiationUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleGenerateAllForecasts = () => runBulkForecasts(allCombinations, false);
+
+  const handleRetryBulkFailures = () => runBulkForecasts(bulkFailures.map(({ reason, ...combo }) => combo), true);
+
+  const handleResumeBulk = () => runBulkForecasts(bulkRemaining, true);
+
+  const handleCancelBulk = () => bulkAbort.current?.abort();
+
+  const handleDrillDown = (combo: FilterState) => {
+    setFilters(combo);
+    setActiveTab('trends');
+  };
+
+  const queueImports = async (e: React.ChangeEvent<HTMLInputElement>, kind: ImportKind) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
     
-    setLoading(true);
-    const allParsed: NegotiatedRate[] = [];
-    
     try {
+      const pending: PendingImport[] = [];
       for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const text = await new Promise<string>((resolve) => {
-          const reader = new FileReader();
-          reader.onload = (event) => resolve(event.target?.result as string);
-          reader.readAsText(file);
-        });
-        const parsed = parseNegotiationCSV(text);
-        allParsed.push(...parsed);
+        pending.push(await prepareImportFromFile(kind, files[i]));
       }
-      setProposedRates(prev => [...prev, ...allParsed]);
-      setError(null);
-      setBenchmarks([]); 
+      setImportReports([]);
+      setMappingQueue(prev => [...prev, ...pending]);
     } catch (err: any) {
-      setError("Failed to parse one or more negotiation files.");
+      setError(`Failed to read one or more ${kind === 'fx' ? 'FX rate' : kind === 'landedCost' ? 'landed cost' : kind === 'index' ? 'market index' : kind} files.`);
     } finally {
-      setLoading(false);
       e.target.value = '';
     }
   };
 
-  const handleForecastUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      try {
-        const parsed = parseForecastCSV(text);
-        if (parsed.length === 0) throw new Error("Could not parse any valid forecasts from CSV.");
-        setUploadedForecasts(parsed);
-        setForecastSource('upload');
-        setError(null);
-      } catch (err: any) {
-        setError(err.message || "Failed to parse Forecast CSV.");
+  const handleNegotiationUpload = (e: React.ChangeEvent<HTMLInputElement>) => queueImports(e, 'negotiation');
+
+  const handleForecastUpload = (e: React.ChangeEvent<HTMLInputElement>) => queueImports(e, 'forecast');
+
+  const handleMappingConfirm = (pending: PendingImport, remember: boolean) => {
+    const { mapping } = pending;
+    if (remember) saveMapping(pending.kind, pending.table.headers, mapping);
+    setMappingQueue(prev => prev.slice(1));
+
+    if (pending.kind === 'negotiation') {
+      const report = { ...parseNegotiationCSV(pending.text, mapping), fileName: pending.fileName };
+      if (report.rejected.length > 0) setImportReports(prev => [...prev, report]);
+      setProposedRates(prev => [...prev, ...report.records]);
+      setError(null);
+      setBenchmarks([]);
+    } else if (pending.kind === 'forecast') {
+      const report = { ...parseForecastCSV(pending.text, mapping), fileName: pending.fileName };
+      if (report.rejected.length > 0) setImportReports(prev => [...prev, report]);
+      if (report.records.length === 0) {
+        setError("Could not parse any valid forecasts from CSV.");
+        return;
       }
-    };
-    reader.readAsText(file);
+      setUploadedForecasts(report.records);
+      setForecastSource('upload');
+      setBenchmarks([]);
+      setError(null);
+    } else if (pending.kind === 'fx') {
+      const report = { ...parseFxRateCSV(pending.text, mapping), fileName: pending.fileName };
+      if (report.rejected.length > 0) setImportReports(prev => [...prev, report]);
+      if (report.records.length === 0) {
+        setError("Could not parse any valid FX rates from file.");
+        return;
+      }
+      setFxRates(prev => mergeFxRates(prev, report.records));
+      resetCurrencyDependents();
+      setError(null);
+    } else if (pending.kind === 'landedCost') {
+      const report = { ...parseLandedCostCSV(pending.text, mapping), fileName: pending.fileName };
+      if (report.rejected.length > 0) setImportReports(prev => [...prev, report]);
+      if (report.records.length === 0) {
+        setError("Could not parse any valid landed cost rules from file.");
+        return;
+      }
+      setLandedCostRules(prev => mergeLandedCostRules(prev, report.records));
+      setBenchmarks([]);
+      setError(null);
+    } else if (pending.kind === 'index') {
+      const report = { ...parseIndexCSV(pending.text, mapping), fileName: pending.fileName };
+      if (report.rejected.length > 0) setImportReports(prev => [...prev, report]);
+      if (report.records.length === 0) {
+        setError("Could not parse any valid index values from file.");
+        return;
+      }
+      const updated = listIndices(report.records);
+      resetIndexDependents(f => linkedIndices(indexLinks, f.partNumber).some(i => updated.includes(i)));
+      setIndexSeries(prev => mergeIndexSeries(prev, report.records));
+      setError(null);
+    }
   };
 
   const runBenchmark = async () => {
@@ -227,83 +638,141 @@ const App: React.FC = () => {
       return;
     }
     
-    const activeForecasts = forecastSource === 'system' ? allForecasts : uploadedForecasts;
+    const activeForecasts = forecastSource === 'system' ? allForecasts : normalizedUploads.records;
     if (activeForecasts.length === 0) {
       setError(`Baseline Missing: Please ensure you have ${forecastSource === 'system' ? 'system forecasts' : 'uploaded forecast data'} available.`);
       return;
     }
 
+    if (normalizedRates.records.length === 0) {
+      setError(`FX Rates Missing: No negotiated rates could be converted to ${reportingCurrency}. Upload rates for ${normalizedRates.missingCurrencies.join(', ')}.`);
+      return;
+    }
+
     setLoading(true);
     setError(null);
+    setValidationReports([]);
     try {
-      const results = await getBenchmarkAnalysis(proposedRates, activeForecasts, confidenceLevel);
+      const results = aiCommentary
+        ? await getBenchmarkAnalysis(categorizedRates, activeForecasts, confidenceLevel, reportingCurrency, recordValidation, aiProvider, aiCache, costModel)
+        : evaluateBenchmarks(categorizedRates, activeForecasts, confidenceLevel, reportingCurrency, costModel);
       setBenchmarks(results);
     } catch (err: any) {
       setError(err.message || "Benchmark analysis failed due to an AI engine error.");
     } finally {
       setLoading(false);
+      refreshCacheStats();
     }
   };
 
+  // Statuses are recomputed from the stored forecast distributions, so changing the level needs no AI call
+  const changeConfidenceLevel = (level: ConfidenceLevel) => {
+    if (level === confidenceLevel) return;
+    setConfidenceLevel(level);
+    if (benchmarks.length === 0) return;
+    const activeForecasts = forecastSource === 'system' ? allForecasts : normalizedUploads.records;
+    setBenchmarks(reclassifyBenchmarks(benchmarks, activeForecasts, level, reportingCurrency, costModel));
+    if (aiCommentary) showStatus(`Benchmark re-classified at ${level}% confidence. Re-run it to refresh AI commentary.`);
+  };
+
   const exportForecasts = () => {
     if (allForecasts.length === 0) return;
     const headers = ["Part Number", "Vendor", "Country", "Date", "Predicted Price", "Predicted Lead Time", "Confidence Upper", "Confidence Lower"];
-    const rows: any[] = [];
-    allForecasts.forEach(f => {
-      f.forecast.forEach(pt => {
-        rows.push([
-          `"${f.partNumber}"`, `"${f.vendor}"`, `"${f.country}"`, pt.date, pt.predictedPrice, pt.predictedLeadTime, pt.confidenceIntervalUpper, pt.confidenceIntervalLower
-        ]);
-      });
-    });
-    const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ProcureForecasts_${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
+    const rows = allForecasts.flatMap(f => f.forecast.map(pt => toCSVRow([
+      f.partNumber, f.vendor, f.country, pt.date, pt.predictedPrice, pt.predictedLeadTime, exportedPriceInterval(pt, f).upper, exportedPriceInterval(pt, f).lower
+    ])));
+    const csvContent = [toCSVRow(headers), ...rows].join('\n');
+    downloadText(`ProcureForecasts_${new Date().toISOString().split('T')[0]}.csv`, csvContent);
   };
 
   const exportBenchmarks = () => {
     if (benchmarks.length === 0) return;
-    const headers = ["Part Number", "Vendor", "Country", "Proposed Price", "Proposed Lead Time", "Price Status", "Lead Time Status", "AI Comment"];
-    const rows = benchmarks.map(b => [
-      `"${b.partNumber}"`, `"${b.vendor}"`, `"${b.country}"`, b.proposedPrice, b.proposedLeadTime, b.priceStatus, b.leadTimeStatus, `"${b.comment}"`
-    ]);
-    const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ProcureBenchmark_${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
+    const headers = ["Part Number", "Vendor", "Country", `Proposed Price (${reportingCurrency})`, "Original Price", "Currency", "Proposed Lead Time", "Effective From", "Effective To", "Baseline Period",
+      "Incoterm", "Payment Terms (Days)", `Landed Cost (${reportingCurrency})`, `TCO (${reportingCurrency})`, `Baseline TCO (${reportingCurrency})`, "Price Status", "Lead Time Status", "TCO Status", "AI Comment", "Alternative Source", `Est. Annual Savings (${reportingCurrency})`];
+    const rows = benchmarks.map(b => {
+      const alt = alternativeFor(b);
+      return toCSVRow([
+        b.partNumber, b.vendor, b.country, b.proposedPrice, b.originalPrice ?? b.proposedPrice, b.currency || reportingCurrency, b.proposedLeadTime,
+        b.effectiveFrom, b.effectiveTo, dateRange(b.baselineFrom, b.baselineTo),
+        b.incoterm, b.paymentTermsDays, b.landedCost, b.tco, b.baselineTco, b.priceStatus, b.leadTimeStatus, b.tcoStatus, b.comment,
+        alt ? `${alt.alternative.vendor} (${alt.alternative.country})` : '', alt ? alt.annualSavings.toFixed(2) : ''
+      ]);
+    });
+    const csvContent = [toCSVRow(headers), ...rows].join('\n');
+    downloadText(`ProcureBenchmark_${new Date().toISOString().split('T')[0]}.csv`, csvContent);
+  };
+
+  const exportForecastsXLSX = async () => {
+    if (allForecasts.length === 0) return;
+    const workbook = buildForecastWorkbook(allForecasts, xlsxPerVendor);
+    await downloadWorkbook(workbook, `ProcureForecasts_${new Date().toISOString().split('T')[0]}.xlsx`);
+  };
+
+  const exportBenchmarksXLSX = async () => {
+    if (benchmarks.length === 0) return;
+    const workbook = buildBenchmarkWorkbook(benchmarks, xlsxPerVendor, b => !hasBaseline(b), alternativeFor);
+    await downloadWorkbook(workbook, `ProcureBenchmark_${new Date().toISOString().split('T')[0]}.xlsx`);
+  };
+
+  const exportInventoryPolicies = () => {
+    if (inventoryPolicies.length === 0) return;
+    const headers = ["Part Number", "Vendor", "Country", "Annual Demand", "Daily Demand", "Daily Demand Std Dev", `Unit Price (${reportingCurrency})`, `Ordering Cost (${reportingCurrency})`,
+      `Holding Cost / Unit / Yr (${reportingCurrency})`, "Lead Time (Days)", "Lead Time Std Dev", "Lead Time Std Dev Basis", "Service Level %", "Z", "EOQ", "Orders / Yr", "Safety Stock", "Reorder Point",
+      `Annual Cost (${reportingCurrency})`, "EOQ Formula", "Safety Stock Formula", "Reorder Point Formula"];
+    const rows = inventoryPolicies.map(p => {
+      const formulas = describeInventoryFormulas(p, reportingCurrency);
+      return toCSVRow([
+        p.partNumber, p.vendor, p.country, p.annualDemand.toFixed(0), p.dailyDemand.toFixed(3), p.dailyDemandStdDev.toFixed(3), p.unitPrice, p.orderingCost,
+        p.holdingCost.toFixed(2), p.leadTime, p.leadTimeStdDev.toFixed(2), LEAD_TIME_VARIABILITY_LABELS[p.leadTimeStdDevBasis], p.serviceLevel, p.z, p.eoq, p.ordersPerYear.toFixed(2), p.safetyStock, p.reorderPoint,
+        p.annualCost.toFixed(2), formulas.eoq, formulas.safetyStock, formulas.reorderPoint
+      ]);
+    });
+    const csvContent = [toCSVRow(headers), ...rows].join('\n');
+    downloadText(`ProcureInventoryPolicy_${new Date().toISOString().split('T')[0]}.csv`, csvContent);
+  };
+
+  const exportSavingsLedger = () => {
+    if (savingsLedger.length === 0) return;
+    const headers = ["Part Number", "Vendor", "Country", "Effective From", "Effective To", "Price Status", `Quoted Price (${reportingCurrency})`, `Last Paid Price (${reportingCurrency})`, "Last Paid Date",
+      `Baseline Price (${reportingCurrency})`, "Quantity", "Volume Basis", "Months Covered", `Spend (${reportingCurrency})`, `Savings (${reportingCurrency})`, `Cost Avoidance (${reportingCurrency})`, `Overspend (${reportingCurrency})`];
+    const rows = savingsLedger.map(e => toCSVRow([
+      e.partNumber, e.vendor, e.country, e.effectiveFrom, e.effectiveTo, e.priceStatus, e.quotedPrice, e.lastPaidPrice, e.lastPaidDate,
+      e.baselinePrice === null ? '' : e.baselinePrice.toFixed(2), e.quantity, e.volumeBasis, e.volumeMonths, e.spend, e.savings, e.costAvoidance, e.overspend
+    ]));
+    const csvContent = [toCSVRow(headers), ...rows].join('\n');
+    downloadText(`ProcureSavingsLedger_${new Date().toISOString().split('T')[0]}.csv`, csvContent);
+  };
+
+  const exportSavingsLedgerXLSX = async () => {
+    if (savingsLedger.length === 0) return;
+    await downloadWorkbook(buildSavingsWorkbook(savingsLedger), `ProcureSavingsLedger_${new Date().toISOString().split('T')[0]}.xlsx`);
   };
 
   const downloadNegotiationTemplate = () => {
-    const csv = generateNegotiationSampleCSV();
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", "negotiation_template.csv");
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadText("negotiation_template.csv", generateNegotiationSampleCSV());
   };
 
+  const downloadFxTemplate = () => {
+    downloadText("fx_rates_template.csv", generateFxTemplateCSV());
+  };
+
+  // Original quoted amount, shown only when it differs from the reporting currency
+  const originalAmount = (b: BenchmarkResult): string | null =>
+    b.currency && b.currency !== reportingCurrency && b.originalPrice !== undefined ? formatMoney(b.originalPrice, b.currency) : null;
+
+  const downloadIndexTemplate = () => {
+    downloadText("market_index_template.csv", generateIndexTemplateCSV());
+  };
+
+  const downloadLandedCostTemplate = () => {
+    downloadText("landed_cost_template.csv", generateLandedCostTemplateCSV());
+  };
+
+  const dateRange = (from?: string, to?: string): string =>
+    !from ? '' : !to || to === from ? from : `${from} → ${to}`;
+
   const downloadForecastTemplate = () => {
-    const csv = generateForecastTemplateCSV();
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", "forecast_baseline_template.csv");
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadText("forecast_baseline_template.csv", generateForecastTemplateCSV());
   };
 
   const getRichTableHtml = (attentionRequired: BenchmarkResult[]) => {
@@ -326,7 +795,7 @@ const App: React.FC = () => {
           <tr style="background-color: #f8fafc;">
             <th style="padding: 12px; border: 1px solid #e2e8f0; text-align: left; font-size: 13px;">Part Number</th>
             <th style="padding: 12px; border: 1px solid #e2e8f0; text-align: left; font-size: 13px;">Vendor / Country</th>
-            <th style="padding: 12px; border: 1px solid #e2e8f0; text-align: center; font-size: 13px;">Proposed Price</th>
+            <th style="padding: 12px; border: 1px solid #e2e8f0; text-align: center; font-size: 13px;">Proposed Price (${reportingCurrency})</th>
             <th style="padding: 12px; border: 1px solid #e2e8f0; text-align: center; font-size: 13px;">Lead Time</th>
             <th style="padding: 12px; border: 1px solid #e2e8f0; text-align: left; font-size: 13px;">AI Recommendation</th>
           </tr>
@@ -341,8 +810,9 @@ const App: React.FC = () => {
           <td style="padding: 12px; border: 1px solid #e2e8f0; font-size: 12px;">${b.vendor} (${b.country})</td>
           <td style="padding: 12px; border: 1px solid #e2e8f0; text-align: center;">
             <span style="background-color: ${getHexColor(b.priceStatus)}15; color: ${getHexColor(b.priceStatus)}; padding: 4px 8px; border-radius: 6px; font-weight: bold; font-size: 12px; border: 1px solid ${getHexColor(b.priceStatus)}30; display: inline-block;">
-              $${b.proposedPrice.toFixed(2)}
+              ${formatMoney(b.proposedPrice, reportingCurrency)}
             </span>
+            ${originalAmount(b) ? `<div style="font-size: 10px; color: #64748b; margin-top: 4px;">Quoted ${originalAmount(b)}</div>` : ''}
           </td>
           <td style="padding: 12px; border: 1px solid #e2e8f0; text-align: center;">
             <span style="background-color: ${getHexColor(b.leadTimeStatus)}15; color: ${getHexColor(b.leadTimeStatus)}; padding: 4px 8px; border-radius: 6px; font-weight: bold; font-size: 12px; border: 1px solid ${getHexColor(b.leadTimeStatus)}30; display: inline-block;">
@@ -405,14 +875,13 @@ const App: React.FC = () => {
     const closing = "\nThank you,\nGPS";
     
     const summaryList = attentionRequired.map(b => 
-      `- ${b.partNumber} ($${b.proposedPrice.toFixed(2)}): ${b.priceStatus.toUpperCase()} status. ${b.comment}`
+      `- ${b.partNumber} (${formatMoney(b.proposedPrice, reportingCurrency)}${originalAmount(b) ? `, quoted ${originalAmount(b)}` : ''}): ${b.priceStatus.toUpperCase()} status. ${b.comment}`
     ).join('\n');
 
     const body = intro + summaryList + closing;
     const subject = `ACTION REQUIRED: Procurement Pricing & Lead Time Variance - ${attentionRequired.length} SKU(s)`;
     
-    setEmailModeStatus("Rich report copied! Opening email client...");
-    setTimeout(() => setEmailModeStatus(null), 4000);
+    showStatus("Rich report copied! Opening email client...");
 
     const mailto = `mailto:${emailRecipients}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
     window.location.href = mailto;
@@ -426,27 +895,100 @@ const App: React.FC = () => {
     );
   }, [benchmarks, showAttentionOnly]);
 
-  const filteredHistory = useMemo(() => {
-    return activeData
+  const baselineForecasts = forecastSource === 'system' ? allForecasts : normalizedUploads.records;
+  const activeScenario = scenarios.find(s => s.id === activeScenarioId) ?? null;
+  const scenarioForecast = forecast && activeScenario ? applyScenarioToForecast(forecast, activeScenario) : null;
+  // Scenario outcomes are rule-engine reclassifications of the base results, keyed by base row
+  const scenarioBenchmarks: Map<BenchmarkResult, BenchmarkResult> = useMemo(() => {
+    if (!activeScenario || benchmarks.length === 0) return new Map();
+    const shocked = reclassifyBenchmarks(benchmarks, applyScenario(baselineForecasts, activeScenario), confidenceLevel, reportingCurrency, costModel);
+    return new Map(benchmarks.map((b, i) => [b, shocked[i]]));
+  }, [activeScenario, benchmarks, baselineForecasts, confidenceLevel, reportingCurrency, costModel]);
+  const scenarioOutcome = activeScenario && scenarioBenchmarks.size > 0
+    ? compareBenchmarkOutcomes(benchmarks, benchmarks.map(b => scenarioBenchmarks.get(b)!))
+    : null;
+  // Quotes for the same combination can differ in price, so suggestions are keyed by benchmark row
+  const alternatives: Map<BenchmarkResult, AlternativeSource> = useMemo(() => suggestAlternatives(benchmarks, activeData, baselineForecasts, costModel), [benchmarks, activeData, baselineForecasts, costModel]);
+  const alternativeFor = (b: BenchmarkResult) => alternatives.get(b);
+  const totalSwitchSavings = Array.from(alternatives.values()).reduce((acc, a) => acc + a.annualSavings, 0);
+  const inventoryPolicies: InventoryPolicy[] = useMemo(() => computeInventoryPolicies(allForecasts, activeData, inventorySettings), [allForecasts, activeData, inventorySettings]);
+  const currentPolicy = forecast ? inventoryPolicies.find(p => p.partNumber === forecast.partNumber && p.vendor === forecast.vendor && p.country === forecast.country) : undefined;
+  const availableIndices = useMemo(() => listIndices(indexSeries), [indexSeries]);
+  const indexEstimates: Map<string, SensitivityEstimate> = useMemo(() => new Map(indexLinks.map(l =>
+    [l.partNumber, estimateSensitivity(activeData, l.partNumber, l.indices, indexSeries, forecastSettings.granularity)]
+  )), [indexLinks, activeData, indexSeries, forecastSettings.granularity]);
+  const savingsLedger: SavingsLedgerEntry[] = useMemo(() => buildSavingsLedger(benchmarks, activeData, baselineForecasts), [benchmarks, activeData, baselineForecasts]);
+
+  const reviewedHistory = useMemo(() => {
+    return reviewedData
       .filter(d => d.partNumber === filters.partNumber && d.vendor === filters.vendor && d.country === filters.country)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [activeData, filters]);
+  }, [reviewedData, filters]);
+
+  const filteredHistory = useMemo(() => reviewedHistory.filter(d => !isExcludedOutlier(d)), [reviewedHistory]);
+
+  // Flagged rows for the selected combination, or for the whole dataset when no full selection is made
+  const outlierReviewRows = useMemo(() => {
+    if (!isCleansed) return [];
+    const hasSelection = filters.partNumber && filters.vendor && filters.country;
+    return (hasSelection ? reviewedHistory : cleansedData).filter(d => d.isOutlier);
+  }, [isCleansed, cleansedData, reviewedHistory, filters]);
 
   const activeBaseline = useMemo(() => {
-    const source = forecastSource === 'system' ? allForecasts : uploadedForecasts;
+    const source = forecastSource === 'system' ? allForecasts : normalizedUploads.records;
     return source.find(f => 
       f.partNumber === filters.partNumber && 
       f.vendor === filters.vendor && 
       f.country === filters.country
     );
-  }, [forecastSource, allForecasts, uploadedForecasts, filters]);
+  }, [forecastSource, allForecasts, normalizedUploads, filters]);
+
+  // Landed cost of the projected price, on the default Incoterm and payment terms
+  const forecastCost = useMemo(() => {
+    if (!forecast || !costModel) return null;
+    const category = data.find(d => d.partNumber === forecast.partNumber && d.category)?.category;
+    return costBreakdown(forecast.summary.avgPredictedPrice, { country: forecast.country, category }, costModel);
+  }, [forecast, costModel, data]);
 
   const combinedData = useMemo(() => {
     if (!forecast) return [];
-    const history = filteredHistory.map(h => ({ date: h.date, price: h.usdPrice, leadTime: h.leadTimeDays, isForecast: false }));
-    const future = forecast.forecast.map(f => ({ date: f.date, price: f.predictedPrice, leadTime: f.predictedLeadTime, isForecast: true }));
+    // History is resampled to the forecast's granularity so both series share one time axis
+    const history = bucketByPeriod<HistoricalData>(reviewedHistory, forecast.granularity || 'monthly').map(({ period, records }) => {
+      const included = records.filter(r => !isExcludedOutlier(r));
+      const source = included.length > 0 ? included : records;
+      const flagged = records.filter(r => r.isOutlier);
+      return {
+        date: period,
+        price: parseFloat(average(source.map(r => r.usdPrice)).toFixed(2)),
+        leadTime: parseFloat(average(source.map(r => r.leadTimeDays)).toFixed(1)),
+        isForecast: false,
+        outlier: flagged.length === 0 ? undefined : flagged.some(isExcludedOutlier) ? 'excluded' : 'restored'
+      };
+    });
+    const future = forecast.forecast.map((f, i) => {
+      const price = priceInterval(f, confidenceLevel, forecast.intervalLevel);
+      const leadTime = leadTimeInterval(f, confidenceLevel, forecast.intervalLevel);
+      return {
+        date: f.date,
+        price: f.predictedPrice,
+        leadTime: f.predictedLeadTime,
+        priceBand: [price.lower, price.upper].map(v => parseFloat(v.toFixed(2))),
+        leadTimeBand: leadTime ? [leadTime.lower, leadTime.upper].map(v => parseFloat(v.toFixed(1))) : undefined,
+        scenarioPrice: scenarioForecast?.forecast[i].predictedPrice,
+        scenarioLeadTime: scenarioForecast?.forecast[i].predictedLeadTime,
+        isForecast: true
+      };
+    });
     return [...history, ...future];
-  }, [filteredHistory, forecast]);
+  }, [reviewedHistory, forecast, confidenceLevel, scenarioForecast]);
+
+  // Highlights flagged history points on the trend charts
+  const renderOutlierDot = (props: any) => {
+    const { cx, cy, payload, index } = props;
+    if (!payload?.outlier || cx == null || cy == null) return <g key={index} />;
+    const color = payload.outlier === 'excluded' ? '#e11d48' : '#d97706';
+    return <circle key={index} cx={cx} cy={cy} r={6} fill={color} stroke="#fff" strokeWidth={2} />;
+  };
 
   const baselinePreviewData = useMemo(() => {
     if (!activeBaseline) return [];
@@ -455,12 +997,12 @@ const App: React.FC = () => {
     const future = activeBaseline.forecast.slice(0, 3).map(f => ({ 
       val: f.predictedPrice, 
       lt: f.predictedLeadTime, 
-      high: f.confidenceIntervalUpper,
-      low: f.confidenceIntervalLower,
+      high: priceInterval(f, confidenceLevel, activeBaseline.intervalLevel).upper,
+      low: priceInterval(f, confidenceLevel, activeBaseline.intervalLevel).lower,
       type: 'F' 
     }));
     return [...history, ...future];
-  }, [activeBaseline, filteredHistory]);
+  }, [activeBaseline, filteredHistory, confidenceLevel]);
 
   const getStatusIcon = (status: string) => {
     switch(status) {
@@ -504,11 +1046,24 @@ const App: React.FC = () => {
               >
                 <Scale className="w-3.5 h-3.5" /> 2. Negotiation Benchmark
               </button>
+              <button 
+                onClick={() => setActiveTab('backtest')}
+                className={`text-xs font-bold uppercase tracking-wider flex items-center gap-1.5 transition-all ${activeTab === 'backtest' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                <Target className="w-3.5 h-3.5" /> 3. Model Backtest
+              </button>
+              <button 
+                onClick={() => setActiveTab('scorecard')}
+                className={`text-xs font-bold uppercase tracking-wider flex items-center gap-1.5 transition-all ${activeTab === 'scorecard' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                <Award className="w-3.5 h-3.5" /> 4. Vendor Scorecard
+              </button>
             </div>
           </div>
         </div>
         <div className="flex items-center gap-4">
-           {isCleansed && <div className="px-3 py-1 bg-emerald-50 border border-emerald-100 rounded-full text-[10px] font-bold text-emerald-700 flex items-center gap-1.5"><CheckCircle2 className="w-3 h-3"/> {outlierCount} Outliers Cleansed</div>}
+           {isCleansed && <div className="px-3 py-1 bg-emerald-50 border border-emerald-100 rounded-full text-[10px] font-bold text-emerald-700 flex items-center gap-1.5"><CheckCircle2 className="w-3 h-3"/> {outlierCount} Outliers Excluded</div>}
+           <WorkspaceMenu getState={() => workspaceState} onRestore={handleRestoreWorkspace} lastSavedAt={lastSavedAt} />
            <div className="h-8 w-px bg-slate-100" />
            <div className="flex items-center gap-3">
              <div className="flex flex-col items-end">
@@ -536,22 +1091,271 @@ const App: React.FC = () => {
             </div>
           ) : (
             <div className="space-y-6 flex-1">
-              {data.length > 0 && !isCleansed && (
-                <button 
-                  onClick={handleCleanse}
-                  className="w-full py-3 bg-rose-50 border border-rose-100 text-rose-600 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-rose-100 transition-all"
+              {data.length > 0 && (
+                <div className="p-5 bg-rose-50/50 rounded-2xl border border-rose-100 space-y-3">
+                  <label className="block text-[10px] font-black text-rose-400 uppercase tracking-widest flex items-center gap-2">
+                    <ShieldAlert className="w-3 h-3" /> Outlier Detection
+                  </label>
+                  <select
+                    value={outlierSettings.method}
+                    onChange={(e) => handleOutlierMethodChange(e.target.value as OutlierMethod)}
+                    className="w-full p-2.5 bg-white border border-rose-100 rounded-xl text-xs font-semibold outline-none focus:ring-2 focus:ring-rose-300"
+                  >
+                    {(Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[]).map(m => <option key={m} value={m}>{OUTLIER_METHOD_LABELS[m]}</option>)}
+                  </select>
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <span className="block text-[9px] font-bold text-slate-400 uppercase mb-1">{outlierSettings.method === 'iqr' ? 'Multiplier k' : 'Threshold'}</span>
+                      <input
+                        type="number" min={0.5} step={0.5}
+                        value={outlierSettings.threshold}
+                        onChange={(e) => setOutlierSettings(s => ({ ...s, threshold: Math.max(0.1, Number(e.target.value) || 0) }))}
+                        className="w-full p-2 bg-white border border-rose-100 rounded-lg text-xs font-semibold outline-none"
+                      />
+                    </div>
+                    {outlierSettings.method === 'rolling' && (
+                      <div className="flex-1">
+                        <span className="block text-[9px] font-bold text-slate-400 uppercase mb-1">Window</span>
+                        <input
+                          type="number" min={3} step={1}
+                          value={outlierSettings.window}
+                          onChange={(e) => setOutlierSettings(s => ({ ...s, window: Math.max(3, Math.round(Number(e.target.value) || 3)) }))}
+                          className="w-full p-2 bg-white border border-rose-100 rounded-lg text-xs font-semibold outline-none"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+                    <input type="checkbox" checked={outlierSettings.checkLeadTime} onChange={(e) => setOutlierSettings(s => ({ ...s, checkLeadTime: e.target.checked }))} className="accent-rose-600" />
+                    Also check lead times
+                  </label>
+                  <button 
+                    onClick={handleDetectOutliers}
+                    className="w-full py-3 bg-rose-50 border border-rose-100 text-rose-600 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-rose-100 transition-all"
+                  >
+                    <Trash2 className="w-4 h-4" /> {isCleansed ? 'Re-run Detection' : 'Flag Outliers'}
+                  </button>
+                  {isCleansed && (
+                    <button onClick={handleClearOutliers} className="text-slate-400 text-[9px] font-bold hover:text-rose-600 transition-all w-full text-center">
+                      Clear Flags & Use Raw History
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <div className="p-5 bg-white rounded-2xl border border-slate-200">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                  <HardDrive className="w-3 h-3 text-indigo-500" /> AI Response Cache
+                </label>
+                <label className="flex items-center justify-between gap-2 cursor-pointer">
+                  <span className="text-xs font-semibold text-slate-600">Reuse cached responses</span>
+                  <input type="checkbox" checked={aiCacheEnabled} onChange={(e) => setAICacheEnabled(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                </label>
+                <p className="text-[9px] text-slate-400 mt-2 leading-tight">
+                  {cacheStats ? `${cacheStats.forecasts} forecasts • ${cacheStats.comments} benchmark comments cached` : 'Cache unavailable in this browser.'}
+                </p>
+                {cacheStats && cacheStats.total > 0 && (
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3">
+                    {activeData.length > 0 && (
+                      <button onClick={handleInvalidateStaleCache} className="text-[10px] font-black text-indigo-500 hover:text-indigo-700 uppercase tracking-widest transition-colors">
+                        Clear Stale
+                      </button>
+                    )}
+                    {filters.partNumber && filters.vendor && filters.country && (
+                      <button onClick={handleInvalidateSelectionCache} className="text-[10px] font-black text-indigo-500 hover:text-indigo-700 uppercase tracking-widest transition-colors">
+                        Clear Selection
+                      </button>
+                    )}
+                    <button onClick={handleClearCache} className="text-[10px] font-black text-rose-500 hover:text-rose-700 uppercase tracking-widest transition-colors">
+                      Clear All
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-5 bg-white rounded-2xl border border-slate-200">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                  <Banknote className="w-3 h-3 text-emerald-500" /> Reporting Currency
+                </label>
+                <select
+                  value={reportingCurrency}
+                  onChange={(e) => handleReportingCurrencyChange(e.target.value)}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-indigo-500"
                 >
-                  <Trash2 className="w-4 h-4" /> Cleanse Outliers
+                  {availableCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <div className="flex items-center gap-2 mt-3">
+                  <label className={`flex-1 cursor-pointer py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-1.5 border transition-all ${fxRates.length > 0 ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-indigo-300'}`}>
+                    <Upload className="w-3 h-3" /> {fxRates.length > 0 ? `${fxRates.length} FX Rates` : 'Upload FX Rates'}
+                    <input type="file" className="hidden" accept=".csv,.tsv,.txt,.xlsx" multiple onChange={(e) => queueImports(e, 'fx')} />
+                  </label>
+                  {fxRates.length > 0 && (
+                    <button onClick={handleClearFxRates} className="text-[10px] font-black text-rose-500 hover:text-rose-700 uppercase tracking-widest transition-colors">
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <button onClick={downloadFxTemplate} className="text-slate-400 text-[9px] font-bold hover:text-indigo-600 transition-all w-full text-center mt-2">
+                  Download FX Rate Template
                 </button>
-              )}
+                {missingFxCurrencies.length > 0 && (
+                  <p className="text-[9px] text-amber-600 mt-2 leading-tight font-bold flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 shrink-0" />
+                    No FX rate for {missingFxCurrencies.join(', ')}. {normalizedHistory.excluded + normalizedRates.excluded + normalizedLandedCosts.excluded + normalizedUploads.excluded} row(s) excluded until rates are uploaded.
+                  </p>
+                )}
+              </div>
+
+              <div className="p-5 bg-white rounded-2xl border border-slate-200">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                  <Ship className="w-3 h-3 text-sky-500" /> Landed Cost Model
+                </label>
+                <div className="flex items-center gap-2">
+                  <label className={`flex-1 cursor-pointer py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-1.5 border transition-all ${landedCostRules.length > 0 ? 'bg-sky-50 border-sky-100 text-sky-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-indigo-300'}`}>
+                    <Upload className="w-3 h-3" /> {landedCostRules.length > 0 ? `${landedCostRules.length} Cost Rules` : 'Upload Freight & Duty'}
+                    <input type="file" className="hidden" accept=".csv,.tsv,.txt,.xlsx" multiple onChange={(e) => queueImports(e, 'landedCost')} />
+                  </label>
+                  {landedCostRules.length > 0 && (
+                    <button onClick={handleClearLandedCosts} className="text-[10px] font-black text-rose-500 hover:text-rose-700 uppercase tracking-widest transition-colors">
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <button onClick={downloadLandedCostTemplate} className="text-slate-400 text-[9px] font-bold hover:text-indigo-600 transition-all w-full text-center mt-2">
+                  Download Landed Cost Template
+                </button>
+                <div className="grid grid-cols-3 gap-2 mt-3">
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                    Default Terms
+                    <select
+                      value={landedCostSettings.defaultIncoterm}
+                      onChange={(e) => updateLandedCostSettings({ defaultIncoterm: e.target.value as Incoterm })}
+                      className="w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {INCOTERMS.map(term => <option key={term} value={term}>{term}</option>)}
+                    </select>
+                  </label>
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                    Pay Days
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_PAYMENT_TERMS_DAYS}
+                      value={landedCostSettings.defaultPaymentTermsDays}
+                      onChange={(e) => updateLandedCostSettings({ defaultPaymentTermsDays: Math.min(MAX_PAYMENT_TERMS_DAYS, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+                      className="w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </label>
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                    Capital %
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.5}
+                      value={landedCostSettings.costOfCapital}
+                      onChange={(e) => updateLandedCostSettings({ costOfCapital: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                      className="w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </label>
+                </div>
+                <p className="text-[9px] text-slate-400 mt-2 leading-tight font-medium">
+                  Defaults apply to historical prices, forecasts and quotes without an Incoterm or payment terms.
+                </p>
+              </div>
+
+              <div className="p-5 bg-white rounded-2xl border border-slate-200">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                  <Link2 className="w-3 h-3 text-amber-500" /> Market Indices
+                </label>
+                <div className="flex items-center gap-2">
+                  <label className={`flex-1 cursor-pointer py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-1.5 border transition-all ${indexSeries.length > 0 ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-indigo-300'}`}>
+                    <Upload className="w-3 h-3" /> {indexSeries.length > 0 ? `${availableIndices.length} Indices` : 'Upload Index Series'}
+                    <input type="file" className="hidden" accept=".csv,.tsv,.txt,.xlsx" multiple onChange={(e) => queueImports(e, 'index')} />
+                  </label>
+                  {indexSeries.length > 0 && (
+                    <button onClick={handleClearIndices} className="text-[10px] font-black text-rose-500 hover:text-rose-700 uppercase tracking-widest transition-colors">
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <button onClick={downloadIndexTemplate} className="text-slate-400 text-[9px] font-bold hover:text-indigo-600 transition-all w-full text-center mt-2">
+                  Download Index Template
+                </button>
+                <p className="text-[9px] text-slate-400 mt-2 leading-tight font-medium">
+                  {indexLinks.length > 0
+                    ? `${indexLinks.length} ${indexLinks.length === 1 ? 'part' : 'parts'} linked. Values dated after the history are used as index projections.`
+                    : 'Link parts to an index from the Trends tab. Values dated after the history are used as index projections.'}
+                </p>
+              </div>
+
+              <div className="p-5 bg-white rounded-2xl border border-slate-200">
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                  <FlaskConical className="w-3 h-3 text-fuchsia-500" /> What-if Scenario
+                </label>
+                <select
+                  value={activeScenarioId ?? ''}
+                  onChange={(e) => setActiveScenarioId(e.target.value || null)}
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Base forecast only</option>
+                  {scenarios.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+                </select>
+                {activeScenario && (
+                  <ul className="mt-2 space-y-0.5">
+                    {activeScenario.shocks.map(shock => (
+                      <li key={shock.id} className="text-[9px] text-fuchsia-700 font-bold leading-tight">{describeShock(shock, reportingCurrency)}</li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  onClick={() => setShowScenarioBuilder(true)}
+                  className="w-full mt-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-1.5 border bg-slate-50 border-slate-200 text-slate-600 hover:border-fuchsia-300 transition-all"
+                >
+                  <Settings2 className="w-3 h-3" /> {scenarios.length > 0 ? 'Manage Scenarios' : 'Build a Scenario'}
+                </button>
+              </div>
 
               <div className="space-y-4">
                 <div className="p-5 bg-slate-900 rounded-2xl border border-slate-800 shadow-xl">
+                  <label className="flex items-center gap-2 text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-3">
+                    <Server className="w-3 h-3" /> AI Provider
+                  </label>
+                  <select
+                    value={aiProviderSettings.provider}
+                    onChange={(e) => updateAIProviderSettings({ provider: e.target.value as AIProviderId })}
+                    className="w-full p-3 mb-3 bg-slate-800 border border-slate-700 rounded-xl text-xs font-bold text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {(Object.keys(AI_PROVIDER_LABELS) as AIProviderId[]).map(p => <option key={p} value={p}>{AI_PROVIDER_LABELS[p]}</option>)}
+                  </select>
+                  {aiProviderSettings.provider === 'openai-compatible' && (
+                    <div className="space-y-2 mb-4">
+                      <input
+                        type="url" placeholder="Base URL, e.g. http://localhost:11434/v1"
+                        value={aiProviderSettings.baseUrl}
+                        onChange={(e) => updateAIProviderSettings({ baseUrl: e.target.value })}
+                        className="w-full p-2.5 bg-slate-800 border border-slate-700 rounded-xl text-xs font-semibold text-slate-200 placeholder-slate-500 outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <input
+                        type="text" placeholder="Model name"
+                        value={aiProviderSettings.model}
+                        onChange={(e) => updateAIProviderSettings({ model: e.target.value })}
+                        className="w-full p-2.5 bg-slate-800 border border-slate-700 rounded-xl text-xs font-semibold text-slate-200 placeholder-slate-500 outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <input
+                        type="password" placeholder="API key (optional)" autoComplete="off"
+                        value={aiProviderSettings.apiKey}
+                        onChange={(e) => updateAIProviderSettings({ apiKey: e.target.value })}
+                        className="w-full p-2.5 bg-slate-800 border border-slate-700 rounded-xl text-xs font-semibold text-slate-200 placeholder-slate-500 outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <p className="text-[9px] text-slate-500 leading-tight">Stored in this browser only; never included in workspace exports.</p>
+                    </div>
+                  )}
                   <label className="flex items-center gap-2 text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-4">
                     <Cpu className="w-3 h-3" /> Select AI Intelligence Level
                   </label>
                   <div className="flex flex-col gap-2">
-                    {(['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-flash-lite-latest'] as ModelType[]).map(m => (
+                    {modelOptions.map(m => (
                       <button
                         key={m}
                         onClick={() => setSelectedModel(m)}
@@ -559,10 +1363,10 @@ const App: React.FC = () => {
                       >
                         <div>
                           <div className={`text-[11px] font-black uppercase tracking-wider ${selectedModel === m ? 'text-white' : 'text-slate-200'}`}>
-                            {m.split('-')[1].toUpperCase()} {m.split('-')[2]?.toUpperCase() || ''}
+                            {modelLabel(m)}
                           </div>
                           <div className="text-[9px] opacity-60 mt-0.5 font-medium">
-                            {m.includes('pro') ? 'Deep Reasoning' : m.includes('lite') ? 'Ultra Low Latency' : 'Balanced Performance'}
+                            {modelTagline(m)}
                           </div>
                         </div>
                         {selectedModel === m && <div className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse shadow-sm shadow-emerald-400" />}
@@ -617,10 +1421,10 @@ const App: React.FC = () => {
                   <div className="p-5 bg-indigo-50 rounded-2xl border border-indigo-100">
                     <label className="block text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-3">Benchmark Precision</label>
                     <div className="flex flex-col gap-2">
-                      {[90, 95, 99].map(lvl => (
+                      {CONFIDENCE_LEVELS.map(lvl => (
                         <button 
                           key={lvl}
-                          onClick={() => setConfidenceLevel(lvl as ConfidenceLevel)}
+                          onClick={() => changeConfidenceLevel(lvl)}
                           className={`px-3 py-2 rounded-lg text-xs font-bold transition-all flex items-center justify-between ${confidenceLevel === lvl ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white text-indigo-600 hover:bg-indigo-100 border border-indigo-100'}`}
                         >
                           {lvl}% Confidence Level
@@ -630,6 +1434,25 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  <div className="p-5 bg-white rounded-2xl border border-slate-200">
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Feedback Engine</label>
+                    <div className="flex bg-slate-100 p-1 rounded-xl">
+                      <button 
+                        onClick={() => setAiCommentary(true)}
+                        className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${aiCommentary ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        <Sparkles className="w-3 h-3" /> AI
+                      </button>
+                      <button 
+                        onClick={() => setAiCommentary(false)}
+                        className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${!aiCommentary ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        <Scale className="w-3 h-3" /> Rules Only
+                      </button>
+                    </div>
+                    <p className="text-[9px] text-slate-400 mt-2 leading-tight italic">Statuses are always computed by the rule engine. AI only writes the feedback comments.</p>
+                  </div>
+
                   <div className="p-5 bg-slate-50 rounded-2xl border border-slate-200">
                     <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
                       <Mail className="w-3 h-3 text-indigo-500" /> Report Distribution
@@ -647,6 +1470,33 @@ const App: React.FC = () => {
 
               {data.length > 0 && activeTab === 'trends' && (
                 <div className="pt-6 border-t border-slate-100 space-y-3">
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Horizon</label>
+                      <input
+                        type="number" min={MIN_HORIZON} max={MAX_HORIZON}
+                        value={forecastSettings.horizon}
+                        onChange={(e) => setForecastSettings(s => ({ ...s, horizon: Number(e.target.value) }))}
+                        onBlur={() => setForecastSettings(s => ({ ...s, horizon: clampHorizon(s.horizon) }))}
+                        className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Granularity</label>
+                      <select
+                        value={forecastSettings.granularity}
+                        onChange={(e) => setForecastSettings(s => ({ ...s, granularity: e.target.value as ForecastGranularity }))}
+                        className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        {(Object.keys(GRANULARITY_LABELS) as ForecastGranularity[]).map(g => (
+                          <option key={g} value={g}>{GRANULARITY_LABELS[g].adjective.charAt(0).toUpperCase() + GRANULARITY_LABELS[g].adjective.slice(1)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <p className="text-[9px] text-slate-400 leading-tight italic">
+                    {forecastSettings.horizon} {GRANULARITY_LABELS[forecastSettings.granularity].unit}s ahead ({MIN_HORIZON}–{MAX_HORIZON}).
+                  </p>
                   <button 
                     onClick={handleRunForecast}
                     disabled={loading || !filters.partNumber || bulkLoading}
@@ -655,25 +1505,50 @@ const App: React.FC = () => {
                     {loading ? 'Thinking...' : <><Zap className="w-5 h-5 text-amber-400" /> Run Forecast</>}
                   </button>
 
-                  <button 
-                    onClick={handleGenerateAllForecasts}
-                    disabled={bulkLoading || loading}
-                    className={`w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all border-2 ${bulkLoading ? 'bg-slate-50 text-slate-400 border-slate-100 cursor-not-allowed' : 'bg-white text-indigo-600 border-indigo-100 hover:border-indigo-300 hover:bg-indigo-50/30'}`}
-                  >
-                    {bulkLoading ? (
-                      <div className="flex flex-col items-center gap-1">
-                        <div className="flex items-center gap-2">
-                          <RefreshCw className="w-4 h-4 animate-spin" />
-                          Batch Process...
-                        </div>
-                        <div className="w-32 h-1 bg-slate-200 rounded-full overflow-hidden">
-                          <div className="h-full bg-indigo-500" style={{ width: `${bulkProgress}%` }}></div>
+                  {selectedModel !== LOCAL_FORECAST_MODEL && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Parallel Batches</label>
+                      <input
+                        type="number" min={MIN_CONCURRENCY} max={MAX_CONCURRENCY}
+                        value={bulkConcurrency}
+                        disabled={bulkLoading}
+                        onChange={(e) => setBulkConcurrency(Number(e.target.value))}
+                        onBlur={() => setBulkConcurrency(c => clampConcurrency(c))}
+                        className="w-20 p-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={handleGenerateAllForecasts}
+                      disabled={bulkLoading || loading}
+                      className={`flex-1 py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all border-2 ${bulkLoading ? 'bg-slate-50 text-slate-400 border-slate-100 cursor-not-allowed' : 'bg-white text-indigo-600 border-indigo-100 hover:border-indigo-300 hover:bg-indigo-50/30'}`}
+                    >
+                      {bulkLoading ? (
+                        <div className="flex flex-col items-center gap-1">
+                          <div className="flex items-center gap-2">
+                            <RefreshCw className="w-4 h-4 animate-spin" />
+                            Batch Process...
+                          </div>
+                          <div className="w-32 h-1 bg-slate-200 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500" style={{ width: `${bulkProgress}%` }}></div>
+                          </div>
                         </div>
-                      </div>
-                    ) : (
-                      <><Layers className="w-4 h-4" /> Bulk Optimization</>
+                      ) : (
+                        <><Layers className="w-4 h-4" /> Bulk Optimization</>
+                      )}
+                    </button>
+                    {bulkLoading && selectedModel !== LOCAL_FORECAST_MODEL && (
+                      <button
+                        onClick={handleCancelBulk}
+                        className="px-4 rounded-xl font-bold border-2 border-rose-100 text-rose-600 hover:bg-rose-50 transition-all"
+                        title="Cancel bulk run — unprocessed combinations can be resumed"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
                     )}
-                  </button>
+                  </div>
                 </div>
               )}
             </div>
@@ -687,7 +1562,7 @@ const App: React.FC = () => {
                 <h2 className="text-4xl font-black text-slate-900 mb-4 tracking-tight">Supply Chain Intelligence</h2>
                 <p className="text-slate-500 text-lg max-w-xl mx-auto leading-relaxed font-medium">Automate procurement forecasting and benchmark negotiation strategies with advanced AI.</p>
               </div>
-              <DataUpload onDataLoaded={(newData) => { setData(newData); setIsCleansed(false); setAllForecasts([]); }} />
+              <DataUpload onDataLoaded={(newData, report) => { setData(newData); setIsCleansed(false); setAllForecasts([]); setImportReports(report && report.rejected.length > 0 ? [report] : []); }} />
             </div>
           ) : (
             <div className="max-w-7xl mx-auto space-y-10">
@@ -702,22 +1577,52 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              <ImportReportPanel reports={importReports} onDismiss={() => setImportReports([])} />
+              <ValidationReportPanel reports={validationReports} onDismiss={() => setValidationReports([])} />
+              <BulkFailurePanel
+                failures={bulkFailures}
+                remaining={bulkRemaining}
+                busy={bulkLoading || loading}
+                onRetryFailures={handleRetryBulkFailures}
+                onResume={handleResumeBulk}
+                onDismiss={() => { setBulkFailures([]); setBulkRemaining([]); }}
+              />
+
               {activeTab === 'trends' ? (
                 <>
                   <div className="flex items-center justify-between">
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 flex-1">
-                      <StatsCard title="Data History" value={filteredHistory.length} icon={<Database className="w-5 h-5 text-indigo-600" />} color="bg-indigo-50" subtext={isCleansed ? "Outliers Removed" : "Raw Samples"} />
-                      <StatsCard title="Price Projection" value={forecast ? `$${forecast.summary.avgPredictedPrice.toFixed(2)}` : '---'} icon={<TrendingUp className="w-5 h-5 text-violet-600" />} color="bg-violet-50" trend={forecast?.summary.priceTrend as any} />
-                      <StatsCard title="Lead Time Forecast" value={forecast ? `${forecast.summary.avgPredictedLeadTime.toFixed(0)}d` : '---'} icon={<Clock className="w-5 h-5 text-blue-600" />} color="bg-blue-50" trend={forecast?.summary.leadTimeTrend as any} />
-                      <StatsCard title="Optimal Order" value={forecast ? forecast.summary.optimizedOrderQuantity.toLocaleString() : '---'} icon={<Package className="w-5 h-5 text-emerald-600" />} color="bg-emerald-50" />
+                      <StatsCard title="Data History" value={filteredHistory.length} icon={<Database className="w-5 h-5 text-indigo-600" />} color="bg-indigo-50" subtext={isCleansed ? `${reviewedHistory.length - filteredHistory.length} Outliers Excluded` : "Raw Samples"} />
+                      <StatsCard title="Price Projection" value={forecast ? formatMoney(forecast.summary.avgPredictedPrice, reportingCurrency) : '---'} icon={<TrendingUp className="w-5 h-5 text-violet-600" />} color="bg-violet-50" trend={forecast?.summary.priceTrend as any} subtext={[
+                        forecastCost ? `Landed ${formatMoney(forecastCost.landedCost, reportingCurrency)} • TCO ${formatMoney(forecastCost.tco, reportingCurrency)}` : '',
+                        scenarioForecast ? `${activeScenario!.name}: ${formatMoney(scenarioForecast.summary.avgPredictedPrice, reportingCurrency)}` : '',
+                        forecast?.indexAdjustment ? `${Math.round(forecast.indexAdjustment.rSquared * 100)}% index-driven` : '',
+                        forecast?.cachedAt ? `Cached ${new Date(forecast.cachedAt).toLocaleDateString()}` : ''
+                      ].filter(Boolean).join(' • ') || undefined} />
+                      <StatsCard title="Lead Time Forecast" value={forecast ? `${forecast.summary.avgPredictedLeadTime.toFixed(0)}d` : '---'} icon={<Clock className="w-5 h-5 text-blue-600" />} color="bg-blue-50" trend={forecast?.summary.leadTimeTrend as any} subtext={scenarioForecast ? `${activeScenario!.name}: ${scenarioForecast.summary.avgPredictedLeadTime.toFixed(0)}d` : undefined} />
+                      <StatsCard title="Optimal Order" value={currentPolicy ? currentPolicy.eoq.toLocaleString() : '---'} icon={<Package className="w-5 h-5 text-emerald-600" />} color="bg-emerald-50" subtext={currentPolicy ? `EOQ • SS ${currentPolicy.safetyStock.toLocaleString()} • ROP ${currentPolicy.reorderPoint.toLocaleString()}` : undefined} />
                     </div>
                     {allForecasts.length > 0 && (
-                      <button 
-                        onClick={exportForecasts}
-                        className="ml-6 flex items-center gap-2 px-6 py-4 bg-slate-900 text-white text-xs font-bold rounded-2xl hover:bg-slate-800 transition-all shadow-xl shadow-slate-200"
-                      >
-                        <FileDown className="w-5 h-5" /> Export Repository
-                      </button>
+                      <div className="ml-6 flex flex-col gap-2">
+                        <button 
+                          onClick={exportForecasts}
+                          className="flex items-center gap-2 px-6 py-4 bg-slate-900 text-white text-xs font-bold rounded-2xl hover:bg-slate-800 transition-all shadow-xl shadow-slate-200"
+                        >
+                          <FileDown className="w-5 h-5" /> Export Repository
+                        </button>
+                        <div className="flex items-center gap-2">
+                          <button 
+                            onClick={exportForecastsXLSX}
+                            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-emerald-700 transition-all"
+                          >
+                            <FileSpreadsheet className="w-3.5 h-3.5" /> XLSX
+                          </button>
+                          <label className="flex items-center gap-1.5 text-[9px] font-bold text-slate-500 cursor-pointer whitespace-nowrap">
+                            <input type="checkbox" checked={xlsxPerVendor} onChange={(e) => setXlsxPerVendor(e.target.checked)} className="accent-indigo-600" />
+                            Sheet per vendor
+                          </label>
+                        </div>
+                      </div>
                     )}
                   </div>
 
@@ -728,14 +1633,28 @@ const App: React.FC = () => {
                           Price Trend Visualization
                           <span className="text-[10px] font-black uppercase tracking-widest text-indigo-500 bg-indigo-50 px-3 py-1 rounded-full">{filters.partNumber}</span>
                         </h3>
+                        <div className="flex items-center justify-end gap-1 -mt-6 mb-4">
+                          <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 mr-1">Band</span>
+                          {CONFIDENCE_LEVELS.map(lvl => (
+                            <button
+                              key={lvl}
+                              onClick={() => changeConfidenceLevel(lvl)}
+                              className={`px-2 py-1 rounded-md text-[10px] font-black transition-all ${confidenceLevel === lvl ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                            >
+                              {lvl}%
+                            </button>
+                          ))}
+                        </div>
                         <div className="h-[350px]">
                           <ResponsiveContainer width="100%" height="100%">
                             <AreaChart data={combinedData}>
                               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                              <XAxis dataKey="date" stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} dy={10} tickFormatter={(val) => new Date(val).toLocaleDateString(undefined, {month:'short'})}/>
-                              <YAxis stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} tickFormatter={(val) => `$${val}`} />
+                              <XAxis dataKey="date" stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} dy={10} tickFormatter={(val) => formatPeriodLabel(val, forecast.granularity || 'monthly')}/>
+                              <YAxis stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} tickFormatter={(val) => formatMoney(val, reportingCurrency)} />
                               <Tooltip contentStyle={{borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)'}} />
-                              <Area type="monotone" dataKey="price" stroke="#4f46e5" strokeWidth={4} fill="#4f46e520" />
+                              <Area type="monotone" dataKey="priceBand" name={`${confidenceLevel}% band`} stroke="none" fill="#6366f1" fillOpacity={0.15} isAnimationActive={false} />
+                              <Area type="monotone" dataKey="price" stroke="#4f46e5" strokeWidth={4} fill="#4f46e520" dot={renderOutlierDot} />
+                              {scenarioForecast && <Area type="monotone" dataKey="scenarioPrice" name={activeScenario!.name} stroke="#c026d3" strokeWidth={3} strokeDasharray="6 4" fill="none" dot={false} />}
                             </AreaChart>
                           </ResponsiveContainer>
                         </div>
@@ -750,10 +1669,12 @@ const App: React.FC = () => {
                           <ResponsiveContainer width="100%" height="100%">
                             <ComposedChart data={combinedData}>
                               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                              <XAxis dataKey="date" stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} dy={10} />
+                              <XAxis dataKey="date" stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} dy={10} tickFormatter={(val) => formatPeriodLabel(val, forecast.granularity || 'monthly')} />
                               <YAxis stroke="#94a3b8" fontSize={11} axisLine={false} tickLine={false} tickFormatter={(v) => `${v}d`} />
+                              <Area type="monotone" dataKey="leadTimeBand" name={`${confidenceLevel}% band`} stroke="none" fill="#3b82f6" fillOpacity={0.12} isAnimationActive={false} />
                               <Bar dataKey="leadTime" barSize={32} radius={[8,8,0,0]} fill="#3b82f640" />
-                              <Line type="monotone" dataKey="leadTime" stroke="#3b82f6" strokeWidth={3} dot={{ r: 4, fill: '#3b82f6' }} />
+                              <Line type="monotone" dataKey="leadTime" stroke="#3b82f6" strokeWidth={3} dot={(props: any) => props.payload?.outlier ? renderOutlierDot(props) : <circle key={props.index} cx={props.cx} cy={props.cy} r={4} fill="#3b82f6" />} />
+                              {scenarioForecast && <Line type="monotone" dataKey="scenarioLeadTime" name={activeScenario!.name} stroke="#c026d3" strokeWidth={3} strokeDasharray="6 4" dot={false} />}
                             </ComposedChart>
                           </ResponsiveContainer>
                         </div>
@@ -768,7 +1689,61 @@ const App: React.FC = () => {
                       <p className="text-slate-500 max-w-sm font-medium">Use the control panel to select an AI model and run a forecast. You can also batch process all SKU combinations at once.</p>
                     </div>
                   )}
+
+                  <SourcingComparisonPanel
+                    partNumber={filters.partNumber}
+                    history={activeData}
+                    forecasts={baselineForecasts}
+                    currency={reportingCurrency}
+                    costModel={costModel}
+                    selected={filters}
+                    onSelect={setFilters}
+                  />
+
+                  <IndexLinkagePanel
+                    partNumber={filters.partNumber}
+                    indices={availableIndices}
+                    linked={linkedIndices(indexLinks, filters.partNumber)}
+                    estimates={indexEstimates}
+                    appliedIndices={forecast?.indexAdjustment?.indices}
+                    onChangeLinks={handleChangeIndexLinks}
+                  />
+
+                  <InventoryPolicyPanel
+                    policies={inventoryPolicies}
+                    selected={filters}
+                    settings={inventorySettings}
+                    currency={reportingCurrency}
+                    onChangeSettings={updateInventorySettings}
+                    onSelect={setFilters}
+                    onExport={exportInventoryPolicies}
+                  />
+
+                  <OutlierReviewPanel
+                    rows={outlierReviewRows}
+                    currency={reportingCurrency}
+                    scopeLabel={filters.partNumber && filters.vendor && filters.country ? `${filters.partNumber} • ${filters.vendor} • ${filters.country}` : 'All combinations'}
+                    onToggle={handleToggleOutlier}
+                    onSetAll={(restored) => handleSetOutlierRows(new Set(outlierReviewRows.map(r => r.id)), restored)}
+                  />
                 </>
+              ) : activeTab === 'backtest' ? (
+                <BacktestPanel
+                  data={activeData}
+                  combinations={allCombinations}
+                  models={modelOptions}
+                  forecaster={backtestForecaster}
+                  granularity={forecastSettings.granularity}
+                  selectedModel={selectedModel}
+                  onSelectModel={(m) => setSelectedModel(m)}
+                />
+              ) : activeTab === 'scorecard' ? (
+                <VendorScorecardPanel
+                  data={activeData}
+                  benchmarks={benchmarks}
+                  currency={reportingCurrency}
+                  onDrillDown={handleDrillDown}
+                />
               ) : (
                 /* TAB 2: BENCHMARK */
                 <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
@@ -797,8 +1772,8 @@ const App: React.FC = () => {
                         </div>
                         <div className="flex flex-col gap-3">
                           <label className={`cursor-pointer px-6 py-5 rounded-2xl font-black text-sm flex items-center justify-center gap-3 transition-all border-2 ${proposedRates.length > 0 ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 border-slate-200 hover:border-indigo-300 text-slate-600'}`}>
-                            <Files className="w-5 h-5" /> {proposedRates.length > 0 ? `${proposedRates.length} Rates Loaded` : 'Bulk Import (CSV)'}
-                            <input type="file" className="hidden" accept=".csv" multiple onChange={handleNegotiationUpload} />
+                            <Files className="w-5 h-5" /> {proposedRates.length > 0 ? `${proposedRates.length} Rates Loaded` : 'Bulk Import (CSV / XLSX)'}
+                            <input type="file" className="hidden" accept=".csv,.tsv,.txt,.xlsx" multiple onChange={handleNegotiationUpload} />
                           </label>
                           <button 
                             onClick={downloadNegotiationTemplate} 
@@ -889,7 +1864,7 @@ const App: React.FC = () => {
                               <div className="space-y-2">
                                 <label className={`cursor-pointer px-6 py-4 rounded-xl font-black text-xs flex items-center justify-center gap-3 transition-all border-2 ${uploadedForecasts.length > 0 ? 'bg-violet-50 border-violet-200 text-violet-700' : 'bg-slate-50 border-slate-200 hover:border-indigo-300 text-slate-600'}`}>
                                   <Upload className="w-4 h-4" /> Import Base
-                                  <input type="file" className="hidden" accept=".csv" onChange={handleForecastUpload} />
+                                  <input type="file" className="hidden" accept=".csv,.tsv,.txt,.xlsx" onChange={handleForecastUpload} />
                                 </label>
                                 <button onClick={downloadForecastTemplate} className="text-slate-400 text-[9px] font-bold hover:text-indigo-600 transition-all w-full text-center">
                                   Download Baseline CSV Format
@@ -907,7 +1882,7 @@ const App: React.FC = () => {
                         disabled={loading || proposedRates.length === 0}
                         className={`px-16 py-4 text-white rounded-2xl font-black text-xs uppercase tracking-widest shadow-2xl transition-all active:scale-95 ${loading ? 'bg-slate-300 shadow-none cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-700 shadow-emerald-200/50'}`}
                       >
-                        {loading ? 'AI Processing...' : 'Start Comparative Benchmark'}
+                        {loading ? (aiCommentary ? 'AI Processing...' : 'Processing...') : 'Start Comparative Benchmark'}
                       </button>
                     </div>
                   </div>
@@ -920,8 +1895,18 @@ const App: React.FC = () => {
                             <Scale className="w-4 h-4 text-indigo-600" /> Negotiation Matrix
                           </h4>
                           <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
-                            {forecastSource === 'system' ? 'AI Baseline' : 'Manual Baseline'} • {confidenceLevel}% Confidence
+                            {forecastSource === 'system' ? 'AI Baseline' : 'Manual Baseline'} • {confidenceLevel}% Confidence • {reportingCurrency}
                           </p>
+                          {alternatives.size > 0 && (
+                            <p className="text-[10px] text-emerald-600 font-black uppercase tracking-widest mt-1 flex items-center gap-1">
+                              <ArrowRightLeft className="w-3 h-3" /> {alternatives.size} switch {alternatives.size === 1 ? 'option' : 'options'} • est. {formatMoney(totalSwitchSavings, reportingCurrency)}/yr
+                            </p>
+                          )}
+                          {scenarioOutcome && (
+                            <p className="text-[10px] text-fuchsia-600 font-black uppercase tracking-widest mt-1 flex items-center gap-1">
+                              <FlaskConical className="w-3 h-3" /> {activeScenario!.name}: {scenarioOutcome.scenarioFlagged} flagged vs {scenarioOutcome.baseFlagged} base • {scenarioOutcome.changed} {scenarioOutcome.changed === 1 ? 'status' : 'statuses'} changed
+                            </p>
+                          )}
                         </div>
                         <div className="flex flex-wrap items-center gap-3">
                           <button 
@@ -941,6 +1926,17 @@ const App: React.FC = () => {
                             <FileDown className="w-4 h-4" /> CSV
                           </button>
 
+                          <button 
+                            onClick={exportBenchmarksXLSX}
+                            className="flex items-center gap-2 px-4 py-2.5 bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-emerald-700 transition-all shadow-lg"
+                          >
+                            <FileSpreadsheet className="w-4 h-4" /> XLSX
+                          </button>
+                          <label className="flex items-center gap-1.5 text-[9px] font-bold text-slate-500 cursor-pointer">
+                            <input type="checkbox" checked={xlsxPerVendor} onChange={(e) => setXlsxPerVendor(e.target.checked)} className="accent-indigo-600" />
+                            Sheet per vendor
+                          </label>
+
                           <button 
                             onClick={handleCopyRichReport}
                             className={`flex items-center gap-2 px-4 py-2.5 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all shadow-lg ${copySuccess ? 'bg-emerald-600 shadow-emerald-100' : 'bg-violet-600 hover:bg-violet-700 shadow-violet-100'}`}
@@ -965,30 +1961,71 @@ const App: React.FC = () => {
                               <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">Part & Vendor</th>
                               <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">Negotiated Price</th>
                               <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">Lead Time</th>
-                              <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">AI Strategic Feedback</th>
+                              {costModel && <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">Landed / TCO</th>}
+                              <th className="px-8 py-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">{aiCommentary ? 'AI Strategic Feedback' : 'Rule Engine Feedback'}</th>
                             </tr>
                           </thead>
                           <tbody className="divide-y divide-slate-100">
                             {filteredBenchmarks.length > 0 ? filteredBenchmarks.map((b, i) => {
                               const isNoHistory = b.comment?.toLowerCase().includes('no history') || b.comment?.toLowerCase().includes('no comparative baseline');
+                              const alt = alternativeFor(b);
+                              const shocked = scenarioBenchmarks.get(b);
                               return (
                                 <tr key={i} className="group hover:bg-indigo-50/20 transition-all">
                                   <td className="px-8 py-6">
                                     <div className="text-sm font-black text-slate-800 tracking-tight">{b.partNumber}</div>
                                     <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">{b.vendor} • {b.country}</div>
+                                    {b.effectiveFrom && (
+                                      <div className="text-[9px] text-slate-400 font-bold mt-1">Valid {dateRange(b.effectiveFrom, b.effectiveTo)}</div>
+                                    )}
+                                    {b.baselineFrom && (
+                                      <div className="text-[9px] text-indigo-400 font-bold mt-0.5">Baseline {dateRange(b.baselineFrom, b.baselineTo)}</div>
+                                    )}
                                   </td>
                                   <td className="px-8 py-6 text-center">
                                     <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-black border-2 transition-colors min-w-[110px] justify-center ${getStatusColorClass(isNoHistory ? 'default' : b.priceStatus)}`}>
                                       {getStatusIcon(isNoHistory ? '' : b.priceStatus)}
-                                      ${(b.proposedPrice || 0).toFixed(2)}
+                                      {formatMoney(b.proposedPrice || 0, reportingCurrency)}
                                     </div>
+                                    {originalAmount(b) && (
+                                      <div className="text-[9px] text-slate-400 font-bold mt-1">Quoted {originalAmount(b)}</div>
+                                    )}
+                                    {shocked && !isNoHistory && shocked.priceStatus !== b.priceStatus && (
+                                      <div className="text-[9px] text-fuchsia-600 font-black uppercase tracking-widest mt-1">Scenario: {shocked.priceStatus}</div>
+                                    )}
                                   </td>
                                   <td className="px-8 py-6 text-center">
                                     <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-black border-2 transition-colors min-w-[90px] justify-center ${getStatusColorClass(isNoHistory ? 'default' : b.leadTimeStatus)}`}>
                                       {getStatusIcon(isNoHistory ? '' : b.leadTimeStatus)}
                                       {b.proposedLeadTime || 0}d
                                     </div>
+                                    {shocked && !isNoHistory && shocked.leadTimeStatus !== b.leadTimeStatus && (
+                                      <div className="text-[9px] text-fuchsia-600 font-black uppercase tracking-widest mt-1">Scenario: {shocked.leadTimeStatus}</div>
+                                    )}
                                   </td>
+                                  {costModel && (
+                                    <td className="px-8 py-6 text-center">
+                                      {b.tco !== undefined && b.tcoStatus ? (
+                                        <>
+                                          <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-black border-2 transition-colors min-w-[110px] justify-center ${getStatusColorClass(b.tcoStatus)}`}>
+                                            {getStatusIcon(b.tcoStatus)}
+                                            {formatMoney(b.tco, reportingCurrency)}
+                                          </div>
+                                          <div className="text-[9px] text-slate-400 font-bold mt-1">
+                                            Landed {formatMoney(b.landedCost ?? b.tco, reportingCurrency)} • {b.incoterm || landedCostSettings.defaultIncoterm} • Net {b.paymentTermsDays ?? landedCostSettings.defaultPaymentTermsDays}
+                                          </div>
+                                          {b.baselineTco !== undefined && (
+                                            <div className="text-[9px] text-indigo-400 font-bold mt-0.5">Baseline {formatMoney(b.baselineTco, reportingCurrency)}</div>
+                                          )}
+                                          {shocked?.tcoStatus && shocked.tcoStatus !== b.tcoStatus && (
+                                            <div className="text-[9px] text-fuchsia-600 font-black uppercase tracking-widest mt-1">Scenario: {shocked.tcoStatus}</div>
+                                          )}
+                                        </>
+                                      ) : (
+                                        <span className="text-[10px] text-slate-300 font-bold">—</span>
+                                      )}
+                                    </td>
+                                  )}
                                   <td className="px-8 py-6">
                                     <div className="flex gap-4 items-start bg-slate-50/50 p-4 rounded-xl group-hover:bg-white transition-all border border-transparent group-hover:border-slate-100">
                                       <div className="mt-0.5 bg-indigo-600 p-1.5 rounded-lg shadow-sm shrink-0">
@@ -998,6 +2035,22 @@ const App: React.FC = () => {
                                         <p className={`text-[11px] leading-relaxed font-semibold ${isNoHistory ? 'text-slate-400 italic' : 'text-slate-600'}`}>
                                           {b.comment || "Analysis unavailable."}
                                         </p>
+                                        {alt && (
+                                          <button
+                                            onClick={() => handleDrillDown({ partNumber: b.partNumber, vendor: alt.alternative.vendor, country: alt.alternative.country })}
+                                            className="flex items-center gap-1.5 mt-2 text-[10px] font-bold text-emerald-700 hover:text-emerald-900 text-left"
+                                            title={`${formatMoney(alt.unitSavings, reportingCurrency)}/unit × ${Math.round(alt.annualQuantity).toLocaleString()} units/yr`}
+                                          >
+                                            <ArrowRightLeft className="w-3 h-3 shrink-0" />
+                                            Alt: {alt.alternative.vendor} ({alt.alternative.country}) at {formatMoney(alt.alternative.comparablePrice, reportingCurrency)} saves ~{formatMoney(alt.annualSavings, reportingCurrency)}/yr
+                                            {alt.leadTimeDelta !== 0 && <span className="text-slate-400">• {alt.leadTimeDelta > 0 ? '+' : ''}{alt.leadTimeDelta.toFixed(0)}d lead time</span>}
+                                          </button>
+                                        )}
+                                        {b.commentCachedAt && (
+                                          <span className="inline-flex items-center gap-1 mt-2 text-[9px] font-black uppercase tracking-widest text-slate-400" title={`Cached ${new Date(b.commentCachedAt).toLocaleString()}`}>
+                                            <HardDrive className="w-2.5 h-2.5" /> Cached
+                                          </span>
+                                        )}
                                       </div>
                                     </div>
                                   </td>
@@ -1005,7 +2058,7 @@ const App: React.FC = () => {
                               );
                             }) : (
                               <tr>
-                                <td colSpan={4} className="px-8 py-20 text-center">
+                                <td colSpan={costModel ? 5 : 4} className="px-8 py-20 text-center">
                                   <div className="flex flex-col items-center gap-3 text-slate-400 opacity-60">
                                     <Info className="w-10 h-10" />
                                     <p className="text-sm font-bold uppercase tracking-widest">No matching benchmark results</p>
@@ -1019,12 +2072,45 @@ const App: React.FC = () => {
                       </div>
                     </div>
                   )}
+
+                  <SavingsSummaryPanel
+                    ledger={savingsLedger}
+                    currency={reportingCurrency}
+                    onExportCSV={exportSavingsLedger}
+                    onExportXLSX={exportSavingsLedgerXLSX}
+                  />
                 </div>
               )}
             </div>
           )}
         </main>
       </div>
+
+      {showScenarioBuilder && (
+        <ScenarioBuilder
+          scenarios={scenarios}
+          activeScenarioId={activeScenarioId}
+          options={{
+            partNumbers: Array.from(new Set(data.map(d => d.partNumber))).sort(),
+            vendors: Array.from(new Set(data.map(d => d.vendor))).sort(),
+            countries: Array.from(new Set(data.map(d => d.country))).sort()
+          }}
+          currency={reportingCurrency}
+          onSave={handleSaveScenario}
+          onDelete={handleDeleteScenario}
+          onActivate={setActiveScenarioId}
+          onClose={() => setShowScenarioBuilder(false)}
+        />
+      )}
+
+      {mappingQueue.length > 0 && (
+        <ColumnMappingWizard
+          key={`${mappingQueue[0].fileName}-${mappingQueue.length}`}
+          pending={mappingQueue[0]}
+          onConfirm={handleMappingConfirm}
+          onCancel={() => setMappingQueue(prev => prev.slice(1))}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,289 @@
+/**
+ * Headless runner for scheduled jobs and data pipelines.
+ * Reads the same CSV files as the app, runs the offline statistical engine and the rule-based benchmark,
+ * and writes CSV or JSON to a file or stdout. AI providers and index linkage are app-only; their options are rejected.
+ * Rejected input rows are reported on stderr; any failure exits non-zero.
+ *
+ * Build with `npm run build:cli`, then run `npm run cli -- <command> [options]`.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { HistoricalData, ForecastResult, BenchmarkResult, ConfidenceLevel, ForecastGranularity, ForecastSettings, FilterState, FxRate, ImportReport, OutlierMethod, OutlierSettings } from '../types';
+import { parseCSV, parseNegotiationCSV, parseForecastCSV, parseFxRateCSV, parseLandedCostCSV } from '../services/dataService';
+import { toCSVRow } from '../services/csvParser';
+import { getStatisticalForecast, getBulkStatisticalForecasts } from '../services/forecastEngine';
+import { evaluateBenchmarks } from '../services/benchmarkEngine';
+import { CONFIDENCE_LEVELS, exportedPriceInterval } from '../services/confidenceBands';
+import { DEFAULT_FORECAST_SETTINGS, GRANULARITY_LABELS, MIN_HORIZON, MAX_HORIZON } from '../services/timeSeries';
+import { OUTLIER_METHOD_LABELS, DEFAULT_THRESHOLDS, DEFAULT_OUTLIER_SETTINGS, detectOutliers, isExcludedOutlier } from '../services/outlierEngine';
+import { BASE_CURRENCY, normalizeHistory, normalizeRates, normalizeLandedCostRules, normalizeForecasts, normalizeCurrencyCode } from '../services/currencyService';
+import { DEFAULT_LANDED_COST_SETTINGS, LandedCostModel, assignCategories } from '../services/landedCost';
+
+const USAGE = `Usage: procure <command> [options]
+
+Commands:
+  forecast        Forecast one part/vendor/country combination (--part, --vendor, --country)
+  bulk-forecast   Forecast every combination in the history
+  benchmark       Benchmark negotiated rates (--rates) against forecasts from --history or --forecasts
+  cleanse         Flag outliers in the history and write it back out
+
+Inputs:
+  --history <file>        Procurement history CSV
+  --rates <file>          Negotiated rates CSV
+  --forecasts <file>      Forecast CSV used as the benchmark baseline instead of forecasting the history
+  --fx <file>             FX rates CSV, needed when any input is not in the reporting currency
+  --landed-cost <file>    Freight and duty table CSV; adds landed cost and TCO to benchmarks
+
+Options:
+  --currency <code>       Reporting currency (default ${BASE_CURRENCY})
+  --horizon <n>           Forecast periods, ${MIN_HORIZON}-${MAX_HORIZON} (default ${DEFAULT_FORECAST_SETTINGS.horizon})
+  --granularity <g>       ${Object.keys(GRANULARITY_LABELS).join(' | ')} (default ${DEFAULT_FORECAST_SETTINGS.granularity})
+  --confidence <level>    ${CONFIDENCE_LEVELS.join(' | ')} (default 95)
+  --cleanse               Exclude detected outliers before forecasting
+  --method <m>            Outlier method: ${Object.keys(OUTLIER_METHOD_LABELS).join(' | ')} (default ${DEFAULT_OUTLIER_SETTINGS.method})
+  --threshold <n>         Outlier threshold (default depends on the method)
+  --exclude-outliers      cleanse: write only the rows kept for analysis
+  --format <f>            csv | json (default csv)
+  --out <file>            Write to a file instead of stdout
+  --help                  Show this message
+
+Limitations:
+  Forecasts always come from the offline statistical engine and benchmark comments from the rule engine.
+  AI providers and models (--provider, --model) and commodity index linkage (--index) are only available
+  in the app; these options are rejected rather than ignored.`;
+
+const FLAGS = new Set(['cleanse', 'exclude-outliers', 'help']);
+const VALUE_OPTIONS = new Set(['part', 'vendor', 'country', 'history', 'rates', 'forecasts', 'fx', 'landed-cost', 'currency', 'horizon', 'granularity', 'confidence', 'method', 'threshold', 'format', 'out']);
+
+// App features people reasonably look for on the command line; named explicitly so the error says why
+const APP_ONLY_OPTIONS: Record<string, string> = {
+  provider: 'AI provider selection',
+  model: 'AI model selection',
+  'api-key': 'AI provider selection',
+  'base-url': 'AI provider selection',
+  index: 'Index linkage',
+  indices: 'Index linkage',
+  'index-series': 'Index linkage'
+};
+
+type Options = Record<string, string | boolean>;
+
+const parseArgs = (argv: string[]): { command?: string, options: Options } => {
+  const options: Options = {};
+  let command: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      if (command) throw new Error(`Usage Error: Unexpected argument "${arg}".`);
+      command = arg;
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (APP_ONLY_OPTIONS[name]) {
+      throw new Error(`Usage Error: --${name} is not supported. ${APP_ONLY_OPTIONS[name]} is only available in the app; the CLI uses the offline statistical engine.`);
+    }
+    if (!FLAGS.has(name) && !VALUE_OPTIONS.has(name)) throw new Error(`Usage Error: Unknown option --${name}. Run with --help for the list of options.`);
+    if (FLAGS.has(name)) {
+      options[name] = true;
+    } else if (inline !== undefined) {
+      options[name] = inline;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      options[name] = argv[++i];
+    } else {
+      throw new Error(`Usage Error: --${name} needs a value.`);
+    }
+  }
+  return { command, options };
+};
+
+const text = (options: Options, name: string): string | undefined =>
+  typeof options[name] === 'string' ? (options[name] as string).trim() || undefined : undefined;
+
+const required = (options: Options, name: string): string => {
+  const value = text(options, name);
+  if (!value) throw new Error(`Usage Error: --${name} is required.`);
+  return value;
+};
+
+const choice = <T extends string | number>(options: Options, name: string, allowed: T[], fallback: T): T => {
+  const value = text(options, name);
+  if (value === undefined) return fallback;
+  const match = allowed.find(a => String(a) === value);
+  if (match === undefined) throw new Error(`Usage Error: --${name} must be one of ${allowed.join(', ')}.`);
+  return match;
+};
+
+const warn = (message: string) => process.stderr.write(`${message}\n`);
+
+const readInput = <T>(path: string, parse: (text: string) => ImportReport<T>, label: string): T[] => {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch {
+    throw new Error(`Input Error: Cannot read ${label} file "${path}".`);
+  }
+  const report = parse(content);
+  report.rejected.forEach(r => warn(`${path}:${r.line}: ${r.reason}`));
+  if (report.records.length === 0) throw new Error(`Input Error: No valid ${label} rows in "${path}".`);
+  return report.records;
+};
+
+const forecastSettings = (options: Options): ForecastSettings => {
+  const horizon = text(options, 'horizon') === undefined ? DEFAULT_FORECAST_SETTINGS.horizon : Number(text(options, 'horizon'));
+  if (!Number.isInteger(horizon) || horizon < MIN_HORIZON || horizon > MAX_HORIZON) {
+    throw new Error(`Usage Error: --horizon must be a whole number from ${MIN_HORIZON} to ${MAX_HORIZON}.`);
+  }
+  const granularity = choice(options, 'granularity', Object.keys(GRANULARITY_LABELS) as ForecastGranularity[], DEFAULT_FORECAST_SETTINGS.granularity);
+  return { horizon, granularity };
+};
+
+const outlierSettings = (options: Options): OutlierSettings => {
+  const method = choice(options, 'method', Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[], DEFAULT_OUTLIER_SETTINGS.method);
+  const threshold = text(options, 'threshold') === undefined ? DEFAULT_THRESHOLDS[method] : Number(text(options, 'threshold'));
+  if (!(threshold > 0)) throw new Error('Usage Error: --threshold must be a positive number.');
+  return { ...DEFAULT_OUTLIER_SETTINGS, method, threshold };
+};
+
+const loadFxRates = (options: Options): FxRate[] => {
+  const path = text(options, 'fx');
+  return path ? readInput(path, parseFxRateCSV, 'FX rate') : [];
+};
+
+// History in the reporting currency; rows without an FX rate are dropped with a warning, as in the app
+const loadHistory = (options: Options, fxRates: FxRate[], currency: string): HistoricalData[] => {
+  const normalized = normalizeHistory(readInput(required(options, 'history'), parseCSV, 'history'), fxRates, currency);
+  if (normalized.excluded > 0) warn(`${normalized.excluded} history row(s) excluded: no FX rate for ${normalized.missingCurrencies.join(', ')}.`);
+  if (normalized.records.length === 0) throw new Error(`Input Error: No history rows could be converted to ${currency}.`);
+  return normalized.records;
+};
+
+const analysisHistory = (history: HistoricalData[], options: Options): HistoricalData[] => {
+  if (!options.cleanse) return history;
+  const { flagged, outlierCount } = detectOutliers(history, outlierSettings(options));
+  warn(`${outlierCount} outlier(s) excluded.`);
+  return flagged.filter(d => !isExcludedOutlier(d));
+};
+
+const combinationsOf = (history: HistoricalData[]): FilterState[] => {
+  const seen = new Map<string, FilterState>();
+  history.forEach(d => seen.set(`${d.partNumber}|${d.vendor}|${d.country}`, { partNumber: d.partNumber, vendor: d.vendor, country: d.country }));
+  return Array.from(seen.values());
+};
+
+const forecastRows = (forecasts: ForecastResult[]): string[] => [
+  toCSVRow(['Part Number', 'Vendor', 'Country', 'Date', 'Predicted Price', 'Predicted Lead Time', 'Confidence Upper', 'Confidence Lower']),
+  ...forecasts.flatMap(f => f.forecast.map(pt => toCSVRow([
+    f.partNumber, f.vendor, f.country, pt.date, pt.predictedPrice, pt.predictedLeadTime, exportedPriceInterval(pt, f).upper, exportedPriceInterval(pt, f).lower
+  ])))
+];
+
+const benchmarkRows = (benchmarks: BenchmarkResult[], currency: string): string[] => [
+  toCSVRow(['Part Number', 'Vendor', 'Country', `Proposed Price (${currency})`, 'Original Price', 'Currency', 'Proposed Lead Time', 'Effective From', 'Effective To',
+    'Baseline From', 'Baseline To', 'Incoterm', 'Payment Terms (Days)', `Landed Cost (${currency})`, `TCO (${currency})`, `Baseline TCO (${currency})`,
+    'Price Status', 'Lead Time Status', 'TCO Status', 'Comment']),
+  ...benchmarks.map(b => toCSVRow([
+    b.partNumber, b.vendor, b.country, b.proposedPrice, b.originalPrice ?? b.proposedPrice, b.currency || currency, b.proposedLeadTime, b.effectiveFrom, b.effectiveTo,
+    b.baselineFrom, b.baselineTo, b.incoterm, b.paymentTermsDays, b.landedCost, b.tco, b.baselineTco,
+    b.priceStatus, b.leadTimeStatus, b.tcoStatus, b.comment
+  ]))
+];
+
+// Prices are written as recorded so the output can be re-imported as history
+const historyRows = (history: HistoricalData[]): string[] => [
+  toCSVRow(['Part Number', 'Vendor', 'Country', 'Unit Price', 'Currency', 'Lead Time (Days)', 'Quantity', 'Date', 'Category', 'Outlier', 'Outlier Reason']),
+  ...history.map(d => toCSVRow([
+    d.partNumber, d.vendor, d.country, d.originalPrice ?? d.usdPrice, d.currency, d.leadTimeDays, d.quantity, d.date, d.category,
+    isExcludedOutlier(d) ? 'excluded' : d.isOutlier ? 'restored' : '', d.outlierReason
+  ]))
+];
+
+const confidenceLevel = (options: Options): ConfidenceLevel => choice(options, 'confidence', CONFIDENCE_LEVELS, 95 as ConfidenceLevel);
+
+const runForecast = (options: Options, fxRates: FxRate[], currency: string) => {
+  const combo = { partNumber: required(options, 'part'), vendor: required(options, 'vendor'), country: required(options, 'country') };
+  const forecasts = [getStatisticalForecast(analysisHistory(loadHistory(options, fxRates, currency), options), combo, forecastSettings(options), confidenceLevel(options))];
+  return { json: forecasts, csv: forecastRows(forecasts) };
+};
+
+const runBulkForecast = (options: Options, fxRates: FxRate[], currency: string) => {
+  const history = analysisHistory(loadHistory(options, fxRates, currency), options);
+  const combinations = combinationsOf(history);
+  const forecasts = getBulkStatisticalForecasts(history, combinations, () => {}, forecastSettings(options), confidenceLevel(options));
+  if (forecasts.length < combinations.length) warn(`${combinations.length - forecasts.length} combination(s) skipped: not enough history.`);
+  return { json: forecasts, csv: forecastRows(forecasts) };
+};
+
+const runBenchmark = (options: Options, fxRates: FxRate[], currency: string) => {
+  const confidence = confidenceLevel(options);
+  const forecastPath = text(options, 'forecasts');
+  if (!forecastPath && !text(options, 'history')) throw new Error('Usage Error: benchmark needs --history or --forecasts.');
+
+  // Uploaded forecasts are converted to the reporting currency, like the app's "uploaded" baseline
+  const history = text(options, 'history') ? analysisHistory(loadHistory(options, fxRates, currency), options) : [];
+  let forecasts: ForecastResult[];
+  if (forecastPath) {
+    const uploaded = normalizeForecasts(readInput(forecastPath, parseForecastCSV, 'forecast'), fxRates, currency);
+    if (uploaded.excluded > 0) warn(`${uploaded.excluded} forecast(s) excluded: no FX rate for ${uploaded.missingCurrencies.join(', ')}.`);
+    forecasts = uploaded.records;
+  } else {
+    forecasts = getBulkStatisticalForecasts(history, combinationsOf(history), () => {}, forecastSettings(options), confidence);
+  }
+
+  const rates = normalizeRates(readInput(required(options, 'rates'), parseNegotiationCSV, 'negotiated rate'), fxRates, currency);
+  if (rates.excluded > 0) warn(`${rates.excluded} negotiated rate(s) excluded: no FX rate for ${rates.missingCurrencies.join(', ')}.`);
+  if (rates.records.length === 0) throw new Error(`Input Error: No negotiated rates could be converted to ${currency}.`);
+
+  const landedCostPath = text(options, 'landed-cost');
+  let costModel: LandedCostModel | undefined;
+  if (landedCostPath) {
+    const rules = normalizeLandedCostRules(readInput(landedCostPath, parseLandedCostCSV, 'landed cost'), fxRates, currency);
+    if (rules.excluded > 0) warn(`${rules.excluded} landed cost rule(s) excluded: no FX rate for ${rules.missingCurrencies.join(', ')}.`);
+    costModel = { rules: rules.records, settings: DEFAULT_LANDED_COST_SETTINGS };
+  }
+
+  const benchmarks = evaluateBenchmarks(assignCategories(rates.records, history), forecasts, confidence, currency, costModel);
+  return { json: benchmarks, csv: benchmarkRows(benchmarks, currency) };
+};
+
+const runCleanse = (options: Options, fxRates: FxRate[], currency: string) => {
+  const { flagged, outlierCount } = detectOutliers(loadHistory(options, fxRates, currency), outlierSettings(options));
+  warn(`${outlierCount} outlier(s) flagged.`);
+  const rows = options['exclude-outliers'] ? flagged.filter(d => !isExcludedOutlier(d)) : flagged;
+  return { json: rows, csv: historyRows(rows) };
+};
+
+const COMMANDS: Record<string, (options: Options, fxRates: FxRate[], currency: string) => { json: unknown, csv: string[] }> = {
+  'forecast': runForecast,
+  'bulk-forecast': runBulkForecast,
+  'benchmark': runBenchmark,
+  'cleanse': runCleanse
+};
+
+const main = (argv: string[]): number => {
+  const { command, options } = parseArgs(argv);
+  if (options.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return options.help ? 0 : 1;
+  }
+  const run = COMMANDS[command];
+  if (!run) throw new Error(`Usage Error: Unknown command "${command}". Run with --help for the list of commands.`);
+
+  const format = choice(options, 'format', ['csv', 'json'], 'csv');
+  const currency = normalizeCurrencyCode(text(options, 'currency') || BASE_CURRENCY);
+  const result = run(options, loadFxRates(options), currency);
+  const output = format === 'json' ? JSON.stringify(result.json, null, 2) : result.csv.join('\n');
+
+  const out = text(options, 'out');
+  if (out) {
+    writeFileSync(out, `${output}\n`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+  return 0;
+};
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err: any) {
+  warn(err.message || String(err));
+  process.exitCode = 1;
+}
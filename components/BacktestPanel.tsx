@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Target, RefreshCw, Trophy, AlertTriangle, Info } from 'lucide-react';
+import { HistoricalData, FilterState, BacktestMetrics, BacktestResult, ForecastGranularity } from '../types';
+import { BulkForecaster, BacktestRun, MIN_TRAINING_PERIODS, runBacktest, summarizeBacktest, recommendModelsByFamily } from '../services/backtestEngine';
+import { GRANULARITY_LABELS } from '../services/timeSeries';
+
+interface BacktestPanelProps {
+  data: HistoricalData[];
+  combinations: FilterState[];
+  models: string[];
+  forecaster: BulkForecaster;
+  granularity: ForecastGranularity; // Workspace forecast granularity; the holdout is counted in these periods
+  selectedModel: string;
+  onSelectModel: (model: string) => void;
+}
+
+const formatPct = (value: number | null, digits: number = 1) => value === null ? '—' : `${value.toFixed(digits)}%`;
+const formatCoverage = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(0)}%`;
+const formatSigned = (value: number, digits: number = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const MetricCells: React.FC<{ metrics: BacktestMetrics, unit?: string }> = ({ metrics, unit = '' }) => (
+  <>
+    <td className="px-4 py-3 text-xs font-black text-slate-800 text-right">{formatPct(metrics.mape)}</td>
+    <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{metrics.mae.toFixed(2)}{unit}</td>
+    <td className={`px-4 py-3 text-xs font-bold text-right ${metrics.bias > 0 ? 'text-rose-600' : metrics.bias < 0 ? 'text-blue-600' : 'text-slate-500'}`}>{formatSigned(metrics.bias)}{unit}</td>
+    <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{formatCoverage(metrics.coverage)}</td>
+  </>
+);
+
+const MetricHeaders: React.FC<{ label: string }> = ({ label }) => (
+  <>
+    <th className="px-4 py-3 text-right">{label} MAPE</th>
+    <th className="px-4 py-3 text-right">MAE</th>
+    <th className="px-4 py-3 text-right">Bias</th>
+    <th className="px-4 py-3 text-right">Coverage</th>
+  </>
+);
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ data, combinations, models, forecaster, granularity, selectedModel, onSelectModel }) => {
+  const [holdoutPeriods, setHoldoutPeriods] = useState(3);
+  const [chosenModels, setChosenModels] = useState<string[]>(models);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [run, setRun] = useState<BacktestRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const overall = useMemo(() => run ? summarizeBacktest(run.results) : [], [run]);
+  const recommendations = useMemo(() => run ? recommendModelsByFamily(run.results) : [], [run]);
+
+  const toggleModel = (model: string) => {
+    setChosenModels(prev => prev.includes(model) ? prev.filter(m => m !== model) : [...prev, model]);
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const result = await runBacktest(data, combinations, chosenModels, holdoutPeriods, granularity, forecaster, (done, total) => {
+        setProgress(Math.round((done / total) * 100));
+      });
+      setRun(result);
+    } catch (err: any) {
+      setError(err.message || "Backtest failed.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (data.length === 0) {
+    return (
+      <div className="bg-white p-16 rounded-3xl border border-dashed border-slate-300 flex flex-col items-center text-center">
+        <Info className="w-12 h-12 text-slate-300 mb-4" />
+        <h3 className="text-xl font-black text-slate-900 mb-2">No History Loaded</h3>
+        <p className="text-slate-500 max-w-sm font-medium">Upload procurement history on the Forecast tab before running a backtest.</p>
+      </div>
+    );
+  }
+
+  const sortedResults: BacktestResult[] = run
+    ? [...run.results].sort((a, b) => a.partNumber.localeCompare(b.partNumber) || a.vendor.localeCompare(b.vendor) || a.model.localeCompare(b.model))
+    : [];
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm">
+        <div className="flex items-center justify-center gap-2 mb-4">
+          <Target className="w-6 h-6 text-indigo-600" />
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">Model Backtest</h3>
+        </div>
+        <p className="text-slate-500 mb-10 text-center max-w-lg mx-auto font-medium">
+          Hold out the most recent {GRANULARITY_LABELS[granularity].unit}s of every combination, forecast them with each engine, and compare the forecasts with what actually happened.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Holdout {GRANULARITY_LABELS[granularity].unit}s</label>
+            <input
+              type="number" min={1} max={12}
+              value={holdoutPeriods}
+              onChange={(e) => setHoldoutPeriods(Math.min(12, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <p className="text-[9px] text-slate-400 mt-2 leading-tight italic">
+              Combinations need {MIN_TRAINING_PERIODS} {GRANULARITY_LABELS[granularity].unit}s with orders before the holdout; {combinations.length} combinations available.
+            </p>
+          </div>
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Engines</label>
+            <div className="flex flex-wrap gap-2">
+              {models.map(m => (
+                <button
+                  key={m}
+                  onClick={() => toggleModel(m)}
+                  className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${chosenModels.includes(m) ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-200'}`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-10 pt-8 border-t border-slate-50 flex flex-col items-center gap-3">
+          <button
+            onClick={handleRun}
+            disabled={running || chosenModels.length === 0}
+            className={`px-16 py-4 text-white rounded-2xl font-black text-xs uppercase tracking-widest shadow-2xl transition-all active:scale-95 flex items-center gap-2 ${running || chosenModels.length === 0 ? 'bg-slate-300 shadow-none cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200/50'}`}
+          >
+            {running ? <><RefreshCw className="w-4 h-4 animate-spin" /> Backtesting {progress}%</> : 'Run Backtest'}
+          </button>
+          {error && <p className="text-[11px] font-bold text-rose-600">{error}</p>}
+        </div>
+      </div>
+
+      {run && (
+        <>
+          {(run.failures.length > 0 || run.skipped.length > 0 || run.unscored > 0) && (
+            <div className="p-5 rounded-2xl bg-amber-50 border border-amber-100 text-amber-800 flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+              <div className="text-xs font-medium space-y-1">
+                {run.skipped.length > 0 && <p>{run.skipped.length} combination(s) skipped for insufficient history.</p>}
+                {run.unscored > 0 && <p>{run.unscored} forecast(s) not scored: no forecast period matched a held-out {GRANULARITY_LABELS[granularity].unit} with orders.</p>}
+                {run.failures.map(f => <p key={f.model}><span className="font-black">{f.model}:</span> {f.message}</p>)}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+              <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+                <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm">Aggregate Accuracy</h4>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">Price metrics • {holdoutPeriods}-{GRANULARITY_LABELS[granularity].unit} holdout</p>
+              </div>
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    <th className="px-4 py-3">Model</th>
+                    <th className="px-4 py-3 text-right">Combos</th>
+                    <MetricHeaders label="Price" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {overall.map(s => (
+                    <tr key={s.model}>
+                      <td className="px-4 py-3 text-xs font-black text-slate-800">{s.model}</td>
+                      <td className="px-4 py-3 text-xs font-bold text-slate-500 text-right">{s.combinations}</td>
+                      <MetricCells metrics={s.price} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <table className="w-full text-left border-t border-slate-100">
+                <thead>
+                  <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    <th className="px-4 py-3">Model</th>
+                    <MetricHeaders label="Lead Time" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {overall.map(s => (
+                    <tr key={s.model}>
+                      <td className="px-4 py-3 text-xs font-black text-slate-800">{s.model}</td>
+                      <MetricCells metrics={s.leadTime} unit="d" />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+              <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+                <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm flex items-center gap-2">
+                  <Trophy className="w-4 h-4 text-amber-500" /> Recommended Model per Part Family
+                </h4>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">Lowest price MAPE</p>
+              </div>
+              <div className="divide-y divide-slate-100">
+                {recommendations.map(r => (
+                  <div key={r.key} className="px-6 py-4 flex items-center justify-between gap-4">
+                    <div>
+                      <div className="text-sm font-black text-slate-800">{r.key}</div>
+                      <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">
+                        {r.model} • MAPE {formatPct(r.price.mape)} • {r.combinations} combos
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onSelectModel(r.model)}
+                      disabled={selectedModel === r.model}
+                      className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${selectedModel === r.model ? 'bg-emerald-50 text-emerald-700 cursor-default' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+                    >
+                      {selectedModel === r.model ? 'Active' : 'Use Model'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-hidden">
+            <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+              <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm">Per-Combination Results</h4>
+            </div>
+            <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    <th className="px-4 py-3">Part & Vendor</th>
+                    <th className="px-4 py-3">Model</th>
+                    <MetricHeaders label="Price" />
+                    <MetricHeaders label="Lead Time" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {sortedResults.map((r, i) => (
+                    <tr key={i} className="hover:bg-indigo-50/20">
+                      <td className="px-4 py-3">
+                        <div className="text-xs font-black text-slate-800">{r.partNumber}</div>
+                        <div className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{r.vendor} • {r.country}</div>
+                      </td>
+                      <td className="px-4 py-3 text-[10px] font-bold text-slate-500">{r.model}</td>
+                      <MetricCells metrics={r.price} />
+                      <MetricCells metrics={r.leadTime} unit="d" />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertOctagon, RotateCcw, PlayCircle } from 'lucide-react';
+import { BulkForecastFailure, FilterState } from '../types';
+
+interface BulkFailurePanelProps {
+  failures: BulkForecastFailure[];
+  remaining: FilterState[];
+  busy: boolean;
+  onRetryFailures: () => void;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+const MAX_VISIBLE_FAILURES = 100;
+
+const BulkFailurePanel: React.FC<BulkFailurePanelProps> = ({ failures, remaining, busy, onRetryFailures, onResume, onDismiss }) => {
+  if (failures.length === 0 && remaining.length === 0) return null;
+
+  return (
+    <div className="p-5 rounded-2xl border shadow-sm animate-in fade-in duration-300 bg-rose-50 border-rose-100 text-rose-800">
+      <div className="flex items-start gap-4">
+        <AlertOctagon className="w-6 h-6 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0 space-y-3">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <h3 className="text-sm font-black uppercase tracking-wider">Bulk Forecast Incomplete</h3>
+              <p className="text-xs font-bold opacity-70 mt-1">
+                {failures.length} failed • {remaining.length} not processed (cancelled)
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {failures.length > 0 && (
+                <button onClick={onRetryFailures} disabled={busy} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-rose-200 hover:bg-rose-100 transition-all disabled:opacity-50">
+                  <RotateCcw className="w-3 h-3" /> Retry Failed
+                </button>
+              )}
+              {remaining.length > 0 && (
+                <button onClick={onResume} disabled={busy} className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-rose-200 hover:bg-rose-100 transition-all disabled:opacity-50">
+                  <PlayCircle className="w-3 h-3" /> Resume
+                </button>
+              )}
+            </div>
+          </div>
+          {failures.length > 0 && (
+            <div className="max-h-48 overflow-y-auto bg-white/70 rounded-xl border border-rose-100">
+              <table className="w-full text-left text-[11px]">
+                <thead>
+                  <tr className="text-[9px] font-black uppercase tracking-widest text-rose-600">
+                    <th className="px-3 py-2">Combination</th>
+                    <th className="px-3 py-2">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-rose-50">
+                  {failures.slice(0, MAX_VISIBLE_FAILURES).map((f, i) => (
+                    <tr key={i}>
+                      <td className="px-3 py-1.5 font-bold whitespace-nowrap">{f.partNumber} / {f.vendor} / {f.country}</td>
+                      <td className="px-3 py-1.5 font-medium">{f.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {failures.length > MAX_VISIBLE_FAILURES && (
+                <p className="px-3 py-2 text-[10px] font-bold italic">…and {failures.length - MAX_VISIBLE_FAILURES} more failures.</p>
+              )}
+            </div>
+          )}
+        </div>
+        <button onClick={onDismiss} className="font-bold p-1">✕</button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkFailurePanel;
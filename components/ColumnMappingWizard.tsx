@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Columns, CheckCircle2, AlertTriangle, Bookmark, FileSpreadsheet } from 'lucide-react';
+import { PendingImport, ColumnMapping, IMPORT_FIELDS, missingRequiredFields, selectSheet } from '../services/columnMapping';
+
+interface ColumnMappingWizardProps {
+  pending: PendingImport;
+  onConfirm: (confirmed: PendingImport, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const KIND_LABELS: Record<PendingImport['kind'], string> = {
+  history: 'Procurement History',
+  negotiation: 'Negotiated Rates',
+  forecast: 'Baseline Forecast',
+  fx: 'FX Rate Table',
+  landedCost: 'Landed Cost Table',
+  index: 'Market Index Series'
+};
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ pending: initial, onConfirm, onCancel }) => {
+  const [pending, setPending] = useState<PendingImport>(initial);
+  const [mapping, setMapping] = useState<ColumnMapping>(initial.mapping);
+  const [remember, setRemember] = useState(true);
+  const { headers, rows } = pending.table;
+  const fields = IMPORT_FIELDS[pending.kind];
+  const missing = missingRequiredFields(pending.kind, mapping);
+  const mappedColumns = new Set(Object.values(mapping).filter(v => v !== null));
+
+  const handleSheetChange = (sheetName: string) => {
+    const next = selectSheet(pending, sheetName);
+    setPending(next);
+    setMapping(next.mapping);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+            <Columns className="w-5 h-5 text-indigo-600" /> Map Columns: {KIND_LABELS[pending.kind]}
+          </h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+            {pending.fileName}{pending.sheetName ? ` › ${pending.sheetName}` : ''} • {rows.length} data rows • {headers.length} columns
+            {pending.remembered && <span className="ml-2 text-indigo-600"><Bookmark className="w-3 h-3 inline" /> Saved layout applied</span>}
+          </p>
+        </div>
+
+        <div className="p-8 overflow-y-auto space-y-8">
+          {pending.sheets && pending.sheets.length > 1 && (
+            <div className="flex items-center gap-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+                <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-600" /> Worksheet
+              </label>
+              <select
+                value={pending.sheetName}
+                onChange={(e) => handleSheetChange(e.target.value)}
+                className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-semibold outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {pending.sheets.map(sheet => <option key={sheet.name} value={sheet.name}>{sheet.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {fields.map(field => (
+              <div key={field.key}>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                  {field.label}{field.required && <span className="text-rose-500"> *</span>}
+                </label>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => setMapping(m => ({ ...m, [field.key]: e.target.value === '' ? null : Number(e.target.value) }))}
+                  className={`w-full p-2.5 bg-slate-50 border rounded-xl text-xs font-semibold outline-none focus:ring-2 focus:ring-indigo-500 ${field.required && mapping[field.key] == null ? 'border-rose-200' : 'border-slate-200'}`}
+                >
+                  <option value="">{field.required ? 'Select column...' : '(Not mapped)'}</option>
+                  {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border border-slate-100">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50/50">
+                  {headers.map((h, i) => (
+                    <th key={i} className={`px-4 py-3 text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${mappedColumns.has(i) ? 'text-indigo-600' : 'text-slate-400'}`}>
+                      {h || `Column ${i + 1}`}
+                      {mappedColumns.has(i) && (
+                        <div className="text-[8px] text-indigo-400 normal-case tracking-normal">
+                          → {fields.find(f => mapping[f.key] === i)?.label}
+                        </div>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r}>
+                    {headers.map((_, i) => (
+                      <td key={i} className={`px-4 py-2.5 text-[11px] font-medium whitespace-nowrap ${mappedColumns.has(i) ? 'text-slate-800' : 'text-slate-400'}`}>{row.values[i]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-6">
+            {missing.length > 0 ? (
+              <span className="text-[11px] font-bold text-rose-600 flex items-center gap-1.5">
+                <AlertTriangle className="w-4 h-4" /> Map required fields: {missing.map(f => f.label).join(', ')}
+              </span>
+            ) : (
+              <span className="text-[11px] font-bold text-emerald-600 flex items-center gap-1.5">
+                <CheckCircle2 className="w-4 h-4" /> All required fields mapped
+              </span>
+            )}
+            <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} className="accent-indigo-600" />
+              Remember for this file layout
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-6 py-3 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 transition-all">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm({ ...pending, mapping }, remember)}
+              disabled={missing.length > 0}
+              className={`px-8 py-3 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${missing.length > 0 ? 'bg-slate-100 text-slate-400 cursor-not-allowed' : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-100'}`}
+            >
+              Import Rows
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -1,31 +1,45 @@
 
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { Upload, FileText, Download, Table } from 'lucide-react';
 import { parseCSV, generateSampleData, generateSampleCSV } from '../services/dataService';
-import { HistoricalData } from '../types';
+import { downloadText } from '../services/download';
+import { HistoricalData, ImportReport } from '../types';
+import ImportReportPanel from './ImportReportPanel';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import { PendingImport, prepareImportFromFile, saveMapping } from '../services/columnMapping';
 
 interface DataUploadProps {
-  onDataLoaded: (data: HistoricalData[]) => void;
+  onDataLoaded: (data: HistoricalData[], report?: ImportReport<HistoricalData>) => void;
 }
 
 const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [failedReport, setFailedReport] = useState<ImportReport<HistoricalData> | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = '';
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const parsed = parseCSV(text);
-      if (parsed.length > 0) {
-        onDataLoaded(parsed);
-      } else {
-        alert("Could not parse CSV. Please ensure the headers match the template.");
-      }
-    };
-    reader.readAsText(file);
+    try {
+      setPending(await prepareImportFromFile('history', file));
+    } catch (err: any) {
+      setFailedReport({ fileName: file.name, records: [], totalRows: 0, rejected: [{ line: 1, reason: err.message || 'The file could not be read.' }] });
+    }
+  };
+
+  const handleMappingConfirm = (confirmed: PendingImport, remember: boolean) => {
+    if (remember) saveMapping('history', confirmed.table.headers, confirmed.mapping);
+    const report = { ...parseCSV(confirmed.text, confirmed.mapping), fileName: confirmed.fileName };
+    setPending(null);
+    if (report.records.length > 0) {
+      setFailedReport(null);
+      onDataLoaded(report.records, report);
+    } else {
+      if (report.rejected.length === 0) report.rejected.push({ line: 1, reason: 'No data rows found. Please ensure the file contains a header row and data.' });
+      setFailedReport(report);
+    }
   };
 
   const handleSampleData = () => {
@@ -35,20 +49,12 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
 
   const handleDownloadTemplate = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const csv = generateSampleCSV();
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", "procurement_history_template.csv");
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadText("procurement_history_template.csv", generateSampleCSV());
   };
 
   return (
     <div className="space-y-4">
+      {failedReport && <ImportReportPanel reports={[failedReport]} onDismiss={() => setFailedReport(null)} />}
       <div 
         className="bg-white p-10 rounded-2xl border-2 border-dashed border-slate-300 flex flex-col items-center justify-center space-y-6 hover:border-indigo-400 hover:bg-slate-50/50 transition-all cursor-pointer group" 
         onClick={() => fileInputRef.current?.click()}
@@ -60,7 +66,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
         <div className="text-center max-w-sm">
           <h3 className="text-xl font-bold text-slate-900">Import Procurement Records</h3>
           <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-            Drag and drop your file here or click to browse. Supports CSV files containing part numbers, pricing, and lead times.
+            Drag and drop your file here or click to browse. Supports Excel workbooks and comma, semicolon or tab delimited files containing part numbers, pricing, and lead times.
           </p>
         </div>
 
@@ -68,7 +74,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
           <button 
             className="bg-indigo-600 text-white px-8 py-3 rounded-xl font-bold text-sm flex items-center gap-2 hover:bg-indigo-700 shadow-xl shadow-indigo-200 transition-all active:scale-95"
           >
-            Choose CSV File
+            Choose CSV / Excel File
           </button>
           
           <button 
@@ -85,7 +91,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
           type="file" 
           ref={fileInputRef} 
           className="hidden" 
-          accept=".csv"
+          accept=".csv,.tsv,.txt,.xlsx"
           onChange={handleFileUpload}
         />
       </div>
@@ -105,6 +111,10 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
           Populate App with 150 Synthetic Data Points
         </button>
       </div>
+
+      {pending && (
+        <ColumnMappingWizard pending={pending} onConfirm={handleMappingConfirm} onCancel={() => setPending(null)} />
+      )}
     </div>
   );
 };
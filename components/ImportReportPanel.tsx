@@ -0,0 +1,61 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, FileText } from 'lucide-react';
+import { ImportReport } from '../types';
+
+interface ImportReportPanelProps {
+  reports: ImportReport<unknown>[];
+  onDismiss?: () => void;
+}
+
+const MAX_VISIBLE_ERRORS = 50;
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ reports, onDismiss }) => {
+  if (reports.length === 0) return null;
+  const totalRejected = reports.reduce((acc, r) => acc + r.rejected.length, 0);
+
+  return (
+    <div className={`p-5 rounded-2xl border shadow-sm animate-in fade-in duration-300 ${totalRejected > 0 ? 'bg-amber-50 border-amber-100 text-amber-800' : 'bg-emerald-50 border-emerald-100 text-emerald-700'}`}>
+      <div className="flex items-start gap-4">
+        {totalRejected > 0 ? <AlertTriangle className="w-6 h-6 shrink-0 mt-0.5" /> : <CheckCircle2 className="w-6 h-6 shrink-0 mt-0.5" />}
+        <div className="flex-1 min-w-0 space-y-4">
+          <h3 className="text-sm font-black uppercase tracking-wider">Import Report</h3>
+          {reports.map((report, i) => (
+            <div key={i} className="space-y-2">
+              <div className="flex items-center gap-2 text-xs font-bold">
+                <FileText className="w-3.5 h-3.5" />
+                <span className="truncate">{report.fileName || 'Uploaded file'}</span>
+                <span className="opacity-70">• {report.totalRows - report.rejected.length} of {report.totalRows} rows imported</span>
+              </div>
+              {report.rejected.length > 0 && (
+                <div className="max-h-40 overflow-y-auto bg-white/70 rounded-xl border border-amber-100">
+                  <table className="w-full text-left text-[11px]">
+                    <thead>
+                      <tr className="text-[9px] font-black uppercase tracking-widest text-amber-600">
+                        <th className="px-3 py-2 w-20">Line</th>
+                        <th className="px-3 py-2">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-amber-50">
+                      {report.rejected.slice(0, MAX_VISIBLE_ERRORS).map((err, j) => (
+                        <tr key={j}>
+                          <td className="px-3 py-1.5 font-bold">{err.line}</td>
+                          <td className="px-3 py-1.5 font-medium">{err.reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {report.rejected.length > MAX_VISIBLE_ERRORS && (
+                    <p className="px-3 py-2 text-[10px] font-bold italic">…and {report.rejected.length - MAX_VISIBLE_ERRORS} more rejected rows.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        {onDismiss && <button onClick={onDismiss} className="font-bold p-1">✕</button>}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportPanel;
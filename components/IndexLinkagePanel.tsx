@@ -0,0 +1,116 @@
+import React from 'react';
+import { Link2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { SensitivityEstimate } from '../services/indexLinkage';
+
+interface IndexLinkagePanelProps {
+  partNumber: string;
+  indices: string[]; // Every uploaded index
+  linked: string[]; // Indices linked to the selected part
+  estimates: Map<string, SensitivityEstimate>; // Per linked part
+  appliedIndices?: string[]; // Indices the current forecast was adjusted with, if any
+  onChangeLinks: (partNumber: string, indices: string[]) => void;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const sameIndices = (a: string[], b: string[]) => a.length === b.length && a.every(i => b.includes(i));
+
+const IndexLinkagePanel: React.FC<IndexLinkagePanelProps> = ({ partNumber, indices, linked, estimates, appliedIndices, onChangeLinks }) => {
+  if (indices.length === 0) return null;
+  const current = partNumber ? estimates.get(partNumber) : undefined;
+  const sensitivity = current?.sensitivity;
+  const needsRerun = !!partNumber && !sameIndices(appliedIndices ?? [], sensitivity ? linked : []);
+
+  const toggle = (index: string) =>
+    onChangeLinks(partNumber, linked.includes(index) ? linked.filter(i => i !== index) : [...linked, index]);
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in duration-500">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+        <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-amber-600" /> Market Index Linkage
+        </h4>
+        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+          {indices.length} {indices.length === 1 ? 'index' : 'indices'} uploaded • prices regressed on index levels per period
+        </p>
+      </div>
+
+      {partNumber ? (
+        <div className="p-6 border-b border-slate-100 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">{partNumber} tracks</span>
+            {indices.map(index => (
+              <button
+                key={index}
+                onClick={() => toggle(index)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${linked.includes(index) ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-200 text-slate-400 hover:border-amber-200'}`}
+              >
+                {index}
+              </button>
+            ))}
+          </div>
+
+          {sensitivity ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 bg-amber-50/50 rounded-2xl border border-amber-100">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Price Movement Explained</p>
+                <p className="text-2xl font-black text-amber-700 mt-1">{percent(sensitivity.rSquared)}</p>
+                <p className="text-[10px] font-bold text-slate-400 mt-1">R² over {sensitivity.periods} periods • forecast weight on the index</p>
+              </div>
+              <div className="md:col-span-2 p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-1.5">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Sensitivity</p>
+                {sensitivity.indices.map((index, i) => (
+                  <p key={index} className="text-xs font-bold text-slate-700">
+                    {index}: a 10% move shifts the price by {(sensitivity.elasticities[i] * 10).toFixed(1)}%
+                    <span className="text-[10px] text-slate-400 font-medium"> (elasticity {sensitivity.elasticities[i].toFixed(2)})</span>
+                  </p>
+                ))}
+              </div>
+            </div>
+          ) : linked.length > 0 && current?.reason && (
+            <p className="text-[10px] font-bold text-amber-600 flex items-center gap-1.5">
+              <AlertTriangle className="w-3 h-3" /> {current.reason}
+            </p>
+          )}
+
+          {needsRerun && (
+            <p className="text-[10px] font-bold text-slate-500 flex items-center gap-1.5">
+              <RefreshCw className="w-3 h-3" /> Re-run the forecast to apply the current index links.
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="p-6 border-b border-slate-100 text-xs font-medium text-slate-400">Select a part number to link it to an index.</p>
+      )}
+
+      {estimates.size > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="px-6 py-3">Part</th>
+                <th className="px-4 py-3">Indices</th>
+                <th className="px-4 py-3 text-right">Explained</th>
+                <th className="px-6 py-3 text-right">Periods</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {Array.from(estimates.entries()).map(([part, estimate]) => (
+                <tr key={part} className={part === partNumber ? 'bg-amber-50/30' : 'hover:bg-indigo-50/20'}>
+                  <td className="px-6 py-3 text-xs font-black text-slate-800">{part}</td>
+                  <td className="px-4 py-3 text-[10px] font-bold text-slate-500">{estimate.sensitivity?.indices.join(', ') ?? '—'}</td>
+                  <td className="px-4 py-3 text-xs font-black text-right text-amber-700">
+                    {estimate.sensitivity ? percent(estimate.sensitivity.rSquared) : <span className="text-[10px] font-bold text-slate-400">{estimate.reason}</span>}
+                  </td>
+                  <td className="px-6 py-3 text-xs font-bold text-slate-600 text-right">{estimate.sensitivity?.periods ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexLinkagePanel;
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Boxes, FileDown, ChartLine } from 'lucide-react';
+import { FilterState, InventorySettings, LeadTimeVariabilitySource, ServiceLevel } from '../types';
+import { InventoryPolicy, SERVICE_LEVELS, LEAD_TIME_VARIABILITY_LABELS, describeInventoryFormulas } from '../services/inventoryPolicy';
+import { formatMoney } from '../services/currencyService';
+
+interface InventoryPolicyPanelProps {
+  policies: InventoryPolicy[];
+  selected: FilterState;
+  settings: InventorySettings;
+  currency: string;
+  onChangeSettings: (patch: Partial<InventorySettings>) => void;
+  onSelect: (combo: FilterState) => void;
+  onExport: () => void;
+}
+
+const isSelected = (policy: InventoryPolicy, selected: FilterState) =>
+  policy.partNumber === selected.partNumber && policy.vendor === selected.vendor && policy.country === selected.country;
+
+const InventoryPolicyPanel: React.FC<InventoryPolicyPanelProps> = ({ policies, selected, settings, currency, onChangeSettings, onSelect, onExport }) => {
+  if (policies.length === 0) return null;
+  const current = policies.find(p => isSelected(p, selected));
+  const formulas = current ? describeInventoryFormulas(current, currency) : null;
+  const units = (value: number) => Math.round(value).toLocaleString();
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in duration-500">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+        <div>
+          <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm flex items-center gap-2">
+            <Boxes className="w-4 h-4 text-emerald-600" /> Inventory Policy
+          </h4>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+            {policies.length} forecast combinations • demand projected from order quantities • {currency}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            Order Cost
+            <input
+              type="number"
+              min={0}
+              step={10}
+              value={settings.orderingCost}
+              onChange={(e) => onChangeSettings({ orderingCost: Math.max(0, Number(e.target.value) || 0) })}
+              className="block w-24 mt-1 p-2 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            Holding %/yr
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={settings.holdingCostRate}
+              onChange={(e) => onChangeSettings({ holdingCostRate: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+              className="block w-20 mt-1 p-2 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            Service Level
+            <select
+              value={settings.serviceLevel}
+              onChange={(e) => onChangeSettings({ serviceLevel: Number(e.target.value) as ServiceLevel })}
+              className="block w-24 mt-1 p-2 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {SERVICE_LEVELS.map(level => <option key={level} value={level}>{level}%</option>)}
+            </select>
+          </label>
+          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest" title="Forecast uncertainty is how unsure the engine is about the mean lead time, not how much deliveries vary">
+            Lead Time σ
+            <select
+              value={settings.leadTimeVariability}
+              onChange={(e) => onChangeSettings({ leadTimeVariability: e.target.value as LeadTimeVariabilitySource })}
+              className="block w-44 mt-1 p-2 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {(Object.keys(LEAD_TIME_VARIABILITY_LABELS) as LeadTimeVariabilitySource[]).map(source => (
+                <option key={source} value={source}>{LEAD_TIME_VARIABILITY_LABELS[source]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={onExport}
+            className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-slate-800 transition-all shadow-lg"
+          >
+            <FileDown className="w-4 h-4" /> CSV
+          </button>
+        </div>
+      </div>
+
+      {current && formulas && (
+        <div className="p-6 border-b border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[
+            { label: 'Economic Order Quantity', value: current.eoq, formula: 'EOQ = √(2·D·S / H)', substituted: formulas.eoq },
+            { label: `Safety Stock @ ${current.serviceLevel}%`, value: current.safetyStock, formula: 'SS = z·√(L·σd² + d²·σL²)', substituted: formulas.safetyStock },
+            { label: 'Reorder Point', value: current.reorderPoint, formula: 'ROP = d·L + SS', substituted: formulas.reorderPoint }
+          ].map(item => (
+            <div key={item.label} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{item.label}</p>
+              <p className="text-2xl font-black text-slate-900 mt-1">{units(item.value)} <span className="text-xs font-bold text-slate-400">units</span></p>
+              <p className="text-[10px] font-bold text-indigo-600 mt-2 font-mono">{item.formula}</p>
+              <p className="text-[10px] font-medium text-slate-500 mt-1 font-mono break-words">{item.substituted}</p>
+            </div>
+          ))}
+          <p className="md:col-span-3 text-[10px] font-medium text-slate-400 leading-relaxed">
+            D = {units(current.annualDemand)} units/yr projected demand • S = {formatMoney(current.orderingCost, currency)} per order • H = {formatMoney(current.holdingCost, currency)} per unit/yr ({settings.holdingCostRate}% of {formatMoney(current.unitPrice, currency)}) •
+            d = {current.dailyDemand.toFixed(2)}/day, σd = {current.dailyDemandStdDev.toFixed(2)} • L = {current.leadTime.toFixed(1)}d, σL = {current.leadTimeStdDev.toFixed(2)}d ({LEAD_TIME_VARIABILITY_LABELS[current.leadTimeStdDevBasis].toLowerCase()}{settings.leadTimeVariability !== current.leadTimeStdDevBasis ? ', none in the forecast' : ''}) • z = {current.z} •
+            {' '}{current.ordersPerYear.toFixed(1)} orders/yr, {formatMoney(current.annualCost, currency)}/yr ordering and holding cost
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-4 py-3">Combination</th>
+              <th className="px-4 py-3 text-right">Demand / yr</th>
+              <th className="px-4 py-3 text-right">Unit Price</th>
+              <th className="px-4 py-3 text-right">Lead Time</th>
+              <th className="px-4 py-3 text-right">EOQ</th>
+              <th className="px-4 py-3 text-right">Safety Stock</th>
+              <th className="px-4 py-3 text-right">Reorder Point</th>
+              <th className="px-4 py-3 text-right">Annual Cost</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {policies.map(p => {
+              const active = isSelected(p, selected);
+              return (
+                <tr key={`${p.partNumber}|${p.vendor}|${p.country}`} className={active ? 'bg-indigo-50/40' : 'hover:bg-indigo-50/20'}>
+                  <td className="px-4 py-3">
+                    <div className="text-xs font-black text-slate-800">{p.partNumber}</div>
+                    <div className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{p.vendor} • {p.country}</div>
+                  </td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{units(p.annualDemand)}</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{formatMoney(p.unitPrice, currency)}</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{p.leadTime.toFixed(0)}d ± {p.leadTimeStdDev.toFixed(1)}</td>
+                  <td className="px-4 py-3 text-xs font-black text-slate-800 text-right">{units(p.eoq)}</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{units(p.safetyStock)}</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{units(p.reorderPoint)}</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{formatMoney(p.annualCost, currency)}</td>
+                  <td className="px-4 py-3 text-right">
+                    {!active && (
+                      <button
+                        onClick={() => onSelect({ partNumber: p.partNumber, vendor: p.vendor, country: p.country })}
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all"
+                      >
+                        <ChartLine className="w-3 h-3" /> View
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryPolicyPanel;
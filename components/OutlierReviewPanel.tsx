@@ -0,0 +1,79 @@
+import React from 'react';
+import { ShieldAlert, RotateCcw, EyeOff } from 'lucide-react';
+import { HistoricalData } from '../types';
+import { formatMoney } from '../services/currencyService';
+
+interface OutlierReviewPanelProps {
+  rows: HistoricalData[];
+  currency: string;
+  scopeLabel: string;
+  onToggle: (id: string) => void;
+  onSetAll: (restored: boolean) => void;
+}
+
+const OutlierReviewPanel: React.FC<OutlierReviewPanelProps> = ({ rows, currency, scopeLabel, onToggle, onSetAll }) => {
+  if (rows.length === 0) return null;
+  const excluded = rows.filter(r => !r.outlierRestored).length;
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in duration-500">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4">
+        <div>
+          <h4 className="font-black text-slate-900 flex items-center gap-2 uppercase tracking-wider text-sm">
+            <ShieldAlert className="w-4 h-4 text-rose-500" /> Outlier Review
+          </h4>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+            {scopeLabel} • {rows.length} flagged • {excluded} excluded
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => onSetAll(true)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-200 text-slate-600 hover:border-emerald-200 hover:bg-emerald-50 transition-all">
+            Restore All
+          </button>
+          <button onClick={() => onSetAll(false)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-200 text-slate-600 hover:border-rose-200 hover:bg-rose-50 transition-all">
+            Exclude All
+          </button>
+        </div>
+      </div>
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Date</th>
+              <th className="px-6 py-3">Part & Vendor</th>
+              <th className="px-6 py-3 text-right">Price</th>
+              <th className="px-6 py-3 text-right">Lead Time</th>
+              <th className="px-6 py-3">Reason</th>
+              <th className="px-6 py-3 text-center">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(r => (
+              <tr key={r.id} className={r.outlierRestored ? 'bg-amber-50/30' : ''}>
+                <td className="px-6 py-3 text-[11px] font-bold text-slate-600 whitespace-nowrap">{r.date}</td>
+                <td className="px-6 py-3">
+                  <div className="text-xs font-black text-slate-800">{r.partNumber}</div>
+                  <div className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{r.vendor} • {r.country}</div>
+                </td>
+                <td className="px-6 py-3 text-right text-xs font-bold text-slate-700">{formatMoney(r.usdPrice, currency)}</td>
+                <td className="px-6 py-3 text-right text-xs font-bold text-slate-700">{r.leadTimeDays}d</td>
+                <td className="px-6 py-3 text-[11px] font-medium text-slate-500 leading-relaxed">{r.outlierReason}</td>
+                <td className="px-6 py-3 text-center">
+                  <button
+                    onClick={() => onToggle(r.id)}
+                    className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${r.outlierRestored ? 'bg-amber-50 border-amber-100 text-amber-700 hover:bg-amber-100' : 'bg-rose-50 border-rose-100 text-rose-700 hover:bg-rose-100'}`}
+                    title={r.outlierRestored ? 'Included in analysis — click to exclude' : 'Excluded from analysis — click to restore'}
+                  >
+                    {r.outlierRestored ? <><RotateCcw className="w-3 h-3" /> Restored</> : <><EyeOff className="w-3 h-3" /> Excluded</>}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default OutlierReviewPanel;
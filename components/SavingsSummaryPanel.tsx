@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { PiggyBank, FileDown, FileSpreadsheet, Info } from 'lucide-react';
+import { SavingsLedgerEntry, SavingsGrouping, SAVINGS_GROUPING_LABELS, summarizeSavings, rollupSavings } from '../services/savingsEngine';
+import { formatMoney } from '../services/currencyService';
+
+interface SavingsSummaryPanelProps {
+  ledger: SavingsLedgerEntry[];
+  currency: string;
+  onExportCSV: () => void;
+  onExportXLSX: () => void;
+}
+
+// Positive savings and avoidance are good; overspend is reported as a positive amount and is always bad
+const signedClass = (value: number, higherIsBetter: boolean = true) =>
+  value === 0 ? 'text-slate-600' : (value > 0) === higherIsBetter ? 'text-emerald-600' : 'text-rose-600';
+
+const SavingsSummaryPanel: React.FC<SavingsSummaryPanelProps> = ({ ledger, currency, onExportCSV, onExportXLSX }) => {
+  const [grouping, setGrouping] = useState<SavingsGrouping>('vendor');
+
+  const totals = useMemo(() => summarizeSavings(ledger), [ledger]);
+  const rollup = useMemo(() => rollupSavings(ledger, grouping), [ledger, grouping]);
+
+  if (ledger.length === 0) return null;
+  const money = (amount: number) => formatMoney(amount, currency);
+  const withoutVolume = ledger.filter(e => e.volumeBasis === 'none').length;
+  const withoutLastPrice = ledger.filter(e => e.lastPaidPrice === null).length;
+
+  const cards = [
+    { label: 'Negotiated Spend', value: totals.spend, className: 'text-slate-900', hint: `${Math.round(totals.quantity).toLocaleString()} units covered` },
+    { label: 'Savings vs Last Paid', value: totals.savings, className: signedClass(totals.savings), hint: withoutLastPrice > 0 ? `${withoutLastPrice} quotes without a prior price` : 'All quotes have a prior price' },
+    { label: 'Cost Avoidance', value: totals.costAvoidance, className: signedClass(totals.costAvoidance), hint: 'vs forecast baseline' },
+    { label: 'Overspend', value: totals.overspend, className: signedClass(totals.overspend, false), hint: 'above the favorable range' }
+  ];
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="p-8 border-b border-slate-100 bg-slate-50/50 flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div>
+          <h4 className="font-black text-slate-900 flex items-center gap-2 uppercase tracking-wider text-sm">
+            <PiggyBank className="w-4 h-4 text-emerald-600" /> Savings & Cost Avoidance
+          </h4>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+            {totals.quotes} quotes • volume from annualized history over each validity window • {currency}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-white p-1 rounded-xl border border-slate-200">
+            {(Object.keys(SAVINGS_GROUPING_LABELS) as SavingsGrouping[]).map(g => (
+              <button
+                key={g}
+                onClick={() => setGrouping(g)}
+                className={`px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${grouping === g ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {SAVINGS_GROUPING_LABELS[g]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onExportCSV}
+            className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-slate-800 transition-all shadow-lg"
+          >
+            <FileDown className="w-4 h-4" /> Ledger CSV
+          </button>
+          <button
+            onClick={onExportXLSX}
+            className="flex items-center gap-2 px-4 py-2.5 bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-emerald-700 transition-all shadow-lg"
+          >
+            <FileSpreadsheet className="w-4 h-4" /> Ledger XLSX
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-px bg-slate-100 border-b border-slate-100">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white p-6">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{card.label}</p>
+            <p className={`text-xl font-black mt-1 ${card.className}`}>{money(card.value)}</p>
+            <p className="text-[9px] font-bold text-slate-400 mt-1">{card.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-8 py-4">{SAVINGS_GROUPING_LABELS[grouping]}</th>
+              <th className="px-4 py-4 text-right">Quotes</th>
+              <th className="px-4 py-4 text-right">Quantity</th>
+              <th className="px-4 py-4 text-right">Spend</th>
+              <th className="px-4 py-4 text-right">Savings</th>
+              <th className="px-4 py-4 text-right">Cost Avoidance</th>
+              <th className="px-8 py-4 text-right">Overspend</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rollup.map(row => (
+              <tr key={row.key} className="hover:bg-indigo-50/20">
+                <td className="px-8 py-3 text-xs font-black text-slate-800">{row.key}</td>
+                <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{row.quotes}</td>
+                <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{Math.round(row.quantity).toLocaleString()}</td>
+                <td className="px-4 py-3 text-xs font-black text-slate-800 text-right">{money(row.spend)}</td>
+                <td className={`px-4 py-3 text-xs font-bold text-right ${signedClass(row.savings)}`}>{money(row.savings)}</td>
+                <td className={`px-4 py-3 text-xs font-bold text-right ${signedClass(row.costAvoidance)}`}>{money(row.costAvoidance)}</td>
+                <td className={`px-8 py-3 text-xs font-bold text-right ${signedClass(row.overspend, false)}`}>{money(row.overspend)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {withoutVolume > 0 && (
+        <p className="px-8 py-4 border-t border-slate-100 text-[10px] font-bold text-amber-600 flex items-center gap-2">
+          <Info className="w-3 h-3" /> {withoutVolume} {withoutVolume === 1 ? 'quote has' : 'quotes have'} no purchase history for the part and {withoutVolume === 1 ? 'contributes' : 'contribute'} no volume.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SavingsSummaryPanel;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { FlaskConical, Plus, Trash2, Save, X, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Scenario, ScenarioShock, ShockTarget } from '../types';
+import { createScenario, createShock, describeShock, validateShock } from '../services/scenarioEngine';
+
+interface ScenarioBuilderProps {
+  scenarios: Scenario[];
+  activeScenarioId: string | null;
+  options: { partNumbers: string[], vendors: string[], countries: string[] };
+  currency: string;
+  onSave: (scenario: Scenario) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string | null) => void;
+  onClose: () => void;
+}
+
+const FIELD_CLASS = 'w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500';
+
+const ScenarioBuilder: React.FC<ScenarioBuilderProps> = ({ scenarios, activeScenarioId, options, currency, onSave, onDelete, onActivate, onClose }) => {
+  const [draft, setDraft] = useState<Scenario>(() => scenarios.find(s => s.id === activeScenarioId) ?? scenarios[0] ?? createScenario('New scenario'));
+  const isSaved = scenarios.some(s => s.id === draft.id);
+  const errors = draft.shocks.map(validateShock);
+  const canSave = draft.name.trim() !== '' && draft.shocks.length > 0 && errors.every(e => e === null);
+
+  const updateShock = (id: string, patch: Partial<ScenarioShock>) =>
+    setDraft(d => ({ ...d, shocks: d.shocks.map(s => s.id === id ? { ...s, ...patch } : s) }));
+
+  const handleSave = () => {
+    const saved = { ...draft, name: draft.name.trim(), updatedAt: new Date().toISOString() };
+    onSave(saved);
+    setDraft(saved);
+  };
+
+  const handleDelete = () => {
+    onDelete(draft.id);
+    setDraft(scenarios.find(s => s.id !== draft.id) ?? createScenario('New scenario'));
+  };
+
+  const filterSelect = (shock: ScenarioShock, key: 'partNumber' | 'vendor' | 'country', values: string[], label: string) => (
+    <select value={shock[key] || ''} onChange={(e) => updateShock(shock.id, { [key]: e.target.value || undefined })} className={FIELD_CLASS}>
+      <option value="">All {label}</option>
+      {values.map(v => <option key={v} value={v}>{v}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-6xl max-h-full flex flex-col overflow-hidden">
+        <div className="p-8 border-b border-slate-100 bg-slate-50/50 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-fuchsia-600" /> Scenario Builder
+            </h3>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+              Shocks are applied to the current forecasts in order • amounts in {currency} or days
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-4">
+          <div className="p-6 border-r border-slate-100 space-y-2 overflow-y-auto">
+            <button
+              onClick={() => setDraft(createScenario(`Scenario ${scenarios.length + 1}`))}
+              className="w-full py-2.5 rounded-xl border-2 border-dashed border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:border-fuchsia-300 hover:text-fuchsia-600 transition-all flex items-center justify-center gap-1.5"
+            >
+              <Plus className="w-3 h-3" /> New Scenario
+            </button>
+            {scenarios.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setDraft(s)}
+                className={`w-full text-left p-3 rounded-xl border transition-all ${draft.id === s.id ? 'bg-fuchsia-50 border-fuchsia-200' : 'bg-white border-slate-100 hover:border-slate-200'}`}
+              >
+                <div className="text-xs font-black text-slate-800 flex items-center gap-1.5">
+                  {s.name}
+                  {s.id === activeScenarioId && <CheckCircle2 className="w-3 h-3 text-fuchsia-600" />}
+                </div>
+                <div className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-0.5">{s.shocks.length} {s.shocks.length === 1 ? 'shock' : 'shocks'}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-3 p-8 overflow-y-auto space-y-6">
+            <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              Scenario Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                className="w-full mt-2 p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-800 outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+
+            <div className="space-y-3">
+              {draft.shocks.map((shock, i) => (
+                <div key={shock.id} className={`p-4 rounded-2xl border ${errors[i] ? 'border-rose-200 bg-rose-50/30' : 'border-slate-100 bg-white'}`}>
+                  <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2 items-end">
+                    <select value={shock.target} onChange={(e) => updateShock(shock.id, { target: e.target.value as ShockTarget })} className={FIELD_CLASS}>
+                      <option value="price">Price</option>
+                      <option value="leadTime">Lead time</option>
+                    </select>
+                    <select value={shock.mode} onChange={(e) => updateShock(shock.id, { mode: e.target.value as ScenarioShock['mode'] })} className={FIELD_CLASS}>
+                      <option value="percent">% change</option>
+                      <option value="absolute">{shock.target === 'price' ? `${currency} change` : 'Days change'}</option>
+                    </select>
+                    <input
+                      type="number"
+                      step={shock.mode === 'percent' ? 5 : 1}
+                      value={shock.value}
+                      onChange={(e) => updateShock(shock.id, { value: Number(e.target.value) })}
+                      className={FIELD_CLASS}
+                    />
+                    {filterSelect(shock, 'country', options.countries, 'countries')}
+                    {filterSelect(shock, 'vendor', options.vendors, 'vendors')}
+                    {filterSelect(shock, 'partNumber', options.partNumbers, 'parts')}
+                    <input type="date" value={shock.from || ''} onChange={(e) => updateShock(shock.id, { from: e.target.value || undefined })} className={FIELD_CLASS} title="First day of the shock" />
+                    <div className="flex items-center gap-2">
+                      <input type="date" value={shock.to || ''} onChange={(e) => updateShock(shock.id, { to: e.target.value || undefined })} className={FIELD_CLASS} title="Last day of the shock" />
+                      <button
+                        onClick={() => setDraft(d => ({ ...d, shocks: d.shocks.filter(s => s.id !== shock.id) }))}
+                        className="p-2 text-slate-300 hover:text-rose-500 transition-colors"
+                        title="Remove shock"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <p className={`text-[10px] font-bold mt-2 flex items-center gap-1 ${errors[i] ? 'text-rose-600' : 'text-slate-400'}`}>
+                    {errors[i] ? <><AlertTriangle className="w-3 h-3" /> {errors[i]}</> : describeShock(shock, currency)}
+                  </p>
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft(d => ({ ...d, shocks: [...d.shocks, createShock()] }))}
+                className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-fuchsia-600 hover:text-fuchsia-800 transition-colors"
+              >
+                <Plus className="w-3 h-3" /> Add Shock
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50/50 flex items-center justify-between gap-3">
+          <div>
+            {isSaved && (
+              <button onClick={handleDelete} className="flex items-center gap-1.5 text-[10px] font-black text-rose-500 hover:text-rose-700 uppercase tracking-widest transition-colors">
+                <Trash2 className="w-3 h-3" /> Delete Scenario
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {isSaved && draft.id === activeScenarioId ? (
+              <button onClick={() => onActivate(null)} className="px-4 py-2.5 rounded-xl border-2 border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-100 transition-all">
+                Stop Comparing
+              </button>
+            ) : isSaved && (
+              <button onClick={() => onActivate(draft.id)} className="px-4 py-2.5 rounded-xl border-2 border-fuchsia-200 text-[10px] font-black uppercase tracking-widest text-fuchsia-700 hover:bg-fuchsia-50 transition-all">
+                Compare vs Base
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="flex items-center gap-2 px-6 py-2.5 bg-fuchsia-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-fuchsia-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all shadow-lg"
+            >
+              <Save className="w-4 h-4" /> Save Scenario
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioBuilder;
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { GitCompare, ChartLine } from 'lucide-react';
+import { HistoricalData, ForecastResult, FilterState } from '../types';
+import { compareSources } from '../services/sourcingEngine';
+import { LandedCostModel } from '../services/landedCost';
+import { formatMoney } from '../services/currencyService';
+
+interface SourcingComparisonPanelProps {
+  partNumber: string;
+  history: HistoricalData[];
+  forecasts: ForecastResult[];
+  currency: string;
+  costModel?: LandedCostModel;
+  selected: FilterState;
+  onSelect: (combo: FilterState) => void;
+}
+
+const SourcingComparisonPanel: React.FC<SourcingComparisonPanelProps> = ({ partNumber, history, forecasts, currency, costModel, selected, onSelect }) => {
+  const options = useMemo(() => partNumber ? compareSources(history, forecasts, partNumber, costModel) : [], [partNumber, history, forecasts, costModel]);
+
+  // A single source leaves nothing to compare
+  if (options.length < 2) return null;
+  const cheapest = options[0];
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in duration-500">
+      <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+        <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-indigo-500" /> Sourcing Comparison: {partNumber}
+        </h4>
+        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+          {options.length} sources • ranked by {costModel ? 'landed TCO' : 'price'} • projected where forecast, else last 12 months
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-4 py-3">Vendor & Country</th>
+              <th className="px-4 py-3 text-right">Projected Price</th>
+              <th className="px-4 py-3 text-right">Recent Price</th>
+              {costModel && <th className="px-4 py-3 text-right">TCO</th>}
+              <th className="px-4 py-3 text-right">Lead Time</th>
+              <th className="px-4 py-3 text-right">Volatility</th>
+              <th className="px-4 py-3 text-right">Annual Qty</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {options.map(o => {
+              const isSelected = o.vendor === selected.vendor && o.country === selected.country;
+              const premium = cheapest.comparableCost > 0 ? ((o.comparableCost - cheapest.comparableCost) / cheapest.comparableCost) * 100 : 0;
+              return (
+                <tr key={`${o.vendor}|${o.country}`} className={isSelected ? 'bg-indigo-50/40' : 'hover:bg-indigo-50/20'}>
+                  <td className="px-4 py-3">
+                    <div className="text-xs font-black text-slate-800">{o.vendor}</div>
+                    <div className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">
+                      {o.country} • {o.orders} orders • {o === cheapest ? <span className="text-emerald-600">Lowest cost</span> : `+${premium.toFixed(1)}%`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-xs font-black text-slate-800 text-right">{o.projectedPrice === null ? <span className="text-slate-300">Not forecast</span> : formatMoney(o.projectedPrice, currency)}</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{formatMoney(o.recentPrice, currency)}</td>
+                  {costModel && <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{formatMoney(o.comparableCost, currency)}</td>}
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{(o.projectedLeadTime ?? o.avgLeadTime).toFixed(0)}d</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{o.volatility.toFixed(1)}%</td>
+                  <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{Math.round(o.annualQuantity).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    {!isSelected && (
+                      <button
+                        onClick={() => onSelect({ partNumber, vendor: o.vendor, country: o.country })}
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all"
+                      >
+                        <ChartLine className="w-3 h-3" /> View
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SourcingComparisonPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, Bot } from 'lucide-react';
+import { ValidationReport, ValidationIssue } from '../types';
+
+interface ValidationReportPanelProps {
+  reports: ValidationReport[];
+  onDismiss?: () => void;
+}
+
+const MAX_VISIBLE_ISSUES = 50;
+
+const ACTION_STYLES: Record<ValidationIssue['action'], string> = {
+  repaired: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  retried: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+  rejected: 'bg-rose-50 text-rose-700 border-rose-100'
+};
+
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ reports, onDismiss }) => {
+  const visible = reports.filter(r => r.issues.length > 0);
+  if (visible.length === 0) return null;
+  const totalRejected = visible.reduce((acc, r) => acc + r.rejected, 0);
+
+  return (
+    <div className={`p-5 rounded-2xl border shadow-sm animate-in fade-in duration-300 ${totalRejected > 0 ? 'bg-amber-50 border-amber-100 text-amber-800' : 'bg-slate-50 border-slate-200 text-slate-700'}`}>
+      <div className="flex items-start gap-4">
+        {totalRejected > 0 ? <ShieldAlert className="w-6 h-6 shrink-0 mt-0.5" /> : <ShieldCheck className="w-6 h-6 shrink-0 mt-0.5" />}
+        <div className="flex-1 min-w-0 space-y-4">
+          <h3 className="text-sm font-black uppercase tracking-wider">AI Response Validation</h3>
+          {visible.map((report, i) => (
+            <div key={i} className="space-y-2">
+              <div className="flex items-center gap-2 text-xs font-bold flex-wrap">
+                <Bot className="w-3.5 h-3.5" />
+                <span>{report.source}</span>
+                <span className="opacity-70">
+                  • {report.checked} checked • {report.repaired} repaired • {report.retried} re-requested • {report.rejected} rejected
+                </span>
+              </div>
+              <div className="max-h-40 overflow-y-auto bg-white/70 rounded-xl border border-slate-100">
+                <table className="w-full text-left text-[11px]">
+                  <thead>
+                    <tr className="text-[9px] font-black uppercase tracking-widest opacity-70">
+                      <th className="px-3 py-2">Item</th>
+                      <th className="px-3 py-2">Issue</th>
+                      <th className="px-3 py-2 w-24">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {report.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, j) => (
+                      <tr key={j}>
+                        <td className="px-3 py-1.5 font-bold whitespace-nowrap">{issue.item}</td>
+                        <td className="px-3 py-1.5 font-medium">{issue.message}</td>
+                        <td className="px-3 py-1.5">
+                          <span className={`px-2 py-0.5 rounded-md border text-[9px] font-black uppercase tracking-widest ${ACTION_STYLES[issue.action]}`}>{issue.action}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {report.issues.length > MAX_VISIBLE_ISSUES && (
+                  <p className="px-3 py-2 text-[10px] font-bold italic">…and {report.issues.length - MAX_VISIBLE_ISSUES} more issues.</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        {onDismiss && <button onClick={onDismiss} className="font-bold p-1">✕</button>}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { Award, ChevronDown, ChevronRight, ArrowUpDown, Info, ChartLine } from 'lucide-react';
+import { HistoricalData, BenchmarkResult, FilterState } from '../types';
+import { VendorScorecard, SCORE_WEIGHTS, buildVendorScorecards } from '../services/scorecardEngine';
+import { formatMoney } from '../services/currencyService';
+
+interface VendorScorecardPanelProps {
+  data: HistoricalData[];
+  benchmarks: BenchmarkResult[];
+  currency: string;
+  onDrillDown: (combo: FilterState) => void;
+}
+
+type SortKey = 'rank' | 'vendor' | 'spend' | 'partCount' | 'priceTrend' | 'avgLeadTime' | 'leadTimeStdDev' | 'flaggedShare';
+
+// Direction a column sorts in on first click; a second click reverses it
+const DEFAULT_DIRECTION: Record<SortKey, 1 | -1> = {
+  rank: 1,
+  vendor: 1,
+  spend: -1,
+  partCount: -1,
+  priceTrend: 1,
+  avgLeadTime: 1,
+  leadTimeStdDev: 1,
+  flaggedShare: 1
+};
+
+const COLUMNS: { key: SortKey, label: string, align?: 'right' }[] = [
+  { key: 'rank', label: 'Rank / Score' },
+  { key: 'vendor', label: 'Vendor' },
+  { key: 'spend', label: 'Spend', align: 'right' },
+  { key: 'partCount', label: 'Parts', align: 'right' },
+  { key: 'priceTrend', label: 'Price Trend / yr', align: 'right' },
+  { key: 'avgLeadTime', label: 'Avg Lead Time', align: 'right' },
+  { key: 'leadTimeStdDev', label: 'Lead Time σ', align: 'right' },
+  { key: 'flaggedShare', label: 'Flagged Quotes', align: 'right' }
+];
+
+const formatTrend = (value: number | null) => value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const scoreColor = (score: number) =>
+  score >= 70 ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : score >= 40 ? 'bg-amber-50 text-amber-700 border-amber-100' : 'bg-rose-50 text-rose-700 border-rose-100';
+
+const VendorScorecardPanel: React.FC<VendorScorecardPanelProps> = ({ data, benchmarks, currency, onDrillDown }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('rank');
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const scorecards = useMemo(() => buildVendorScorecards(data, benchmarks), [data, benchmarks]);
+
+  const sorted = useMemo(() => {
+    // Missing values always sort last
+    const value = (card: VendorScorecard): number | string | null => card[sortKey];
+    return [...scorecards].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+      const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+      return cmp * direction || a.rank - b.rank;
+    });
+  }, [scorecards, sortKey, direction]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDirection(d => (d === 1 ? -1 : 1));
+    } else {
+      setSortKey(key);
+      setDirection(DEFAULT_DIRECTION[key]);
+    }
+  };
+
+  if (data.length === 0 && benchmarks.length === 0) {
+    return (
+      <div className="bg-white p-16 rounded-3xl border border-dashed border-slate-300 flex flex-col items-center text-center">
+        <Info className="w-12 h-12 text-slate-300 mb-4" />
+        <h3 className="text-xl font-black text-slate-900 mb-2">No Vendor Data</h3>
+        <p className="text-slate-500 max-w-sm font-medium">Upload procurement history or run a negotiation benchmark to score vendors.</p>
+      </div>
+    );
+  }
+
+  const weightLabel = (Object.keys(SCORE_WEIGHTS) as (keyof typeof SCORE_WEIGHTS)[])
+    .map(k => `${k.replace(/([A-Z])/g, ' $1').toLowerCase()} ${Math.round(SCORE_WEIGHTS[k] * 100)}%`)
+    .join(' • ');
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-white rounded-3xl border border-slate-200 shadow-xl overflow-hidden">
+        <div className="p-6 border-b border-slate-100 bg-slate-50/50 flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h4 className="font-black text-slate-900 uppercase tracking-wider text-sm flex items-center gap-2">
+              <Award className="w-4 h-4 text-amber-500" /> Vendor Scorecard
+            </h4>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+              {scorecards.length} vendors • {benchmarks.length} benchmarked quotes • {currency}
+            </p>
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium max-w-md text-right leading-relaxed">
+            Composite score 0–100: {weightLabel}. Trend and lead-time components are relative to the vendors shown; lower values score higher.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="bg-slate-50/50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="px-4 py-3 w-8" />
+                {COLUMNS.map(col => (
+                  <th key={col.key} className={`px-4 py-3 ${col.align === 'right' ? 'text-right' : ''}`}>
+                    <button onClick={() => handleSort(col.key)} className={`inline-flex items-center gap-1 uppercase tracking-widest hover:text-indigo-600 transition-colors ${sortKey === col.key ? 'text-indigo-600' : ''}`}>
+                      {col.label} <ArrowUpDown className="w-3 h-3" />
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sorted.map(card => (
+                <React.Fragment key={card.vendor}>
+                  <tr className="hover:bg-indigo-50/20 cursor-pointer" onClick={() => setExpanded(v => v === card.vendor ? null : card.vendor)}>
+                    <td className="px-4 py-3 text-slate-400">
+                      {expanded === card.vendor ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-black text-slate-400">#{card.rank}</span>
+                        <span className={`px-2 py-0.5 rounded-md border text-[10px] font-black ${scoreColor(card.score)}`}>{card.score.toFixed(0)}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="text-xs font-black text-slate-800">{card.vendor}</div>
+                      <div className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">{card.countries.join(', ') || '—'} • {card.orders} orders</div>
+                    </td>
+                    <td className="px-4 py-3 text-xs font-black text-slate-800 text-right">{formatMoney(card.spend, currency)}</td>
+                    <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{card.partCount}</td>
+                    <td className={`px-4 py-3 text-xs font-bold text-right ${card.priceTrend === null ? 'text-slate-400' : card.priceTrend > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatTrend(card.priceTrend)}</td>
+                    <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{card.orders > 0 ? `${card.avgLeadTime.toFixed(1)}d` : '—'}</td>
+                    <td className="px-4 py-3 text-xs font-bold text-slate-600 text-right">{card.orders > 1 ? `${card.leadTimeStdDev.toFixed(1)}d` : '—'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {card.flaggedShare === null ? (
+                        <span className="text-xs font-bold text-slate-400">—</span>
+                      ) : (
+                        <>
+                          <div className="text-xs font-black text-slate-800">{(card.flaggedShare * 100).toFixed(0)}% of {card.benchmarked}</div>
+                          <div className="text-[9px] font-bold text-slate-400">
+                            <span className="text-amber-600">{card.flags.warning}W</span> • <span className="text-rose-600">{card.flags.critical}C</span> • <span className="text-violet-600">{card.flags.anomaly}A</span>
+                          </div>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === card.vendor && (
+                    <tr className="bg-slate-50/60">
+                      <td />
+                      <td colSpan={COLUMNS.length} className="px-4 py-4">
+                        {card.parts.length === 0 ? (
+                          <p className="text-[11px] font-medium text-slate-400 italic">No procurement history for this vendor; scored on benchmark results only.</p>
+                        ) : (
+                          <table className="w-full text-left bg-white rounded-xl border border-slate-100">
+                            <thead>
+                              <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                                <th className="px-3 py-2">Part</th>
+                                <th className="px-3 py-2">Country</th>
+                                <th className="px-3 py-2 text-right">Orders</th>
+                                <th className="px-3 py-2 text-right">Spend</th>
+                                <th className="px-3 py-2 text-right">Avg Price</th>
+                                <th className="px-3 py-2 text-right">Trend / yr</th>
+                                <th className="px-3 py-2 text-right">Avg Lead Time</th>
+                                <th className="px-3 py-2" />
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-50">
+                              {card.parts.map(part => (
+                                <tr key={`${part.partNumber}|${part.country}`}>
+                                  <td className="px-3 py-2 text-[11px] font-black text-slate-800">{part.partNumber}</td>
+                                  <td className="px-3 py-2 text-[11px] font-bold text-slate-500">{part.country}</td>
+                                  <td className="px-3 py-2 text-[11px] font-bold text-slate-600 text-right">{part.orders}</td>
+                                  <td className="px-3 py-2 text-[11px] font-bold text-slate-600 text-right">{formatMoney(part.spend, currency)}</td>
+                                  <td className="px-3 py-2 text-[11px] font-bold text-slate-600 text-right">{formatMoney(part.avgPrice, currency)}</td>
+                                  <td className={`px-3 py-2 text-[11px] font-bold text-right ${part.priceTrend === null ? 'text-slate-400' : part.priceTrend > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatTrend(part.priceTrend)}</td>
+                                  <td className="px-3 py-2 text-[11px] font-bold text-slate-600 text-right">{part.avgLeadTime.toFixed(1)}d</td>
+                                  <td className="px-3 py-2 text-right">
+                                    <button
+                                      onClick={() => onDrillDown({ partNumber: part.partNumber, vendor: card.vendor, country: part.country })}
+                                      className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all"
+                                    >
+                                      <ChartLine className="w-3 h-3" /> Trends
+                                    </button>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VendorScorecardPanel;
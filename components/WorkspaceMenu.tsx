@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Save, Copy, Trash2, RotateCcw, HardDrive, X, Download, Upload } from 'lucide-react';
+import { WorkspaceRecord, WorkspaceState } from '../types';
+import { listWorkspaces, createSnapshot, duplicateWorkspace, deleteWorkspace } from '../services/storageService';
+import { createBundle, downloadBundle, parseBundle, restoreWorkspaceRecord } from '../services/workspaceBundle';
+
+interface WorkspaceMenuProps {
+  getState: () => WorkspaceState;
+  onRestore: (state: WorkspaceState, name: string, upgradeNotes?: string[]) => void;
+  lastSavedAt: string | null;
+}
+
+const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({ getState, onRestore, lastSavedAt }) => {
+  const [open, setOpen] = useState(false);
+  const [records, setRecords] = useState<WorkspaceRecord[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [menuError, setMenuError] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setRecords(await listWorkspaces());
+      setMenuError(null);
+    } catch (err: any) {
+      setMenuError(err.message || "Could not read saved workspaces.");
+    }
+  };
+
+  const toggle = () => {
+    if (!open) refresh();
+    setOpen(!open);
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setMenuError(err.message || "Workspace operation failed.");
+    }
+  };
+
+  const handleSnapshot = () => run(async () => {
+    await createSnapshot(snapshotName, getState());
+    setSnapshotName('');
+  });
+
+  const handleDelete = (record: WorkspaceRecord) => {
+    if (!confirm(`Delete workspace "${record.name}"?`)) return;
+    run(() => deleteWorkspace(record.id));
+  };
+
+  const handleRestore = (record: WorkspaceRecord) => {
+    try {
+      const { state, notes } = restoreWorkspaceRecord(record);
+      onRestore(state, record.name, notes);
+      setOpen(false);
+    } catch (err: any) {
+      setMenuError(err.message || "Could not restore workspace.");
+    }
+  };
+
+  const handleExportCurrent = () => {
+    downloadBundle(createBundle(getState(), snapshotName.trim() || 'Current workspace'));
+  };
+
+  const handleImportBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bundle = parseBundle(await file.text());
+      onRestore(bundle.state, bundle.metadata?.name || file.name, bundle.upgradeNotes);
+      setOpen(false);
+    } catch (err: any) {
+      setMenuError(err.message || "Could not import workspace file.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${open ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-200'}`}
+      >
+        <FolderOpen className="w-3.5 h-3.5" /> Workspaces
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-2xl border border-slate-200 shadow-2xl z-50 animate-in fade-in duration-200">
+          <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+            <div>
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Workspace Storage</h4>
+              <p className="text-[9px] text-slate-400 font-medium mt-0.5 flex items-center gap-1">
+                <HardDrive className="w-3 h-3" /> {lastSavedAt ? `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Autosave pending'}
+              </p>
+            </div>
+            <button onClick={() => setOpen(false)} className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+
+          <div className="p-4 border-b border-slate-100 flex gap-2">
+            <input
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSnapshot()}
+              placeholder='Snapshot name, e.g. "Q3 negotiation round"'
+              className="flex-1 p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-[11px] font-medium outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button onClick={handleSnapshot} className="px-3 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 flex items-center gap-1.5">
+              <Save className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+
+          <div className="px-4 pt-3 flex gap-2">
+            <button onClick={handleExportCurrent} className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800">
+              <Download className="w-3.5 h-3.5" /> Export File
+            </button>
+            <button onClick={() => bundleInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:border-indigo-200">
+              <Upload className="w-3.5 h-3.5" /> Import File
+            </button>
+            <input ref={bundleInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportBundle} />
+          </div>
+
+          {menuError && <p className="px-4 pt-3 text-[10px] font-bold text-rose-600">{menuError}</p>}
+
+          <div className="max-h-80 overflow-y-auto divide-y divide-slate-50">
+            {records.length === 0 ? (
+              <p className="p-6 text-center text-[10px] font-bold uppercase tracking-widest text-slate-400">No saved workspaces</p>
+            ) : records.map(record => (
+              <div key={record.id} className="p-4 flex items-center justify-between gap-3 hover:bg-slate-50/50">
+                <div className="min-w-0">
+                  <div className="text-xs font-black text-slate-800 truncate">
+                    {record.name}
+                    {record.kind === 'autosave' && <span className="ml-2 text-[8px] font-black text-emerald-600 bg-emerald-50 px-1.5 py-0.5 rounded uppercase">Live</span>}
+                  </div>
+                  <div className="text-[9px] text-slate-400 font-bold mt-0.5">
+                    {new Date(record.updatedAt).toLocaleString()} • {record.state.data.length} rows • {record.state.allForecasts.length} models
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => handleRestore(record)} title="Restore" className="p-1.5 rounded-lg text-indigo-600 hover:bg-indigo-50"><RotateCcw className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => downloadBundle(createBundle(restoreWorkspaceRecord(record).state, record.name))} title="Export file" className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100"><Download className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => run(() => duplicateWorkspace(record.id))} title="Duplicate" className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100"><Copy className="w-3.5 h-3.5" /></button>
+                  {record.kind === 'snapshot' && (
+                    <button onClick={() => handleDelete(record)} title="Delete" className="p-1.5 rounded-lg text-rose-500 hover:bg-rose-50"><Trash2 className="w-3.5 h-3.5" /></button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceMenu;
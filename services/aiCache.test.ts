@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { fingerprintHistory, forecastCacheKey, commentCacheKey, sha256, browserAICache } from './aiCache';
+import { HistoricalData } from '../types';
+
+const combo = { partNumber: 'P1', vendor: 'V1', country: 'US' };
+const settings = { horizon: 6, granularity: 'monthly' as const };
+
+const rows: HistoricalData[] = [
+  { id: 'a', ...combo, usdPrice: 100, quantity: 10, leadTimeDays: 30, date: '2024-01-05' },
+  { id: 'b', ...combo, usdPrice: 104, quantity: 12, leadTimeDays: 28, date: '2024-02-05' }
+];
+
+describe('sha256', () => {
+  it('returns the hex digest', async () => {
+    expect(await sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('fingerprintHistory', () => {
+  it('ignores row order and fields the prompts do not use', async () => {
+    const reordered = [{ ...rows[1], id: 'x', currency: 'EUR' }, rows[0]];
+    expect(await fingerprintHistory(reordered)).toBe(await fingerprintHistory(rows));
+  });
+
+  it('changes with any value the prompts use', async () => {
+    const base = await fingerprintHistory(rows);
+    for (const change of [{ usdPrice: 105 }, { quantity: 11 }, { leadTimeDays: 29 }, { date: '2024-02-06' }]) {
+      expect(await fingerprintHistory([rows[0], { ...rows[1], ...change }])).not.toBe(base);
+    }
+  });
+});
+
+describe('forecastCacheKey', () => {
+  it('keeps every input that shapes the answer apart', async () => {
+    const fingerprint = await fingerprintHistory(rows);
+    const base = await forecastCacheKey(fingerprint, combo, 'forecast', 'gemini', 'm', settings);
+    expect(await forecastCacheKey(fingerprint, combo, 'forecast', 'gemini', 'm', settings)).toBe(base);
+    const variants = await Promise.all([
+      forecastCacheKey(fingerprint, combo, 'bulk-forecast', 'gemini', 'm', settings),
+      forecastCacheKey(fingerprint, { ...combo, vendor: 'V2' }, 'forecast', 'gemini', 'm', settings),
+      forecastCacheKey(fingerprint, combo, 'forecast', 'mock', 'm', settings),
+      forecastCacheKey(fingerprint, combo, 'forecast', 'gemini', 'other', settings),
+      forecastCacheKey(fingerprint, combo, 'forecast', 'gemini', 'm', { ...settings, horizon: 3 }),
+      forecastCacheKey(fingerprint, combo, 'forecast', 'gemini', 'm', { ...settings, granularity: 'weekly' }),
+      forecastCacheKey('other', combo, 'forecast', 'gemini', 'm', settings),
+      commentCacheKey(fingerprint, 'gemini', 'm')
+    ]);
+    expect(new Set([base, ...variants]).size).toBe(variants.length + 1);
+  });
+});
+
+describe('browserAICache', () => {
+  it('treats unavailable storage as a miss', async () => {
+    expect(await browserAICache.get('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { AICacheEntry, FilterState, ForecastSettings, HistoricalData } from '../types';
+import { AITask } from './aiProvider';
+import { getCacheEntry, putCacheEntry, listCacheEntries, deleteCacheEntries, clearCacheEntries } from './storageService';
+
+/**
+ * Persistent cache for AI responses.
+ * Keys hash everything the response depends on — the input history slice, the combination, the prompt
+ * (task), provider, model, settings and PROMPT_VERSION — so changed data never returns a stale answer.
+ */
+
+// Bump whenever a prompt or response schema changes so earlier responses are no longer reused
+export const PROMPT_VERSION = 3;
+
+export interface AICache {
+  get: (key: string) => Promise<AICacheEntry | undefined>;
+  put: (entry: AICacheEntry) => Promise<void>;
+}
+
+// Cache failures (e.g. private browsing without IndexedDB) degrade to a miss rather than failing the request
+export const browserAICache: AICache = {
+  get: key => getCacheEntry(key).catch(err => {
+    console.warn("AI cache read failed:", err);
+    return undefined;
+  }),
+  put: entry => putCacheEntry(entry).catch(err => console.warn("AI cache write failed:", err))
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256 = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const comboKey = (c: FilterState): string => `${c.partNumber}|${c.vendor}|${c.country}`;
+
+/**
+ * Fingerprint of one combination's history: only the fields the prompts use, in date order.
+ */
+export const fingerprintHistory = (records: HistoricalData[]): Promise<string> =>
+  sha256(JSON.stringify(
+    records
+      .map(r => [r.date, r.usdPrice, r.leadTimeDays, r.quantity])
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0])) || Number(a[1]) - Number(b[1]))
+  ));
+
+// Single and bulk forecasts use different prompts and context windows, so their answers are cached apart
+export const forecastCacheKey = (
+  fingerprint: string,
+  combo: FilterState,
+  task: AITask,
+  provider: string,
+  model: string,
+  settings: ForecastSettings
+): Promise<string> =>
+  sha256(JSON.stringify({
+    version: PROMPT_VERSION,
+    kind: 'forecast',
+    task,
+    combo: comboKey(combo),
+    provider,
+    model,
+    horizon: settings.horizon,
+    granularity: settings.granularity,
+    fingerprint
+  }));
+
+export const commentCacheKey = (fingerprint: string, provider: string, model: string): Promise<string> =>
+  sha256(JSON.stringify({ version: PROMPT_VERSION, kind: 'benchmark-comment', provider, model, fingerprint }));
+
+export interface CacheStats {
+  total: number;
+  forecasts: number;
+  comments: number;
+}
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const entries = await listCacheEntries();
+  return {
+    total: entries.length,
+    forecasts: entries.filter(e => e.kind === 'forecast').length,
+    comments: entries.filter(e => e.kind === 'benchmark-comment').length
+  };
+};
+
+/**
+ * Removes entries whose input no longer matches the current data: forecasts whose history fingerprint
+ * changed and anything cached for a combination that is no longer present. Returns the number removed.
+ */
+export const invalidateStaleEntries = async (data: HistoricalData[]): Promise<number> => {
+  const byCombo = new Map<string, HistoricalData[]>();
+  data.forEach(d => {
+    const key = comboKey(d);
+    if (!byCombo.has(key)) byCombo.set(key, []);
+    byCombo.get(key)!.push(d);
+  });
+  const fingerprints = new Map<string, string>();
+  for (const [key, records] of byCombo) fingerprints.set(key, await fingerprintHistory(records));
+
+  const entries = await listCacheEntries();
+  const stale = entries.filter(e => {
+    const current = fingerprints.get(comboKey(e));
+    if (current === undefined) return true;
+    return e.kind === 'forecast' && e.fingerprint !== current;
+  });
+  await deleteCacheEntries(stale.map(e => e.key));
+  return stale.length;
+};
+
+export const invalidateCombination = async (combo: FilterState): Promise<number> => {
+  const entries = (await listCacheEntries()).filter(e => comboKey(e) === comboKey(combo));
+  await deleteCacheEntries(entries.map(e => e.key));
+  return entries.length;
+};
+
+export const clearAICache = (): Promise<void> => clearCacheEntries();
@@ -0,0 +1,69 @@
+import { Schema } from "@google/genai";
+import { AIProviderId, AIProviderSettings } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+/**
+ * Transport layer for the AI features. Prompts, validation and retries live in geminiService;
+ * a provider only turns one request into the raw JSON text returned by its model.
+ */
+
+export type AITask = 'forecast' | 'bulk-forecast' | 'benchmark-commentary';
+
+export interface AIRequest {
+  task: AITask;
+  model: string;
+  systemInstruction: string;
+  contents: string;
+  payload: unknown; // Structured form of `contents`, used by the mock provider
+  responseSchema: Schema;
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  models: string[]; // Selectable forecasting models
+  commentaryModel: string; // Model used for benchmark commentary
+  generateJson: (request: AIRequest) => Promise<string | undefined>;
+}
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-Compatible / Self-Hosted',
+  mock: 'Mock (Deterministic Demo)'
+};
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: ''
+};
+
+const STORAGE_KEY = 'predictaprocure.aiProvider';
+
+// Provider settings are per browser rather than per workspace so API keys never end up in exported bundles
+export const loadAIProviderSettings = (): AIProviderSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_AI_PROVIDER_SETTINGS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const settings = { ...DEFAULT_AI_PROVIDER_SETTINGS, ...saved };
+    return settings.provider in AI_PROVIDER_LABELS ? settings : DEFAULT_AI_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_AI_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveAIProviderSettings = (settings: AIProviderSettings): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const createAIProvider = (settings: AIProviderSettings = DEFAULT_AI_PROVIDER_SETTINGS): AIProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible': return createOpenAICompatibleProvider(settings);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider();
+  }
+};
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { splitHoldout, scoreSeries, runBacktest, summarizeBacktest, recommendModelsByFamily, partFamily, BulkForecaster } from './backtestEngine';
+import { addPeriods } from './timeSeries';
+import { HistoricalData, FilterState, ForecastResult, BacktestResult } from '../types';
+
+const combo: FilterState = { partNumber: 'P1', vendor: 'V1', country: 'US' };
+
+const history = (months: number[], c: FilterState = combo): HistoricalData[] =>
+  months.map(m => ({
+    id: `${c.partNumber}-${m}`, ...c, usdPrice: 100 + m, quantity: 1, leadTimeDays: 30,
+    date: addPeriods('2024-01-01', m, 'monthly').replace(/01$/, '15')
+  }));
+
+// Predicts price 100 + m for month m, starting right after the last training month, like every engine does
+const trendForecaster = (): BulkForecaster => async (_model, training, combinations, onProgress, settings) =>
+  combinations.map((c, i) => {
+    onProgress(i + 1);
+    const rows = training.filter(r => r.partNumber === c.partNumber).sort((a, b) => a.date.localeCompare(b.date));
+    const last = rows[rows.length - 1].date.slice(0, 8) + '01';
+    const first = (Number(last.slice(0, 4)) - 2024) * 12 + Number(last.slice(5, 7)) - 1;
+    return {
+      ...c, granularity: settings.granularity,
+      forecast: Array.from({ length: settings.horizon }, (_, h) => ({
+        date: addPeriods(last, h + 1, 'monthly'), predictedPrice: 100 + first + h + 1, predictedLeadTime: 30,
+        confidenceIntervalUpper: 200, confidenceIntervalLower: 0
+      })),
+      summary: { avgPredictedPrice: 0, avgPredictedLeadTime: 30, priceTrend: 'up', leadTimeTrend: 'stable', optimizedOrderQuantity: 1 }
+    } as ForecastResult;
+  });
+
+describe('splitHoldout', () => {
+  it('holds out calendar periods, including empty ones', () => {
+    // Months 0–7, then nothing until month 10
+    const split = splitHoldout(history([0, 1, 2, 3, 4, 5, 6, 7, 10]), 3, 'monthly')!;
+    expect(split.actuals.map(a => a.period)).toEqual(['2024-11-01']);
+    expect(split.training).toHaveLength(8);
+    expect(split.horizon).toBe(3);
+  });
+
+  it('reaches over a gap right before the holdout', () => {
+    const split = splitHoldout(history([0, 1, 2, 3, 4, 5, 10, 11]), 2, 'monthly')!;
+    expect(split.actuals.map(a => a.period)).toEqual(['2024-11-01', '2024-12-01']);
+    expect(split.horizon).toBe(6);
+  });
+
+  it('needs enough periods with orders before the holdout', () => {
+    expect(splitHoldout(history([0, 1, 2, 3, 4, 5, 6]), 2, 'monthly')).toBeNull();
+    expect(splitHoldout(history([0, 1, 2, 3, 4, 5, 6, 7]), 2, 'monthly')).not.toBeNull();
+  });
+});
+
+describe('scoreSeries', () => {
+  it('computes MAPE, MAE, bias and interval coverage', () => {
+    const metrics = scoreSeries([
+      { actual: 100, predicted: 110, lower: 90, upper: 120 },
+      { actual: 200, predicted: 180, lower: 150, upper: 190 },
+      { actual: 0, predicted: 5 }
+    ]);
+    expect(metrics.mape).toBeCloseTo(10, 6);
+    expect(metrics.mae).toBeCloseTo(35 / 3, 6);
+    expect(metrics.bias).toBeCloseTo(-5 / 3, 6);
+    expect(metrics.coverage).toBe(0.5);
+    expect(metrics.points).toBe(3);
+  });
+});
+
+describe('runBacktest', () => {
+  it('scores each forecast only against the actuals of its own periods', async () => {
+    const data = history([0, 1, 2, 3, 4, 5, 6, 7, 10]);
+    const run = await runBacktest(data, [combo], ['m'], 3, 'monthly', trendForecaster(), () => {});
+    expect(run.results).toHaveLength(1);
+    expect(run.results[0].price).toMatchObject({ mape: 0, mae: 0, bias: 0, points: 1 });
+  });
+
+  it('skips forecasts that match no held-out period instead of pairing them by position', async () => {
+    const mislabelled: BulkForecaster = async (model, training, combinations, onProgress, settings) =>
+      (await trendForecaster()(model, training, combinations, onProgress, settings)).map(f => ({
+        ...f, forecast: f.forecast.map((p, i) => ({ ...p, date: `2030-0${i + 1}-01` }))
+      }));
+    const run = await runBacktest(history([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]), [combo], ['m'], 2, 'monthly', mislabelled, () => {});
+    expect(run.results).toEqual([]);
+    expect(run.unscored).toBe(1);
+  });
+
+  it('reports combinations without enough history and failing engines', async () => {
+    const other = { ...combo, partNumber: 'P2' };
+    const data = [...history([0, 1, 2, 3, 4, 5, 6, 7, 8]), ...history([0, 1], other)];
+    const failing: BulkForecaster = async () => { throw new Error('Provider down'); };
+    const run = await runBacktest(data, [combo, other], ['ok', 'broken'], 1, 'monthly',
+      (model, ...rest) => (model === 'broken' ? failing : trendForecaster())(model, ...rest), () => {});
+    expect(run.skipped).toEqual([other]);
+    expect(run.failures).toEqual([{ model: 'broken', message: 'Provider down' }]);
+    expect(run.results.map(r => r.model)).toEqual(['ok']);
+  });
+
+  it('rejects runs no combination can support', async () => {
+    await expect(runBacktest(history([0, 1, 2]), [combo], ['m'], 1, 'monthly', trendForecaster(), () => {})).rejects.toThrow('Insufficient Data');
+  });
+});
+
+describe('summaries', () => {
+  const result = (partNumber: string, model: string, mape: number, points: number = 1): BacktestResult => ({
+    partNumber, vendor: 'V1', country: 'US', model, holdoutPeriods: 1, granularity: 'monthly',
+    price: { mape, mae: mape, bias: 0, coverage: null, points },
+    leadTime: { mape: 0, mae: 0, bias: 0, coverage: null, points }
+  });
+
+  it('weights metrics by the number of scored points', () => {
+    const [summary] = summarizeBacktest([result('CHIP-1', 'a', 10, 1), result('CHIP-2', 'a', 40, 3)]);
+    expect(summary.price.mape).toBeCloseTo(32.5, 6);
+    expect(summary.combinations).toBe(2);
+  });
+
+  it('recommends the most accurate model per part family', () => {
+    const best = recommendModelsByFamily([result('CHIP-1', 'a', 10), result('CHIP-1', 'b', 5), result('BOLT-1', 'a', 1), result('BOLT-1', 'b', 2)]);
+    expect(best.map(s => [s.key, s.model]).sort()).toEqual([['BOLT', 'a'], ['CHIP', 'b']]);
+  });
+
+  it('takes the leading segment of the part number as its family', () => {
+    expect(partFamily('chip_m2')).toBe('CHIP');
+    expect(partFamily('X100')).toBe('X100');
+  });
+});
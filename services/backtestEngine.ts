@@ -0,0 +1,243 @@
+import { HistoricalData, FilterState, ForecastResult, ForecastPoint, ForecastSettings, ForecastGranularity, BacktestMetrics, BacktestResult } from '../types';
+import { GRANULARITY_LABELS, MAX_HORIZON, addPeriods, average, bucketByPeriod, periodStart } from './timeSeries';
+import { STORED_INTERVAL_LEVEL, priceInterval, leadTimeInterval } from './confidenceBands';
+
+/**
+ * Forecast backtesting.
+ * The last N calendar periods of every combination, at the workspace granularity, are held out; each engine forecasts
+ * them from the remaining history, and the forecasts are scored against the period averages that actually occurred.
+ * Forecast points and actuals are matched by period only, so gaps in the history never pair up different periods.
+ * Interval coverage is always measured at the stored 95% level so engines are compared on equal terms.
+ */
+
+export type BulkForecaster = (
+  model: string,
+  trainingData: HistoricalData[],
+  combinations: FilterState[],
+  onProgress: (index: number) => void,
+  settings: ForecastSettings
+) => Promise<ForecastResult[]>;
+
+export interface BacktestSummary {
+  key: string;
+  model: string;
+  combinations: number;
+  price: BacktestMetrics;
+  leadTime: BacktestMetrics;
+}
+
+export interface BacktestRun {
+  results: BacktestResult[];
+  skipped: FilterState[];
+  unscored: number; // Forecasts without a point in any held-out period that had orders
+  failures: { model: string, message: string }[];
+}
+
+export const MIN_TRAINING_PERIODS = 6;
+
+interface ActualPeriod {
+  period: string; // Period start
+  price: number;
+  leadTime: number;
+}
+
+const comboKey = (c: FilterState): string => `${c.partNumber}|${c.vendor}|${c.country}`;
+
+export interface HoldoutSplit {
+  training: HistoricalData[];
+  actuals: ActualPeriod[]; // Held-out periods that had orders
+  horizon: number; // Periods from the last training period to the end of the holdout
+}
+
+/**
+ * Holds out the last `holdoutPeriods` calendar periods of one combination, empty ones included.
+ * Returns null when fewer than MIN_TRAINING_PERIODS periods with orders precede the holdout, or when
+ * a gap before it would need a forecast longer than MAX_HORIZON to reach the held-out periods.
+ */
+export const splitHoldout = (records: HistoricalData[], holdoutPeriods: number, granularity: ForecastGranularity): HoldoutSplit | null => {
+  const buckets = bucketByPeriod(records, granularity);
+  if (buckets.length === 0) return null;
+  const last = buckets[buckets.length - 1].period;
+  const cutoff = addPeriods(last, 1 - holdoutPeriods, granularity);
+
+  const trainingBuckets = buckets.filter(b => b.period < cutoff);
+  if (trainingBuckets.length < MIN_TRAINING_PERIODS) return null;
+  let horizon = 0;
+  for (let key = trainingBuckets[trainingBuckets.length - 1].period; key < last; key = addPeriods(key, 1, granularity)) horizon++;
+  if (horizon > MAX_HORIZON) return null;
+
+  const actuals = buckets.filter(b => b.period >= cutoff).map(b => ({
+    period: b.period,
+    price: average(b.records.map(r => r.usdPrice)),
+    leadTime: average(b.records.map(r => r.leadTimeDays))
+  }));
+  return { training: trainingBuckets.flatMap(b => b.records), actuals, horizon };
+};
+
+export const scoreSeries = (pairs: { actual: number, predicted: number, lower?: number, upper?: number }[]): BacktestMetrics => {
+  const nonZero = pairs.filter(p => p.actual !== 0);
+  const withInterval = pairs.filter(p => p.lower !== undefined && p.upper !== undefined);
+  return {
+    mape: nonZero.length > 0 ? average(nonZero.map(p => Math.abs((p.actual - p.predicted) / p.actual))) * 100 : null,
+    mae: pairs.length > 0 ? average(pairs.map(p => Math.abs(p.actual - p.predicted))) : 0,
+    bias: pairs.length > 0 ? average(pairs.map(p => p.predicted - p.actual)) : 0,
+    coverage: withInterval.length > 0 ? withInterval.filter(p => p.actual >= p.lower! && p.actual <= p.upper!).length / withInterval.length : null,
+    points: pairs.length
+  };
+};
+
+// Strict period match: a forecast point only ever scores against the actual of its own period
+const alignForecast = (forecast: ForecastPoint[], actuals: ActualPeriod[], granularity: ForecastGranularity): { actual: ActualPeriod, point: ForecastPoint }[] => {
+  const byPeriod = new Map<string, ForecastPoint>();
+  forecast.forEach(p => {
+    if (!isNaN(new Date(p.date).getTime())) byPeriod.set(periodStart(p.date, granularity), p);
+  });
+  return actuals.filter(a => byPeriod.has(a.period)).map(actual => ({ actual, point: byPeriod.get(actual.period)! }));
+};
+
+/**
+ * Null when no forecast point falls in a held-out period with orders.
+ */
+export const scoreForecast = (
+  forecast: ForecastResult,
+  actuals: ActualPeriod[],
+  model: string,
+  holdoutPeriods: number,
+  granularity: ForecastGranularity
+): BacktestResult | null => {
+  const aligned = alignForecast(forecast.forecast, actuals, granularity);
+  if (aligned.length === 0) return null;
+  return {
+    partNumber: forecast.partNumber,
+    vendor: forecast.vendor,
+    country: forecast.country,
+    model,
+    holdoutPeriods,
+    granularity,
+    price: scoreSeries(aligned.map(({ actual, point }) => ({
+      actual: actual.price,
+      predicted: point.predictedPrice,
+      ...priceInterval(point, STORED_INTERVAL_LEVEL, forecast.intervalLevel)
+    }))),
+    leadTime: scoreSeries(aligned.map(({ actual, point }) => ({
+      actual: actual.leadTime,
+      predicted: point.predictedLeadTime,
+      ...leadTimeInterval(point, STORED_INTERVAL_LEVEL, forecast.intervalLevel)
+    })))
+  };
+};
+
+export const runBacktest = async (
+  data: HistoricalData[],
+  combinations: FilterState[],
+  models: string[],
+  holdoutPeriods: number,
+  granularity: ForecastGranularity,
+  forecaster: BulkForecaster,
+  onProgress: (completed: number, total: number) => void
+): Promise<BacktestRun> => {
+  if (models.length === 0) throw new Error("Invalid Input: Select at least one model to backtest.");
+  const unit = GRANULARITY_LABELS[granularity].unit;
+  if (!Number.isInteger(holdoutPeriods) || holdoutPeriods < 1) throw new Error(`Invalid Input: The holdout must be at least one ${unit}.`);
+
+  const actualsByCombo = new Map<string, ActualPeriod[]>();
+  const eligible: FilterState[] = [];
+  const skipped: FilterState[] = [];
+  const horizons: number[] = [];
+  let trainingData: HistoricalData[] = [];
+
+  combinations.forEach(combo => {
+    const records = data.filter(d => d.partNumber === combo.partNumber && d.vendor === combo.vendor && d.country === combo.country);
+    const split = splitHoldout(records, holdoutPeriods, granularity);
+    if (!split) {
+      skipped.push(combo);
+      return;
+    }
+    eligible.push(combo);
+    actualsByCombo.set(comboKey(combo), split.actuals);
+    horizons.push(split.horizon);
+    trainingData = trainingData.concat(split.training);
+  });
+
+  if (eligible.length === 0) {
+    throw new Error(`Insufficient Data: No combination has ${MIN_TRAINING_PERIODS} ${unit}s with orders before a ${holdoutPeriods}-${unit} holdout.`);
+  }
+
+  // Long enough for every combination's forecast to reach the end of its holdout, gaps before it included
+  const settings: ForecastSettings = { horizon: Math.max(...horizons), granularity };
+  const results: BacktestResult[] = [];
+  let unscored = 0;
+  const failures: { model: string, message: string }[] = [];
+  const total = eligible.length * models.length;
+
+  for (let m = 0; m < models.length; m++) {
+    const model = models[m];
+    try {
+      const forecasts = await forecaster(model, trainingData, eligible, index => onProgress(m * eligible.length + index, total), settings);
+      forecasts.forEach(f => {
+        const actuals = actualsByCombo.get(comboKey(f));
+        if (!actuals) return;
+        const result = scoreForecast(f, actuals, model, holdoutPeriods, granularity);
+        if (result) results.push(result);
+        else unscored++;
+      });
+    } catch (err: any) {
+      console.warn(`Backtest failed for model ${model}:`, err);
+      failures.push({ model, message: err?.message || "Unknown error." });
+    }
+    onProgress((m + 1) * eligible.length, total);
+  }
+
+  return { results, skipped, unscored, failures };
+};
+
+// Points-weighted average of per-combination metrics
+const combineMetrics = (metrics: BacktestMetrics[]): BacktestMetrics => {
+  const weighted = (pick: (m: BacktestMetrics) => number | null): number | null => {
+    const usable = metrics.filter(m => pick(m) !== null && m.points > 0);
+    const weight = usable.reduce((acc, m) => acc + m.points, 0);
+    return weight > 0 ? usable.reduce((acc, m) => acc + pick(m)! * m.points, 0) / weight : null;
+  };
+  return {
+    mape: weighted(m => m.mape),
+    mae: weighted(m => m.mae) ?? 0,
+    bias: weighted(m => m.bias) ?? 0,
+    coverage: weighted(m => m.coverage),
+    points: metrics.reduce((acc, m) => acc + m.points, 0)
+  };
+};
+
+/**
+ * Part family is the leading segment of the part number, e.g. "CHIP" for "CHIP-M2".
+ */
+export const partFamily = (partNumber: string): string => partNumber.split(/[-_\s.]/)[0].toUpperCase() || partNumber;
+
+export const summarizeBacktest = (results: BacktestResult[], groupBy: (r: BacktestResult) => string = () => 'All'): BacktestSummary[] => {
+  const groups = new Map<string, BacktestResult[]>();
+  results.forEach(r => {
+    const key = `${groupBy(r)}|${r.model}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(r);
+  });
+
+  return Array.from(groups.values()).map(items => ({
+    key: groupBy(items[0]),
+    model: items[0].model,
+    combinations: items.length,
+    price: combineMetrics(items.map(i => i.price)),
+    leadTime: combineMetrics(items.map(i => i.leadTime))
+  })).sort((a, b) => a.key.localeCompare(b.key) || (a.price.mape ?? Infinity) - (b.price.mape ?? Infinity));
+};
+
+/**
+ * Recommends the model with the lowest price MAPE (MAE when MAPE is unavailable) for each part family.
+ */
+export const recommendModelsByFamily = (results: BacktestResult[]): BacktestSummary[] => {
+  const best = new Map<string, BacktestSummary>();
+  summarizeBacktest(results, r => partFamily(r.partNumber)).forEach(s => {
+    const current = best.get(s.key);
+    const score = (x: BacktestSummary) => x.price.mape ?? x.price.mae;
+    if (!current || score(s) < score(current)) best.set(s.key, s);
+  });
+  return Array.from(best.values());
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildBaseline, classifyPrice, evaluateBenchmarks, hasBaseline } from './benchmarkEngine';
+import { Z_SCORES } from './confidenceBands';
+import { getStatisticalForecast } from './forecastEngine';
+import { ForecastResult, HistoricalData } from '../types';
+
+const forecast = (intervalLevel?: ForecastResult['intervalLevel']): ForecastResult => ({
+  partNumber: 'P1', vendor: 'V1', country: 'US', model: 'uploaded', granularity: 'monthly', intervalLevel,
+  forecast: [{ date: '2025-01-01', predictedPrice: 100, predictedLeadTime: 30, confidenceIntervalUpper: 120, confidenceIntervalLower: 80 }],
+  summary: { avgPredictedPrice: 100, avgPredictedLeadTime: 30, priceTrend: 'stable', leadTimeTrend: 'stable', optimizedOrderQuantity: 10 }
+});
+
+describe('classifyPrice', () => {
+  const baseline = buildBaseline(forecast(), 95)!;
+
+  it.each([
+    [79.99, 'anomaly'],
+    [80, 'favorable'],
+    [100, 'favorable'],
+    [100.01, 'warning'],
+    [119.99, 'warning'],
+    [120, 'critical'],
+    [150, 'critical']
+  ])('classifies %d against a 80–100–120 band as %s', (price, status) => {
+    expect(classifyPrice(price as number, baseline)).toBe(status);
+  });
+
+  it('widens the band at a higher confidence level', () => {
+    const wide = buildBaseline(forecast(), 99)!;
+    expect(wide.priceUpper).toBeCloseTo(100 + 20 * Z_SCORES[99] / Z_SCORES[95], 6);
+    expect(classifyPrice(125, baseline)).toBe('critical');
+    expect(classifyPrice(125, wide)).toBe('warning');
+  });
+
+  it('rescales from the level the interval was stored at', () => {
+    const storedAt90 = buildBaseline(forecast(90), 95)!;
+    expect(storedAt90.priceUpper).toBeCloseTo(100 + 20 * Z_SCORES[95] / Z_SCORES[90], 6);
+    expect(buildBaseline(forecast(90), 90)!.priceUpper).toBeCloseTo(120, 6);
+  });
+});
+
+describe('hasBaseline', () => {
+  it('is set only for quotes compared against a forecast', () => {
+    const [compared, uncompared] = evaluateBenchmarks([
+      { partNumber: 'P1', vendor: 'V1', country: 'US', proposedPrice: 95, proposedLeadTime: 30 },
+      { partNumber: 'P2', vendor: 'V1', country: 'US', proposedPrice: 95, proposedLeadTime: 30 }
+    ], [forecast()]);
+    expect(hasBaseline(compared)).toBe(true);
+    expect(hasBaseline(uncompared)).toBe(false);
+    expect(hasBaseline({ ...uncompared, comment: 'Rewritten by the AI' })).toBe(false);
+  });
+});
+
+describe('statistical forecast intervals', () => {
+  const history: HistoricalData[] = [100, 104, 99, 108, 103, 111, 106, 114].map((usdPrice, m) => ({
+    id: `r${m}`, partNumber: 'P1', vendor: 'V1', country: 'US', usdPrice, quantity: 10, leadTimeDays: 30 + (m % 3), date: `2024-0${m + 1}-01`
+  }));
+  const combo = { partNumber: 'P1', vendor: 'V1', country: 'US' };
+
+  it('stores intervals at the requested level', () => {
+    const result = getStatisticalForecast(history, combo, { horizon: 3, granularity: 'monthly' }, 90);
+    expect(result.intervalLevel).toBe(90);
+    result.forecast.forEach(p => {
+      expect(p.confidenceIntervalUpper - p.predictedPrice).toBeCloseTo(Z_SCORES[90] * p.priceStdDev!, 1);
+    });
+  });
+
+  it('produces the same baseline whatever level the forecast was run at', () => {
+    const at90 = getStatisticalForecast(history, combo, { horizon: 3, granularity: 'monthly' }, 90);
+    const at99 = getStatisticalForecast(history, combo, { horizon: 3, granularity: 'monthly' }, 99);
+    expect(buildBaseline(at90, 95)!.priceUpper).toBeCloseTo(buildBaseline(at99, 95)!.priceUpper, 6);
+  });
+});
@@ -0,0 +1,224 @@
+import { NegotiatedRate, ForecastResult, ForecastPoint, BenchmarkResult, BenchmarkStatus, ConfidenceLevel } from '../types';
+import { BASE_CURRENCY, formatMoney } from './currencyService';
+import { addPeriods, average, formatPeriodLabel } from './timeSeries';
+import { priceInterval, leadTimeInterval } from './confidenceBands';
+import { LandedCostModel, costBreakdown, forecastTco } from './landedCost';
+
+/**
+ * Deterministic implementation of the benchmark EVALUATION PROTOCOL.
+ * Statuses are computed here so every flag can be traced back to the baseline figures;
+ * the AI (when enabled) only contributes the narrative comment.
+ */
+
+export const NO_BASELINE_COMMENT = "No comparative baseline available";
+
+// Fallback lead-time band for forecast points that carry no lead-time interval
+const LEAD_TIME_ANOMALY_RATIO = 0.6;
+const LEAD_TIME_WARNING_RATIO = 1.2;
+
+export interface BenchmarkBaseline {
+  avgPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  avgLeadTime: number;
+  leadTimeLower: number;
+  leadTimeUpper: number;
+  periodFrom: string; // First and last forecast period the baseline was built from
+  periodTo: string;
+  periods: number;
+  note?: string; // Set when the quote window falls outside the forecast horizon
+  tco?: { lower: number, avg: number, upper: number }; // Price band costed on the default basis, when a landed-cost model is in use
+}
+
+// Only compared quotes carry a baseline window; the comment is no flag since AI commentary may replace it
+export const hasBaseline = (result: BenchmarkResult): boolean => !!result.baselineFrom;
+
+export const findBaselineForecast = (rate: NegotiatedRate, forecasts: ForecastResult[]): ForecastResult | undefined => {
+  return forecasts.find(f =>
+    f.partNumber === rate.partNumber &&
+    f.vendor === rate.vendor &&
+    f.country === rate.country
+  );
+};
+
+const toIsoDate = (date: string): string => {
+  const d = new Date(date);
+  return isNaN(d.getTime()) ? date : d.toISOString().split('T')[0];
+};
+
+/**
+ * Selects the forecast points whose periods overlap the quote's validity window.
+ * Undated quotes apply from the first forecast period; an open-ended window covers a single period.
+ * Windows entirely before or after the horizon fall back to the nearest period, with a note.
+ */
+export const selectBaselinePoints = (forecast: ForecastResult, rate: Pick<NegotiatedRate, 'effectiveFrom' | 'effectiveTo'>): { points: ForecastPoint[], note?: string } => {
+  // Uploaded forecasts may use any parseable date format; compare on ISO dates
+  const dated = forecast.forecast
+    .map(point => ({ point, start: toIsoDate(point.date) }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+  if (dated.length === 0) return { points: [] };
+  const granularity = forecast.granularity || 'monthly';
+  const from = rate.effectiveFrom || dated[0].start;
+  const to = rate.effectiveTo || from;
+
+  const overlapping = dated.filter(d => d.start <= to && addPeriods(d.start, 1, granularity) > from).map(d => d.point);
+  if (overlapping.length > 0) return { points: overlapping };
+  if (from > dated[dated.length - 1].start) {
+    return { points: [dated[dated.length - 1].point], note: 'Quote window is beyond the forecast horizon; compared against the last forecast period.' };
+  }
+  return { points: [dated[0].point], note: 'Quote window precedes the forecast; compared against the first forecast period.' };
+};
+
+export const buildBaseline = (
+  forecast: ForecastResult,
+  confidenceLevel: ConfidenceLevel = 95,
+  rate: Pick<NegotiatedRate, 'effectiveFrom' | 'effectiveTo'> = {}
+): BenchmarkBaseline | null => {
+  const { points, note } = selectBaselinePoints(forecast, rate);
+  if (points.length === 0) return null;
+
+  // Each point's band at the requested level is averaged over the window
+  const price = points.map(p => priceInterval(p, confidenceLevel, forecast.intervalLevel));
+  const leadTime = points.map(p => leadTimeInterval(p, confidenceLevel, forecast.intervalLevel)
+    ?? { lower: p.predictedLeadTime * LEAD_TIME_ANOMALY_RATIO, upper: p.predictedLeadTime * LEAD_TIME_WARNING_RATIO });
+
+  return {
+    avgPrice: average(points.map(p => p.predictedPrice)),
+    priceLower: average(price.map(p => p.lower)),
+    priceUpper: average(price.map(p => p.upper)),
+    avgLeadTime: average(points.map(p => p.predictedLeadTime)),
+    leadTimeLower: average(leadTime.map(l => l.lower)),
+    leadTimeUpper: average(leadTime.map(l => l.upper)),
+    periodFrom: toIsoDate(points[0].date),
+    periodTo: toIsoDate(points[points.length - 1].date),
+    periods: points.length,
+    note
+  };
+};
+
+export const describeBaselineWindow = (baseline: BenchmarkBaseline, forecast?: ForecastResult): string => {
+  const granularity = forecast?.granularity || 'monthly';
+  const from = formatPeriodLabel(baseline.periodFrom, granularity);
+  const to = formatPeriodLabel(baseline.periodTo, granularity);
+  return baseline.periods === 1 ? from : `${from}–${to}`;
+};
+
+export const classifyPrice = (price: number, baseline: BenchmarkBaseline): BenchmarkStatus => {
+  if (price < baseline.priceLower) return 'anomaly';
+  if (price <= baseline.avgPrice) return 'favorable';
+  if (price < baseline.priceUpper) return 'warning';
+  return 'critical';
+};
+
+export const classifyLeadTime = (leadTime: number, baseline: BenchmarkBaseline): BenchmarkStatus => {
+  if (leadTime < baseline.leadTimeLower) return 'anomaly';
+  if (leadTime <= baseline.avgLeadTime) return 'favorable';
+  if (leadTime <= baseline.leadTimeUpper) return 'warning';
+  return 'critical';
+};
+
+const describe = (label: string, status: BenchmarkStatus, proposed: string, reference: string): string => {
+  switch (status) {
+    case 'anomaly': return `${label} ${proposed} is below the expected range (${reference}); verify scope and feasibility.`;
+    case 'favorable': return `${label} ${proposed} is within the favorable range (${reference}).`;
+    case 'warning': return `${label} ${proposed} is above the baseline (${reference}); negotiate toward the average.`;
+    case 'critical': return `${label} ${proposed} exceeds the acceptable range (${reference}); escalate or seek alternatives.`;
+  }
+};
+
+export const buildRuleComment = (result: BenchmarkResult, baseline: BenchmarkBaseline, currency: string = BASE_CURRENCY, windowLabel?: string): string => {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const price = describe('Price', result.priceStatus, money(result.proposedPrice),
+    `${money(baseline.priceLower)}–${money(baseline.priceUpper)}, avg ${money(baseline.avgPrice)}`);
+  const leadTime = describe('Lead time', result.leadTimeStatus, `${result.proposedLeadTime}d`,
+    `${baseline.leadTimeLower.toFixed(0)}–${baseline.leadTimeUpper.toFixed(0)}d, avg ${baseline.avgLeadTime.toFixed(0)}d`);
+  const tco = baseline.tco && result.tcoStatus && result.tco !== undefined
+    ? ` ${describe('TCO', result.tcoStatus, money(result.tco), `${money(baseline.tco.lower)}–${money(baseline.tco.upper)}, avg ${money(baseline.tco.avg)}`)}`
+    : '';
+  const window = windowLabel ? ` Baseline: ${windowLabel} forecast (${baseline.periods} period${baseline.periods === 1 ? '' : 's'}).` : '';
+  return `${price} ${leadTime}${tco}${window}${baseline.note ? ` ${baseline.note}` : ''}`;
+};
+
+/**
+ * Costs the quote and the baseline band on a landed, payment-terms-adjusted basis.
+ * Forecasts are on the default Incoterm and terms, so the comparison isolates the quote's own terms.
+ */
+const applyLandedCost = (result: BenchmarkResult, baseline: BenchmarkBaseline, model: LandedCostModel): void => {
+  const quote = costBreakdown(result.proposedPrice, result, model);
+  const tcoOf = (price: number) => forecastTco(price, result, model);
+  baseline.tco = { lower: tcoOf(baseline.priceLower), avg: tcoOf(baseline.avgPrice), upper: tcoOf(baseline.priceUpper) };
+  result.landedCost = parseFloat(quote.landedCost.toFixed(2));
+  result.tco = parseFloat(quote.tco.toFixed(2));
+  result.baselineTco = parseFloat(baseline.tco.avg.toFixed(2));
+  result.tcoStatus = classifyPrice(quote.tco, { ...baseline, priceLower: baseline.tco.lower, avgPrice: baseline.tco.avg, priceUpper: baseline.tco.upper });
+};
+
+export const evaluateRate = (
+  rate: NegotiatedRate,
+  forecasts: ForecastResult[],
+  confidenceLevel: ConfidenceLevel = 95,
+  currency: string = BASE_CURRENCY,
+  costModel?: LandedCostModel
+): { result: BenchmarkResult, baseline: BenchmarkBaseline | null } => {
+  const forecast = findBaselineForecast(rate, forecasts);
+  if (!forecast) {
+    return {
+      baseline: null,
+      result: {
+        ...rate,
+        priceStatus: 'favorable',
+        leadTimeStatus: 'favorable',
+        confidenceMatch: false,
+        comment: NO_BASELINE_COMMENT
+      }
+    };
+  }
+
+  const baseline = buildBaseline(forecast, confidenceLevel, rate);
+  if (!baseline) {
+    return {
+      baseline: null,
+      result: { ...rate, priceStatus: 'favorable', leadTimeStatus: 'favorable', confidenceMatch: false, comment: NO_BASELINE_COMMENT }
+    };
+  }
+  const priceStatus = classifyPrice(rate.proposedPrice, baseline);
+  const leadTimeStatus = classifyLeadTime(rate.proposedLeadTime, baseline);
+  const result: BenchmarkResult = {
+    ...rate,
+    priceStatus,
+    leadTimeStatus,
+    // Both figures fall inside the confidence band of the baseline
+    confidenceMatch: priceStatus !== 'anomaly' && priceStatus !== 'critical' && leadTimeStatus !== 'anomaly' && leadTimeStatus !== 'critical',
+    comment: '',
+    baselineFrom: baseline.periodFrom,
+    baselineTo: baseline.periodTo
+  };
+  if (costModel) applyLandedCost(result, baseline, costModel);
+  result.comment = buildRuleComment(result, baseline, currency, describeBaselineWindow(baseline, forecast));
+  return { result, baseline };
+};
+
+export const evaluateBenchmarks = (
+  negotiated: NegotiatedRate[],
+  forecasts: ForecastResult[],
+  confidenceLevel: ConfidenceLevel = 95,
+  currency: string = BASE_CURRENCY,
+  costModel?: LandedCostModel
+): BenchmarkResult[] => {
+  if (negotiated.length === 0) throw new Error("Invalid Input: No negotiated rates provided for benchmarking.");
+  return negotiated.map(rate => evaluateRate(rate, forecasts, confidenceLevel, currency, costModel).result);
+};
+
+/**
+ * Re-derives statuses and rule comments for existing results at another confidence level, without an AI call.
+ * AI commentary quoted the previous bounds, so it is replaced by the rule-engine comment.
+ */
+export const reclassifyBenchmarks = (
+  benchmarks: BenchmarkResult[],
+  forecasts: ForecastResult[],
+  confidenceLevel: ConfidenceLevel,
+  currency: string = BASE_CURRENCY,
+  costModel?: LandedCostModel
+): BenchmarkResult[] =>
+  benchmarks.map(({ priceStatus, leadTimeStatus, confidenceMatch, comment, commentCachedAt, baselineFrom, baselineTo, landedCost, tco, baselineTco, tcoStatus, ...rate }) =>
+    evaluateRate(rate, forecasts, confidenceLevel, currency, costModel).result);
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { runPool, withRetry, clampConcurrency, isTransientError, isAuthError, backoffDelay, DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from './bulkRunner';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+const fastPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+describe('clampConcurrency', () => {
+  it('keeps the worker count within bounds', () => {
+    expect(clampConcurrency(0.2)).toBe(DEFAULT_CONCURRENCY);
+    expect(clampConcurrency(NaN)).toBe(DEFAULT_CONCURRENCY);
+    expect(clampConcurrency(50)).toBe(MAX_CONCURRENCY);
+    expect(clampConcurrency(2.4)).toBe(2);
+  });
+});
+
+describe('error classification', () => {
+  it('tells rate limits and outages from auth failures', () => {
+    expect(isTransientError(new Error('429 Too Many Requests'))).toBe(true);
+    expect(isTransientError(new Error('Model is overloaded'))).toBe(true);
+    expect(isTransientError(new Error('API key not valid'))).toBe(false);
+    expect(isAuthError(new Error('API key not valid'))).toBe(true);
+    expect(isAuthError(undefined)).toBe(false);
+  });
+
+  it('caps the backoff delay and keeps at least half of it', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 4000 };
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const cap = Math.min(4000, 1000 * 2 ** attempt);
+      const delay = backoffDelay(attempt, policy);
+      expect(delay).toBeGreaterThanOrEqual(cap / 2);
+      expect(delay).toBeLessThanOrEqual(cap);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors until the task succeeds', async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      if (++calls < 3) throw new Error('503 unavailable');
+      return 'ok';
+    }, undefined, fastPolicy);
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('fails fast on other errors and gives up after the retry limit', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => { calls++; throw new Error('API key not valid'); }, undefined, fastPolicy)).rejects.toThrow('API key');
+    expect(calls).toBe(1);
+    calls = 0;
+    await expect(withRetry(async () => { calls++; throw new Error('429'); }, undefined, fastPolicy)).rejects.toThrow('429');
+    expect(calls).toBe(fastPolicy.maxRetries + 1);
+  });
+});
+
+describe('runPool', () => {
+  it('runs every item with bounded parallelism', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runPool([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      peak = Math.max(peak, ++inFlight);
+      await tick();
+      inFlight--;
+      done.push(item);
+    });
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(peak).toBe(3);
+  });
+
+  it('stops taking items after the first failure and waits for the lanes in flight', async () => {
+    const started: number[] = [];
+    const finished: number[] = [];
+    const run = runPool([0, 1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      started.push(item);
+      await tick();
+      if (item === 1) throw new Error('API key not valid');
+      await tick();
+      finished.push(item);
+    });
+    await expect(run).rejects.toThrow('API key not valid');
+    expect(started).toEqual([0, 1, 2]);
+    // The other two lanes were mid-item when the error happened; they finish it but take nothing new
+    expect(finished.sort()).toEqual([0, 2]);
+  });
+
+  it('rethrows the first error when several lanes fail', async () => {
+    await expect(runPool([0, 1, 2], 3, async item => {
+      await tick();
+      throw new Error(`Item ${item} failed`);
+    })).rejects.toThrow('Item 0 failed');
+  });
+
+  it('skips items that have not started when the signal aborts', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    await runPool([0, 1, 2, 3, 4], 2, async item => {
+      started.push(item);
+      if (item === 1) controller.abort();
+      await tick();
+    }, controller.signal);
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Scheduling helpers for long-running AI batch work: bounded parallelism,
+ * exponential backoff with jitter on transient errors, and cooperative cancellation.
+ */
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
+export const DEFAULT_CONCURRENCY = 3;
+
+export const clampConcurrency = (value: number): number =>
+  Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, Math.round(value) || DEFAULT_CONCURRENCY));
+
+const errorText = (error: any): string => error?.message?.toLowerCase() || "";
+
+// Rate limits and temporary outages are worth waiting out; everything else fails fast
+export const isTransientError = (error: any): boolean => {
+  const msg = errorText(error);
+  return ["429", "quota", "rate limit", "503", "unavailable", "overloaded"].some(s => msg.includes(s));
+};
+
+export const isAuthError = (error: any): boolean => {
+  const msg = errorText(error);
+  return msg.includes("api key") || msg.includes("401") || msg.includes("403");
+};
+
+/**
+ * Exponential backoff with "equal jitter": half of the capped delay is fixed, the other half random,
+ * so parallel workers that hit a rate limit together do not retry in lockstep.
+ */
+export const backoffDelay = (attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number => {
+  const capped = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return capped / 2 + Math.random() * (capped / 2);
+};
+
+// Resolves after `ms`, or immediately once the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (!isTransientError(err) || attempt >= policy.maxRetries || signal?.aborted) throw err;
+      const delay = backoffDelay(attempt, policy);
+      console.warn(`Transient AI error, retrying in ${Math.round(delay)} ms (attempt ${attempt + 1}/${policy.maxRetries}):`, err);
+      await sleep(delay, signal);
+      if (signal?.aborted) throw err;
+    }
+  }
+};
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight. Items not yet started when the signal
+ * aborts are skipped. The first error a worker throws stops every lane from taking further items; it is
+ * rethrown once the items already in flight have settled, so nothing keeps running after the pool returns.
+ */
+export const runPool = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+  const lanes = Array.from({ length: Math.min(clampConcurrency(concurrency), items.length) }, async () => {
+    while (next < items.length && !failure && !signal?.aborted) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (err) {
+        failure = failure ?? { error: err };
+      }
+    }
+  });
+  await Promise.allSettled(lanes);
+  if (failure) throw failure.error;
+};
@@ -0,0 +1,169 @@
+import { DelimitedTable, parseDelimited } from './csvParser';
+import type { SheetText } from './excelService';
+
+/**
+ * Column mapping between source file headers and the canonical import fields.
+ * Mappings confirmed in the wizard are remembered per file layout (kind + header set)
+ * so recurring ERP exports only need to be mapped once.
+ */
+
+export type ImportKind = 'history' | 'negotiation' | 'forecast' | 'fx' | 'landedCost' | 'index';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];
+  numeric?: boolean; // Cells are checked for ambiguous thousands/decimal separators on import
+}
+
+// Field key -> source column index (null when unmapped)
+export type ColumnMapping = Record<string, number | null>;
+
+export interface PendingImport {
+  kind: ImportKind;
+  fileName: string;
+  text: string;
+  table: DelimitedTable;
+  mapping: ColumnMapping;
+  remembered: boolean;
+  sheets?: SheetText[]; // Present for workbook imports; the user picks which sheet to map
+  sheetName?: string;
+}
+
+const PART_ALIASES = ['partnumber', 'part', 'partno', 'sku', 'material', 'materialnumber', 'item', 'itemnumber'];
+const VENDOR_ALIASES = ['vendor', 'supplier', 'vendorname', 'suppliername'];
+const COUNTRY_ALIASES = ['country', 'origin', 'countryoforigin', 'sourcecountry'];
+const CURRENCY_ALIASES = ['currency', 'curr', 'ccy', 'currencycode', 'documentcurrency'];
+const CATEGORY_ALIASES = ['category', 'partcategory', 'commodity', 'materialgroup', 'productcategory'];
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  history: [
+    { key: 'partNumber', label: 'Part Number', required: true, aliases: PART_ALIASES },
+    { key: 'vendor', label: 'Vendor', required: true, aliases: VENDOR_ALIASES },
+    { key: 'country', label: 'Country', required: true, aliases: COUNTRY_ALIASES },
+    { key: 'usdPrice', label: 'Unit Price', required: true, aliases: ['usdpricing', 'usdprice', 'price', 'unitprice', 'netprice'], numeric: true },
+    { key: 'currency', label: 'Currency', required: false, aliases: CURRENCY_ALIASES },
+    { key: 'leadTimeDays', label: 'Lead Time (Days)', required: true, aliases: ['leadtimedays', 'leadtime', 'lt', 'deliverydays'], numeric: true },
+    { key: 'quantity', label: 'Quantity', required: false, aliases: ['quantity', 'qty', 'orderquantity', 'volume'], numeric: true },
+    { key: 'date', label: 'Date', required: false, aliases: ['date', 'orderdate', 'podate', 'documentdate'] },
+    { key: 'category', label: 'Category', required: false, aliases: CATEGORY_ALIASES }
+  ],
+  negotiation: [
+    { key: 'partNumber', label: 'Part Number', required: true, aliases: PART_ALIASES },
+    { key: 'vendor', label: 'Vendor', required: true, aliases: VENDOR_ALIASES },
+    { key: 'country', label: 'Country', required: true, aliases: COUNTRY_ALIASES },
+    { key: 'proposedPrice', label: 'Proposed Price', required: true, aliases: ['proposedprice', 'price', 'quotedprice', 'offerprice', 'unitprice'], numeric: true },
+    { key: 'currency', label: 'Currency', required: false, aliases: CURRENCY_ALIASES },
+    { key: 'proposedLeadTime', label: 'Proposed Lead Time', required: true, aliases: ['proposedleadtime', 'leadtime', 'leadtimedays', 'quotedleadtime'], numeric: true },
+    { key: 'effectiveFrom', label: 'Effective From', required: false, aliases: ['effectivefrom', 'effectivedate', 'validfrom', 'startdate', 'quotedate'] },
+    { key: 'effectiveTo', label: 'Effective To', required: false, aliases: ['effectiveto', 'validto', 'validuntil', 'expirydate', 'enddate'] },
+    { key: 'category', label: 'Category', required: false, aliases: CATEGORY_ALIASES },
+    { key: 'incoterm', label: 'Incoterm', required: false, aliases: ['incoterm', 'incoterms', 'deliveryterms', 'shippingterms'] },
+    { key: 'paymentTermsDays', label: 'Payment Terms (Days)', required: false, aliases: ['paymenttermsdays', 'paymentterms', 'termsdays', 'netdays', 'terms'], numeric: true }
+  ],
+  forecast: [
+    { key: 'partNumber', label: 'Part Number', required: true, aliases: PART_ALIASES },
+    { key: 'vendor', label: 'Vendor', required: true, aliases: VENDOR_ALIASES },
+    { key: 'country', label: 'Country', required: true, aliases: COUNTRY_ALIASES },
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'period', 'month'] },
+    { key: 'predictedPrice', label: 'Predicted Price', required: true, aliases: ['predictedprice', 'forecastprice', 'price'], numeric: true },
+    { key: 'currency', label: 'Currency', required: false, aliases: CURRENCY_ALIASES },
+    { key: 'predictedLeadTime', label: 'Predicted Lead Time', required: false, aliases: ['predictedleadtime', 'forecastleadtime', 'leadtime'], numeric: true },
+    { key: 'confidenceIntervalUpper', label: 'Confidence Upper', required: false, aliases: ['confidenceupper', 'upper', 'upperbound', 'high'], numeric: true },
+    { key: 'confidenceIntervalLower', label: 'Confidence Lower', required: false, aliases: ['confidencelower', 'lower', 'lowerbound', 'low'], numeric: true }
+  ],
+  fx: [
+    { key: 'month', label: 'Month', required: true, aliases: ['month', 'date', 'period'] },
+    { key: 'currency', label: 'Currency', required: true, aliases: CURRENCY_ALIASES },
+    { key: 'usdPerUnit', label: 'USD per Unit', required: true, aliases: ['usdperunit', 'usdrate', 'ratetousd', 'rate', 'fxrate'], numeric: true }
+  ],
+  landedCost: [
+    { key: 'country', label: 'Country', required: true, aliases: COUNTRY_ALIASES },
+    { key: 'category', label: 'Category', required: false, aliases: CATEGORY_ALIASES },
+    { key: 'freightPerUnit', label: 'Freight per Unit', required: true, aliases: ['freightperunit', 'freight', 'freightcost', 'shippingcost', 'logisticscost'], numeric: true },
+    { key: 'currency', label: 'Currency', required: false, aliases: CURRENCY_ALIASES },
+    { key: 'dutyRate', label: 'Duty Rate (%)', required: true, aliases: ['dutyrate', 'duty', 'tariff', 'tariffrate', 'dutypercent'], numeric: true }
+  ],
+  index: [
+    { key: 'index', label: 'Index', required: true, aliases: ['index', 'indexname', 'series', 'indicator', 'benchmark', 'commodity'] },
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'month', 'period'] },
+    { key: 'value', label: 'Value', required: true, aliases: ['value', 'indexvalue', 'level', 'close', 'price'], numeric: true }
+  ]
+};
+
+const STORAGE_KEY = 'predictaprocure.columnMappings';
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const layoutSignature = (kind: ImportKind, headers: string[]): string =>
+  `${kind}:${headers.map(normalizeHeader).join('|')}`;
+
+const readSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (kind: ImportKind, headers: string[]): ColumnMapping | null => {
+  if (typeof localStorage === 'undefined') return null;
+  return readSavedMappings()[layoutSignature(kind, headers)] || null;
+};
+
+export const saveMapping = (kind: ImportKind, headers: string[], mapping: ColumnMapping): void => {
+  if (typeof localStorage === 'undefined') return;
+  const saved = readSavedMappings();
+  saved[layoutSignature(kind, headers)] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+export const autoDetectMapping = (kind: ImportKind, headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  IMPORT_FIELDS[kind].forEach(field => {
+    // Aliases are ordered by preference, so the first alias that matches wins
+    let index = -1;
+    for (const alias of field.aliases) {
+      index = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (index >= 0) break;
+    }
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+};
+
+export const resolveMapping = (kind: ImportKind, headers: string[]): { mapping: ColumnMapping, remembered: boolean } => {
+  const saved = loadSavedMapping(kind, headers);
+  return saved ? { mapping: saved, remembered: true } : { mapping: autoDetectMapping(kind, headers), remembered: false };
+};
+
+export const missingRequiredFields = (kind: ImportKind, mapping: ColumnMapping): ImportField[] =>
+  IMPORT_FIELDS[kind].filter(f => f.required && (mapping[f.key] === null || mapping[f.key] === undefined));
+
+export const prepareImport = (kind: ImportKind, fileName: string, text: string): PendingImport => {
+  const table = parseDelimited(text);
+  const { mapping, remembered } = resolveMapping(kind, table.headers);
+  return { kind, fileName, text, table, mapping, remembered };
+};
+
+export const selectSheet = (pending: PendingImport, sheetName: string): PendingImport => {
+  const sheet = pending.sheets?.find(s => s.name === sheetName);
+  if (!sheet) return pending;
+  return { ...prepareImport(pending.kind, pending.fileName, sheet.text), sheets: pending.sheets, sheetName };
+};
+
+export const prepareImportFromFile = async (kind: ImportKind, file: File): Promise<PendingImport> => {
+  const { isExcelFile, readWorkbookSheets } = await import('./excelService');
+  if (!isExcelFile(file.name)) return prepareImport(kind, file.name, await file.text());
+
+  const sheets = await readWorkbookSheets(await file.arrayBuffer());
+  const first = sheets.find(s => s.text.trim()) || sheets[0];
+  if (!first) throw new Error(`Workbook "${file.name}" contains no sheets.`);
+  return selectSheet({ ...prepareImport(kind, file.name, ''), sheets }, first.name);
+};
@@ -0,0 +1,55 @@
+import { ConfidenceLevel, ForecastPoint, ForecastResult } from '../types';
+
+/**
+ * Forecast uncertainty at any supported confidence level.
+ * Points store their interval at the forecast's `intervalLevel` (95% by default); engines that estimate the predictive
+ * standard deviation also store it, so bands at other levels are exact rather than rescaled. Switching level never
+ * needs another forecast run.
+ */
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = [90, 95, 99];
+
+// Level at which confidenceIntervalUpper/Lower and leadTimeUpper/Lower are stored unless the forecast says otherwise
+export const STORED_INTERVAL_LEVEL: ConfidenceLevel = 95;
+
+export const Z_SCORES: Record<ConfidenceLevel, number> = { 90: 1.645, 95: 1.96, 99: 2.576 };
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+const band = (
+  predicted: number,
+  stdDev: number | undefined,
+  lower: number | undefined,
+  upper: number | undefined,
+  level: ConfidenceLevel,
+  storedLevel: ConfidenceLevel
+): Interval => {
+  const z = Z_SCORES[level];
+  if (stdDev !== undefined) {
+    return { lower: Math.max(0, predicted - z * stdDev), upper: predicted + z * stdDev };
+  }
+  // Without a standard deviation each half of the stored interval is rescaled by the z ratio, keeping any skew
+  const scale = z / Z_SCORES[storedLevel];
+  return {
+    lower: Math.max(0, predicted - Math.max(0, predicted - (lower ?? predicted)) * scale),
+    upper: predicted + Math.max(0, (upper ?? predicted) - predicted) * scale
+  };
+};
+
+export const priceInterval = (point: ForecastPoint, level: ConfidenceLevel, storedLevel: ConfidenceLevel = STORED_INTERVAL_LEVEL): Interval =>
+  band(point.predictedPrice, point.priceStdDev, point.confidenceIntervalLower, point.confidenceIntervalUpper, level, storedLevel);
+
+// Forecast files are always written and read at the stored level, whatever level the forecast was run at
+export const exportedPriceInterval = (point: ForecastPoint, forecast: Pick<ForecastResult, 'intervalLevel'>): Interval => {
+  const { lower, upper } = priceInterval(point, STORED_INTERVAL_LEVEL, forecast.intervalLevel);
+  return { lower: parseFloat(lower.toFixed(2)), upper: parseFloat(upper.toFixed(2)) };
+};
+
+// Null when the engine produced no lead-time uncertainty at all
+export const leadTimeInterval = (point: ForecastPoint, level: ConfidenceLevel, storedLevel: ConfidenceLevel = STORED_INTERVAL_LEVEL): Interval | null =>
+  point.leadTimeStdDev === undefined && (point.leadTimeLower === undefined || point.leadTimeUpper === undefined)
+    ? null
+    : band(point.predictedLeadTime, point.leadTimeStdDev, point.leadTimeLower, point.leadTimeUpper, level, storedLevel);
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseNumber, readNumber } from './csvParser';
+import { parseCSV, parseNegotiationCSV } from './dataService';
+
+describe('parseNumber', () => {
+  it.each([
+    ['1500', ',', 1500],
+    ['1.234,56', ',', 1234.56],
+    ['1,234.56', ',', 1234.56],
+    ['12,5', ',', 12.5],
+    ['1,234,567', ',', 1234567],
+    ['1.234.567', ',', 1234567],
+    ['$ 99.90', ',', 99.9],
+    ['-0,25', ',', -0.25],
+    ['1,500', ';', 1.5],
+    ['1,500', '\t', 1.5]
+  ])('reads %s in a "%s"-delimited file as %d', (raw, delimiter, expected) => {
+    expect(parseNumber(raw, delimiter)).toBe(expected);
+  });
+
+  it.each(['1,500', '$1,200', '-3,000'])('reports %s as ambiguous in comma-delimited files', raw => {
+    expect(readNumber(raw)).toEqual({ value: NaN, ambiguous: true });
+  });
+
+  it.each(['', 'abc', '1,2,3', '1.2,3.4', undefined])('rejects %s', raw => {
+    expect(readNumber(raw)).toEqual({ value: NaN, ambiguous: false });
+  });
+});
+
+describe('numeric import fields', () => {
+  it('rejects ambiguous quantities instead of guessing', () => {
+    const report = parseCSV('Part Number,Vendor,Country,Price,Lead Time,Quantity\nP1,V1,US,10,30,"1,500"\nP1,V1,US,10,30,1500');
+    expect(report.records.map(r => r.quantity)).toEqual([1500]);
+    expect(report.rejected).toHaveLength(1);
+    expect(report.rejected[0].reason).toContain('Ambiguous number "1,500" in Quantity');
+  });
+
+  it('reads decimal commas in semicolon-delimited files', () => {
+    const report = parseNegotiationCSV('Part Number;Vendor;Country;Proposed Price;Proposed Lead Time\nP1;V1;DE;1,200;14\nP2;V1;DE;1.234,56;14');
+    expect(report.rejected).toEqual([]);
+    expect(report.records.map(r => r.proposedPrice)).toEqual([1.2, 1234.56]);
+  });
+
+  it('reads thousands in quoted US amounts with a decimal part', () => {
+    const report = parseNegotiationCSV('Part Number,Vendor,Country,Proposed Price,Proposed Lead Time\nP1,V1,US,"$1,200.00",14');
+    expect(report.records[0].proposedPrice).toBe(1200);
+  });
+});
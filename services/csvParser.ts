@@ -0,0 +1,175 @@
+import { ImportRowError } from '../types';
+
+/**
+ * RFC 4180 delimited-text parser shared by every CSV import.
+ * Handles quoted fields (including embedded delimiters, escaped quotes and line breaks),
+ * CRLF/LF line endings, a leading BOM and comma/semicolon/tab/pipe delimiters.
+ */
+
+export interface DelimitedRow {
+  line: number; // 1-based line number where the row starts in the source file
+  values: string[];
+}
+
+export interface DelimitedTable {
+  delimiter: string;
+  headers: string[];
+  rows: DelimitedRow[];
+  errors: ImportRowError[];
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+  let best = ',';
+  counts.forEach((count, d) => { if (count > counts.get(best)!) best = d; });
+  return best;
+};
+
+export const parseDelimited = (text: string, delimiter?: string): DelimitedTable => {
+  const src = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+  const delim = delimiter || detectDelimiter(src);
+  const records: DelimitedRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endField = () => {
+    row.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    // Skip blank lines entirely
+    if (!(row.length === 1 && row[0] === '')) records.push({ line: rowStart, values: row });
+    row = [];
+    rowStart = line;
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (ch === '\r' && src[i + 1] === '\n') {
+        field += '\n';
+        i++;
+        line++;
+      } else {
+        if (ch === '\n' || ch === '\r') line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '' && !fieldWasQuoted) {
+      inQuotes = true;
+      fieldWasQuoted = true;
+      field = '';
+    } else if (ch === delim) {
+      endField();
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else if (fieldWasQuoted) {
+      // Characters after a closing quote are tolerated but only whitespace is dropped silently
+      if (ch.trim()) field += ch;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: rowStart, reason: 'Unterminated quoted field; the rest of the file was ignored.' });
+  } else if (field !== '' || fieldWasQuoted || row.length > 0) {
+    endRow();
+  }
+
+  const [headerRow, ...rows] = records;
+  return {
+    delimiter: delim,
+    headers: headerRow ? headerRow.values : [],
+    rows,
+    errors
+  };
+};
+
+// Files delimited by these marks come from locales that write decimal commas
+const DECIMAL_COMMA_DELIMITERS = [';', '\t'];
+
+export interface NumberReading {
+  value: number; // NaN when the cell is not a number or is ambiguous
+  ambiguous: boolean; // "1,500" in a comma-delimited file: a thousands separator or a decimal comma
+}
+
+/**
+ * Reads a numeric cell, tolerating currency symbols, thousands separators and decimal commas.
+ * When both marks appear the later one is the decimal mark. A single comma followed by exactly
+ * three digits is only read as a decimal comma in semicolon- or tab-delimited files; anywhere else
+ * it is reported as ambiguous rather than guessed.
+ */
+export const readNumber = (raw: string | undefined, delimiter: string = ','): NumberReading => {
+  const invalid = { value: NaN, ambiguous: false };
+  if (raw === undefined) return invalid;
+  let value = raw.trim().replace(/[$€£¥\s]/g, '');
+  if (!value) return invalid;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    if (lastComma > lastDot) {
+      if (!/^-?\d{1,3}(\.\d{3})+,\d+$/.test(value)) return invalid;
+      value = value.replace(/\./g, '').replace(',', '.');
+    } else {
+      if (!/^-?\d{1,3}(,\d{3})+\.\d+$/.test(value)) return invalid;
+      value = value.replace(/,/g, '');
+    }
+  } else if (lastComma !== -1) {
+    if (/^-?\d{1,3}(,\d{3}){2,}$/.test(value)) {
+      value = value.replace(/,/g, '');
+    } else if (/^-?\d+,\d+$/.test(value)) {
+      const decimals = value.length - lastComma - 1;
+      if (decimals === 3 && !DECIMAL_COMMA_DELIMITERS.includes(delimiter)) return { value: NaN, ambiguous: true };
+      value = value.replace(',', '.');
+    } else {
+      return invalid;
+    }
+  } else if (/^-?\d{1,3}(\.\d{3}){2,}$/.test(value)) {
+    value = value.replace(/\./g, '');
+  }
+  return /^-?\d*\.?\d+(e-?\d+)?$/i.test(value) ? { value: parseFloat(value), ambiguous: false } : invalid;
+};
+
+/**
+ * Parses a numeric cell (see readNumber). Returns NaN for anything that is not an unambiguous finite number.
+ */
+export const parseNumber = (raw: string | undefined, delimiter: string = ','): number => readNumber(raw, delimiter).value;
+
+export const toCSVField = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSVRow = (values: (string | number | boolean | null | undefined)[]): string => values.map(toCSVField).join(',');
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeCurrencyCode, findUsdRate, mergeFxRates, convertAmount, normalizeHistory, normalizeRates, normalizeForecasts, listCurrencies
+} from './currencyService';
+import { FxRate, ForecastResult, HistoricalData } from '../types';
+
+const fxRates: FxRate[] = [
+  { month: '2024-01', currency: 'EUR', usdPerUnit: 1.1 },
+  { month: '2024-03', currency: 'EUR', usdPerUnit: 1.2 },
+  { month: '2024-01', currency: 'GBP', usdPerUnit: 1.25 }
+];
+
+describe('normalizeCurrencyCode', () => {
+  it.each([
+    [' eur ', 'EUR'],
+    ['€', 'EUR'],
+    ['RMB', 'CNY'],
+    ['', 'USD'],
+    [undefined, 'USD']
+  ])('reads %s as %s', (raw, code) => {
+    expect(normalizeCurrencyCode(raw)).toBe(code);
+  });
+});
+
+describe('findUsdRate', () => {
+  it('uses the exact month, else the latest earlier one, else the earliest later one', () => {
+    expect(findUsdRate(fxRates, 'EUR', '2024-03')).toBe(1.2);
+    expect(findUsdRate(fxRates, 'EUR', '2024-02')).toBe(1.1);
+    expect(findUsdRate(fxRates, 'EUR', '2023-06')).toBe(1.1);
+    expect(findUsdRate(fxRates, 'EUR', '2025-01')).toBe(1.2);
+  });
+
+  it('needs no rate for USD and has none for unknown currencies', () => {
+    expect(findUsdRate([], 'USD', '2024-01')).toBe(1);
+    expect(findUsdRate(fxRates, 'JPY', '2024-01')).toBeNull();
+  });
+});
+
+describe('mergeFxRates', () => {
+  it('lets later uploads replace the same currency and month', () => {
+    const merged = mergeFxRates(fxRates, [{ month: '2024-01', currency: 'EUR', usdPerUnit: 1.05 }]);
+    expect(merged).toHaveLength(3);
+    expect(findUsdRate(merged, 'EUR', '2024-01')).toBe(1.05);
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts between two non-USD currencies through USD at the transaction month', () => {
+    expect(convertAmount(100, 'EUR', 'GBP', '2024-03-15', fxRates)).toBeCloseTo(96, 4);
+    expect(convertAmount(100, 'EUR', 'USD', '2024-01-15', fxRates)).toBeCloseTo(110, 4);
+  });
+
+  it('is null when a rate is missing', () => {
+    expect(convertAmount(100, 'JPY', 'USD', '2024-01-15', fxRates)).toBeNull();
+  });
+});
+
+describe('normalizeHistory', () => {
+  const row = (id: string, currency: string | undefined, price: number): HistoricalData =>
+    ({ id, partNumber: 'P1', vendor: 'V1', country: 'DE', usdPrice: price, currency, quantity: 1, leadTimeDays: 30, date: '2024-01-10' });
+
+  it('converts prices, keeps the original and excludes rows without a rate', () => {
+    const result = normalizeHistory([row('a', 'EUR', 100), row('b', 'JPY', 1000), row('c', undefined, 50)], fxRates, 'USD');
+    expect(result.records.map(r => [r.id, r.usdPrice, r.originalPrice, r.currency])).toEqual([['a', 110, 100, 'EUR'], ['c', 50, 50, 'USD']]);
+    expect(result.excluded).toBe(1);
+    expect(result.missingCurrencies).toEqual(['JPY']);
+  });
+
+  it('re-derives from the original price when the reporting currency changes', () => {
+    const [inUsd] = normalizeHistory([row('a', 'EUR', 100)], fxRates, 'USD').records;
+    const [inGbp] = normalizeHistory([inUsd], fxRates, 'GBP').records;
+    expect(inGbp.usdPrice).toBeCloseTo(88, 4);
+  });
+
+  it('reports a reporting currency without rates as missing', () => {
+    expect(normalizeHistory([row('a', 'EUR', 100)], fxRates, 'CHF').missingCurrencies).toEqual(['CHF']);
+  });
+});
+
+describe('normalizeRates', () => {
+  it('converts dated quotes at their effective-from month', () => {
+    const [rate] = normalizeRates([{ partNumber: 'P1', vendor: 'V1', country: 'DE', proposedPrice: 10, proposedLeadTime: 30, currency: 'EUR', effectiveFrom: '2024-03-01' }], fxRates, 'USD').records;
+    expect(rate.proposedPrice).toBeCloseTo(12, 4);
+    expect(rate.originalPrice).toBe(10);
+  });
+});
+
+describe('normalizeForecasts', () => {
+  const forecast = (currency?: string): ForecastResult => ({
+    partNumber: 'P1', vendor: 'V1', country: 'DE', model: 'uploaded', currency,
+    forecast: [
+      { date: '2024-01-01', predictedPrice: 100, predictedLeadTime: 30, confidenceIntervalUpper: 110, confidenceIntervalLower: 90 },
+      { date: '2024-03-01', predictedPrice: 100, predictedLeadTime: 30, confidenceIntervalUpper: 110, confidenceIntervalLower: 90 }
+    ],
+    summary: { avgPredictedPrice: 100, avgPredictedLeadTime: 30, priceTrend: 'stable', leadTimeTrend: 'stable', optimizedOrderQuantity: 1 }
+  });
+
+  it('converts every point at its own month and recomputes the average', () => {
+    const [result] = normalizeForecasts([forecast('EUR')], fxRates, 'USD').records;
+    expect(result.forecast.map(p => [p.predictedPrice, p.confidenceIntervalLower, p.confidenceIntervalUpper])).toEqual([[110, 99, 121], [120, 108, 132]]);
+    expect(result.summary.avgPredictedPrice).toBeCloseTo(115, 4);
+    expect(result.currency).toBe('EUR');
+  });
+
+  it('excludes forecasts in a currency without rates', () => {
+    const result = normalizeForecasts([forecast('JPY'), forecast()], fxRates, 'USD');
+    expect(result.records).toHaveLength(1);
+    expect(result.excluded).toBe(1);
+    expect(result.missingCurrencies).toEqual(['JPY']);
+  });
+});
+
+describe('listCurrencies', () => {
+  it('lists USD plus every currency in use or with rates', () => {
+    expect(listCurrencies([], [{ partNumber: 'P1', vendor: 'V1', country: 'CN', proposedPrice: 1, proposedLeadTime: 1, currency: '¥' }], fxRates))
+      .toEqual(['CNY', 'EUR', 'GBP', 'USD']);
+  });
+});
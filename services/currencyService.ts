@@ -0,0 +1,151 @@
+import { HistoricalData, NegotiatedRate, FxRate, LandedCostRule, ForecastResult } from '../types';
+
+/**
+ * Currency normalization.
+ * FX rates are stored as USD per unit by month; converting between any two currencies
+ * goes through USD using the rate for the transaction month (or the closest earlier month).
+ */
+
+export const BASE_CURRENCY = 'USD';
+
+export interface NormalizationResult<T> {
+  records: T[];
+  excluded: number;
+  missingCurrencies: string[];
+}
+
+export const normalizeCurrencyCode = (raw: string | undefined): string => {
+  const code = (raw || '').trim().toUpperCase();
+  const symbols: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'CNY', 'RMB': 'CNY' };
+  return symbols[code] || code || BASE_CURRENCY;
+};
+
+const toMonth = (date: string | undefined): string => {
+  const d = date ? new Date(date) : new Date();
+  return isNaN(d.getTime()) ? new Date().toISOString().slice(0, 7) : d.toISOString().slice(0, 7);
+};
+
+/**
+ * Rate lookup: exact month, else the latest earlier month, else the earliest later month.
+ */
+export const findUsdRate = (fxRates: FxRate[], currency: string, month: string): number | null => {
+  if (currency === BASE_CURRENCY) return 1;
+  const candidates = fxRates.filter(r => r.currency === currency).sort((a, b) => a.month.localeCompare(b.month));
+  if (candidates.length === 0) return null;
+  const earlier = candidates.filter(r => r.month <= month);
+  return earlier.length > 0 ? earlier[earlier.length - 1].usdPerUnit : candidates[0].usdPerUnit;
+};
+
+// Later uploads replace earlier rates for the same currency and month
+export const mergeFxRates = (existing: FxRate[], incoming: FxRate[]): FxRate[] => {
+  const byKey = new Map<string, FxRate>();
+  [...existing, ...incoming].forEach(r => byKey.set(`${r.currency}|${r.month}`, r));
+  return Array.from(byKey.values()).sort((a, b) => a.currency.localeCompare(b.currency) || a.month.localeCompare(b.month));
+};
+
+export const convertAmount = (amount: number, from: string, to: string, date: string | undefined, fxRates: FxRate[]): number | null => {
+  if (from === to) return amount;
+  const month = toMonth(date);
+  const fromUsd = findUsdRate(fxRates, from, month);
+  const toUsd = findUsdRate(fxRates, to, month);
+  if (fromUsd === null || toUsd === null || toUsd === 0) return null;
+  return parseFloat(((amount * fromUsd) / toUsd).toFixed(4));
+};
+
+const normalize = <T>(
+  items: T[],
+  read: (item: T) => { amount: number, currency: string, date?: string },
+  write: (item: T, converted: number, original: number, currency: string) => T,
+  fxRates: FxRate[],
+  reportingCurrency: string
+): NormalizationResult<T> => {
+  const missing = new Set<string>();
+  const records: T[] = [];
+  items.forEach(item => {
+    const { amount, currency, date } = read(item);
+    const converted = convertAmount(amount, currency, reportingCurrency, date, fxRates);
+    if (converted === null) {
+      const month = toMonth(date);
+      if (findUsdRate(fxRates, currency, month) === null) missing.add(currency);
+      if (findUsdRate(fxRates, reportingCurrency, month) === null) missing.add(reportingCurrency);
+      return;
+    }
+    records.push(write(item, converted, amount, currency));
+  });
+  return { records, excluded: items.length - records.length, missingCurrencies: Array.from(missing).sort() };
+};
+
+export const normalizeHistory = (data: HistoricalData[], fxRates: FxRate[], reportingCurrency: string): NormalizationResult<HistoricalData> =>
+  normalize(
+    data,
+    d => ({ amount: d.originalPrice ?? d.usdPrice, currency: normalizeCurrencyCode(d.currency), date: d.date }),
+    (d, converted, original, currency) => ({ ...d, usdPrice: converted, originalPrice: original, currency }),
+    fxRates,
+    reportingCurrency
+  );
+
+// Dated quotes convert at the rate for their effective-from month; undated quotes use the most recent rate
+export const normalizeRates = (rates: NegotiatedRate[], fxRates: FxRate[], reportingCurrency: string): NormalizationResult<NegotiatedRate> =>
+  normalize(
+    rates,
+    r => ({ amount: r.originalPrice ?? r.proposedPrice, currency: normalizeCurrencyCode(r.currency), date: r.effectiveFrom }),
+    (r, converted, original, currency) => ({ ...r, proposedPrice: converted, originalPrice: original, currency }),
+    fxRates,
+    reportingCurrency
+  );
+
+// Freight tables are current costs, so the most recent rate is applied
+export const normalizeLandedCostRules = (rules: LandedCostRule[], fxRates: FxRate[], reportingCurrency: string): NormalizationResult<LandedCostRule> =>
+  normalize(
+    rules,
+    r => ({ amount: r.originalFreight ?? r.freightPerUnit, currency: normalizeCurrencyCode(r.currency) }),
+    (r, converted, original, currency) => ({ ...r, freightPerUnit: converted, originalFreight: original, currency }),
+    fxRates,
+    reportingCurrency
+  );
+
+// Uploaded forecasts convert each point at the rate for its own period; `currency` keeps the uploaded code
+export const normalizeForecasts = (forecasts: ForecastResult[], fxRates: FxRate[], reportingCurrency: string): NormalizationResult<ForecastResult> => {
+  const missing = new Set<string>();
+  const records: ForecastResult[] = [];
+  forecasts.forEach(f => {
+    const currency = normalizeCurrencyCode(f.currency);
+    const month = toMonth(f.forecast[0]?.date);
+    const unconvertible = [currency, reportingCurrency].filter(c => findUsdRate(fxRates, c, month) === null);
+    if (unconvertible.length > 0) {
+      unconvertible.forEach(c => missing.add(c));
+      return;
+    }
+    const convert = (amount: number, date: string) => convertAmount(amount, currency, reportingCurrency, date, fxRates)!;
+    const points = f.forecast.map(p => ({
+      ...p,
+      predictedPrice: convert(p.predictedPrice, p.date),
+      confidenceIntervalUpper: convert(p.confidenceIntervalUpper, p.date),
+      confidenceIntervalLower: convert(p.confidenceIntervalLower, p.date),
+      priceStdDev: p.priceStdDev === undefined ? undefined : convert(p.priceStdDev, p.date)
+    }));
+    records.push({
+      ...f,
+      currency,
+      forecast: points,
+      summary: { ...f.summary, avgPredictedPrice: points.reduce((acc, p) => acc + p.predictedPrice, 0) / (points.length || 1) }
+    });
+  });
+  return { records, excluded: forecasts.length - records.length, missingCurrencies: Array.from(missing).sort() };
+};
+
+export const listCurrencies = (data: HistoricalData[], rates: NegotiatedRate[], fxRates: FxRate[]): string[] => {
+  const codes = new Set<string>([BASE_CURRENCY]);
+  data.forEach(d => codes.add(normalizeCurrencyCode(d.currency)));
+  rates.forEach(r => codes.add(normalizeCurrencyCode(r.currency)));
+  fxRates.forEach(r => codes.add(r.currency));
+  return Array.from(codes).sort();
+};
+
+export const formatMoney = (amount: number, currency: string = BASE_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
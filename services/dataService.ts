@@ -1,19 +1,9 @@
 
-import { HistoricalData, NegotiatedRate, ForecastResult, ForecastPoint } from '../types';
-
-export const cleanseOutliers = (data: HistoricalData[]): { cleansed: HistoricalData[], outlierCount: number } => {
-  if (data.length < 4) return { cleansed: data, outlierCount: 0 };
-
-  const values = data.map(d => d.usdPrice).sort((a, b) => a - b);
-  const q1 = values[Math.floor(values.length / 4)];
-  const q3 = values[Math.floor(values.length * (3 / 4))];
-  const iqr = q3 - q1;
-  const minBound = q1 - 1.5 * iqr;
-  const maxBound = q3 + 1.5 * iqr;
-
-  const cleansed = data.filter(d => d.usdPrice >= minBound && d.usdPrice <= maxBound);
-  return { cleansed, outlierCount: data.length - cleansed.length };
-};
+import { HistoricalData, NegotiatedRate, ForecastResult, FxRate, LandedCostRule, IndexPoint, ImportReport, ImportRowError } from '../types';
+import { parseDelimited, parseNumber, readNumber } from './csvParser';
+import { normalizeCurrencyCode } from './currencyService';
+import { ImportKind, ColumnMapping, IMPORT_FIELDS, resolveMapping, missingRequiredFields } from './columnMapping';
+import { normalizeIncoterm, MAX_PAYMENT_TERMS_DAYS } from './landedCost';
 
 export const generateSampleData = (count: number = 100): HistoricalData[] => {
   const parts = ['SKU-1001', 'SKU-2045', 'SKU-5098', 'CHIP-M2', 'BOLT-X9', 'SENSOR-A7', 'CABLE-CAT6'];
@@ -60,25 +50,62 @@ export const generateSampleData = (count: number = 100): HistoricalData[] => {
 };
 
 export const generateNegotiationSampleCSV = (): string => {
-  const headers = ['Part Number', 'Vendor', 'Country', 'Proposed Price', 'Proposed Lead Time'];
+  const headers = ['Part Number', 'Vendor', 'Country', 'Proposed Price', 'Proposed Lead Time', 'Effective From', 'Effective To', 'Incoterm', 'Payment Terms (Days)'];
+  const now = new Date();
+  const monthStart = (offset: number) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)).toISOString().split('T')[0];
   const samples = [
-    ['SKU-1001', 'GlobalLogistics Inc', 'USA', '145.00', '14'],
-    ['SKU-2045', 'AsiaDirect Mfg', 'China', '88.50', '35'],
-    ['CHIP-M2', 'TechSupply Co', 'Vietnam', '210.00', '21']
+    ['SKU-1001', 'GlobalLogistics Inc', 'USA', '145.00', '14', monthStart(1), monthStart(3), 'DAP', '30'],
+    ['SKU-2045', 'AsiaDirect Mfg', 'China', '88.50', '35', monthStart(6), monthStart(8), 'FOB', '60'],
+    ['CHIP-M2', 'TechSupply Co', 'Vietnam', '210.00', '21', '', '', '', '']
   ];
   return [headers.join(','), ...samples.map(r => r.join(','))].join('\n');
 };
 
 export const generateForecastTemplateCSV = (): string => {
-  const headers = ['Part Number', 'Vendor', 'Country', 'Date', 'Predicted Price', 'Predicted Lead Time', 'Confidence Upper', 'Confidence Lower'];
+  const headers = ['Part Number', 'Vendor', 'Country', 'Date', 'Predicted Price', 'Predicted Lead Time', 'Confidence Upper', 'Confidence Lower', 'Currency'];
   const sampleDate = new Date().toISOString().split('T')[0];
   const samples = [
-    ['SKU-1001', 'GlobalLogistics Inc', 'USA', sampleDate, '140.00', '15', '145.00', '135.00'],
-    ['SKU-2045', 'AsiaDirect Mfg', 'China', sampleDate, '90.00', '30', '95.00', '85.00']
+    ['SKU-1001', 'GlobalLogistics Inc', 'USA', sampleDate, '140.00', '15', '145.00', '135.00', 'USD'],
+    ['SKU-2045', 'AsiaDirect Mfg', 'China', sampleDate, '90.00', '30', '95.00', '85.00', 'USD']
   ];
   return [headers.join(','), ...samples.map(r => r.join(','))].join('\n');
 };
 
+export const generateFxTemplateCSV = (): string => {
+  const headers = ['Month', 'Currency', 'USD per Unit'];
+  const month = new Date().toISOString().slice(0, 7);
+  const samples = [
+    [month, 'EUR', '1.0850'],
+    [month, 'CNY', '0.1385'],
+    [month, 'MXN', '0.0585']
+  ];
+  return [headers.join(','), ...samples.map(r => r.join(','))].join('\n');
+};
+
+export const generateLandedCostTemplateCSV = (): string => {
+  const headers = ['Country', 'Category', 'Freight per Unit', 'Currency', 'Duty Rate (%)'];
+  const samples = [
+    ['China', '', '4.50', 'USD', '7.5'],
+    ['China', 'Electronics', '2.10', 'USD', '25'],
+    ['Vietnam', '', '3.80', 'USD', '0'],
+    ['Mexico', '', '1.20', 'USD', '0']
+  ];
+  return [headers.join(','), ...samples.map(r => r.join(','))].join('\n');
+};
+
+export const generateIndexTemplateCSV = (): string => {
+  const headers = ['Index', 'Date', 'Value'];
+  const now = new Date();
+  const monthStart = (offset: number) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1)).toISOString().split('T')[0];
+  const samples: string[][] = [];
+  // Twelve months of history followed by six months of projections
+  for (let offset = -12; offset < 6; offset++) {
+    samples.push(['LME Copper', monthStart(offset), (8500 + offset * 40).toFixed(0)]);
+    samples.push(['HRC Steel', monthStart(offset), (720 - offset * 3).toFixed(0)]);
+  }
+  return [headers.join(','), ...samples.map(r => r.join(','))].join('\n');
+};
+
 export const generateSampleCSV = (): string => {
   const data = generateSampleData(100);
   const headers = ['Part Number', 'Country', 'USD Pricing', 'Quantity', 'Lead Time (Days)', 'Vendor', 'Date'];
@@ -88,54 +115,136 @@ export const generateSampleCSV = (): string => {
   return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
 };
 
-export const parseNegotiationCSV = (csvText: string): NegotiatedRate[] => {
-  const lines = csvText.split('\n');
-  if (lines.length < 2) return [];
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-  return lines.slice(1).filter(l => l.trim()).map(line => {
-    const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-    const obj: any = {};
-    headers.forEach((header, i) => obj[header] = values[i]);
-    return {
-      partNumber: obj['part number'] || obj['partnumber'],
-      vendor: obj['vendor'],
-      country: obj['country'],
-      proposedPrice: parseFloat(obj['proposed price'] || obj['price'] || 0),
-      proposedLeadTime: parseInt(obj['proposed lead time'] || obj['lead time'] || 0)
-    };
+export const UPLOADED_FORECAST_MODEL = 'uploaded';
+
+type RowObject = Record<string, string | undefined>;
+
+/**
+ * Parses delimited text into row objects keyed by import field (see IMPORT_FIELDS),
+ * using the given column mapping or the remembered/auto-detected one for the header layout.
+ * Rows whose column count does not match the header and structural errors are appended to `rejected`.
+ */
+const readRows = (csvText: string, kind: ImportKind, mapping: ColumnMapping | undefined, rejected: ImportRowError[]): { line: number, obj: RowObject }[] => {
+  const table = parseDelimited(csvText);
+  rejected.push(...table.errors);
+  const columns = mapping || resolveMapping(kind, table.headers).mapping;
+
+  const unmapped = missingRequiredFields(kind, columns);
+  if (table.headers.length > 0 && unmapped.length > 0) {
+    rejected.push({ line: 1, reason: `Required column(s) not found: ${unmapped.map(f => f.label).join(', ')}.` });
+    return [];
+  }
+
+  const width = table.headers.length;
+  return table.rows.flatMap(row => {
+    const extra = row.values.slice(width).filter(v => v !== '');
+    if (row.values.length < width || extra.length > 0) {
+      rejected.push({ line: row.line, reason: `Expected ${width} columns but found ${row.values.length}.` });
+      return [];
+    }
+    const obj: RowObject = {};
+    Object.entries(columns).forEach(([key, index]) => {
+      const value = index === null ? undefined : row.values[index];
+      obj[key] = value === '' ? undefined : value;
+    });
+
+    // Numeric cells are rewritten in canonical form so the parsers need not know the file's locale
+    for (const field of IMPORT_FIELDS[kind]) {
+      if (!field.numeric || obj[field.key] === undefined) continue;
+      const reading = readNumber(obj[field.key], table.delimiter);
+      if (reading.ambiguous) {
+        rejected.push({ line: row.line, reason: `Ambiguous number "${obj[field.key]}" in ${field.label}: write thousands without a separator or use a decimal point.` });
+        return [];
+      }
+      if (Number.isFinite(reading.value)) obj[field.key] = String(reading.value);
+    }
+    return [{ line: row.line, obj }];
   });
 };
 
-export const parseForecastCSV = (csvText: string): ForecastResult[] => {
-  const lines = csvText.split('\n');
-  if (lines.length < 2) return [];
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-  
-  const rawPoints = lines.slice(1).filter(l => l.trim()).map(line => {
-    const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-    const obj: any = {};
-    headers.forEach((header, i) => obj[header] = values[i]);
-    return {
-      partNumber: obj['part number'] || obj['partnumber'],
-      vendor: obj['vendor'],
-      country: obj['country'],
-      date: obj['date'],
-      predictedPrice: parseFloat(obj['predicted price'] || 0),
-      predictedLeadTime: parseInt(obj['predicted lead time'] || 0),
-      confidenceIntervalUpper: parseFloat(obj['confidence upper'] || 0),
-      confidenceIntervalLower: parseFloat(obj['confidence lower'] || 0)
-    };
+const missingFields = (kind: ImportKind, obj: RowObject): string[] =>
+  IMPORT_FIELDS[kind].filter(f => f.required && !obj[f.key]).map(f => f.label);
+
+const isValidDate = (value: string): boolean => !isNaN(new Date(value).getTime());
+
+const toIsoDate = (value: string): string => new Date(value).toISOString().split('T')[0];
+
+export const parseNegotiationCSV = (csvText: string, mapping?: ColumnMapping): ImportReport<NegotiatedRate> => {
+  const rejected: ImportRowError[] = [];
+  const reject = (line: number, reason: string) => { rejected.push({ line, reason }); };
+  const rows = readRows(csvText, 'negotiation', mapping, rejected);
+  const records: NegotiatedRate[] = [];
+
+  rows.forEach(({ line, obj }) => {
+    const missing = missingFields('negotiation', obj);
+    if (missing.length > 0) return reject(line, `Missing required field(s): ${missing.join(', ')}.`);
+
+    const proposedPrice = parseNumber(obj.proposedPrice);
+    if (!(proposedPrice >= 0)) return reject(line, `Invalid proposed price "${obj.proposedPrice}".`);
+    const proposedLeadTime = parseNumber(obj.proposedLeadTime);
+    if (!(proposedLeadTime >= 0)) return reject(line, `Invalid proposed lead time "${obj.proposedLeadTime}".`);
+    if (obj.effectiveFrom && !isValidDate(obj.effectiveFrom)) return reject(line, `Invalid effective-from date "${obj.effectiveFrom}".`);
+    if (obj.effectiveTo && !isValidDate(obj.effectiveTo)) return reject(line, `Invalid effective-to date "${obj.effectiveTo}".`);
+    const effectiveFrom = obj.effectiveFrom ? toIsoDate(obj.effectiveFrom) : undefined;
+    const effectiveTo = obj.effectiveTo ? toIsoDate(obj.effectiveTo) : undefined;
+    if (effectiveFrom && effectiveTo && effectiveTo < effectiveFrom) return reject(line, `Effective-to date ${effectiveTo} is before effective-from date ${effectiveFrom}.`);
+    const incoterm = normalizeIncoterm(obj.incoterm);
+    if (obj.incoterm && !incoterm) return reject(line, `Unknown Incoterm "${obj.incoterm}".`);
+    const paymentTermsDays = obj.paymentTermsDays === undefined ? undefined : parseNumber(obj.paymentTermsDays.replace(/^net\s*/i, ''));
+    if (paymentTermsDays !== undefined && !(paymentTermsDays >= 0 && paymentTermsDays <= MAX_PAYMENT_TERMS_DAYS)) return reject(line, `Invalid payment terms "${obj.paymentTermsDays}".`);
+
+    records.push({
+      partNumber: obj.partNumber!,
+      vendor: obj.vendor!,
+      country: obj.country!,
+      proposedPrice,
+      proposedLeadTime: Math.round(proposedLeadTime),
+      originalPrice: proposedPrice,
+      currency: normalizeCurrencyCode(obj.currency),
+      effectiveFrom,
+      effectiveTo,
+      category: obj.category,
+      incoterm,
+      paymentTermsDays: paymentTermsDays === undefined ? undefined : Math.round(paymentTermsDays)
+    });
   });
 
+  return { records, totalRows: records.length + rejected.length, rejected: rejected.sort((a, b) => a.line - b.line) };
+};
+
+export const parseForecastCSV = (csvText: string, mapping?: ColumnMapping): ImportReport<ForecastResult> => {
+  const rejected: ImportRowError[] = [];
+  const reject = (line: number, reason: string) => { rejected.push({ line, reason }); };
+  const rows = readRows(csvText, 'forecast', mapping, rejected);
+  let acceptedRows = 0;
+
   // Group by Part-Vendor-Country
   const groups = new Map<string, ForecastResult>();
-  rawPoints.forEach(p => {
-    const key = `${p.partNumber}|${p.vendor}|${p.country}`;
-    if (!groups.has(key)) {
+  rows.forEach(({ line, obj }) => {
+    const missing = missingFields('forecast', obj);
+    if (missing.length > 0) return reject(line, `Missing required field(s): ${missing.join(', ')}.`);
+    const { partNumber, vendor, country, date } = obj;
+    if (!isValidDate(date!)) return reject(line, `Invalid date "${date}".`);
+
+    const predictedPrice = parseNumber(obj.predictedPrice);
+    if (!(predictedPrice >= 0)) return reject(line, `Invalid predicted price "${obj.predictedPrice}".`);
+    const predictedLeadTime = obj.predictedLeadTime === undefined ? 0 : parseNumber(obj.predictedLeadTime);
+    if (!(predictedLeadTime >= 0)) return reject(line, `Invalid predicted lead time "${obj.predictedLeadTime}".`);
+    const upper = obj.confidenceIntervalUpper === undefined ? predictedPrice : parseNumber(obj.confidenceIntervalUpper);
+    const lower = obj.confidenceIntervalLower === undefined ? predictedPrice : parseNumber(obj.confidenceIntervalLower);
+    if (isNaN(upper) || isNaN(lower)) return reject(line, 'Invalid confidence bound.');
+
+    const currency = normalizeCurrencyCode(obj.currency);
+    const key = `${partNumber}|${vendor}|${country}`;
+    const existing = groups.get(key);
+    if (existing && existing.currency !== currency) return reject(line, `Currency ${currency} differs from ${existing.currency} on earlier rows for this combination.`);
+    if (!existing) {
       groups.set(key, {
-        partNumber: p.partNumber,
-        vendor: p.vendor,
-        country: p.country,
+        partNumber: partNumber!,
+        vendor: vendor!,
+        country: country!,
+        model: UPLOADED_FORECAST_MODEL,
+        currency,
         forecast: [],
         summary: {
           avgPredictedPrice: 0,
@@ -146,18 +255,19 @@ export const parseForecastCSV = (csvText: string): ForecastResult[] => {
         }
       });
     }
-    const res = groups.get(key)!;
-    res.forecast.push({
-      date: p.date,
-      predictedPrice: p.predictedPrice,
-      predictedLeadTime: p.predictedLeadTime,
-      confidenceIntervalUpper: p.confidenceIntervalUpper,
-      confidenceIntervalLower: p.confidenceIntervalLower
+    groups.get(key)!.forecast.push({
+      date: date!,
+      predictedPrice,
+      predictedLeadTime,
+      confidenceIntervalUpper: upper,
+      confidenceIntervalLower: lower
     });
+    acceptedRows++;
   });
 
   // Calculate summaries for grouped items
   groups.forEach(res => {
+    res.forecast.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
     const prices = res.forecast.map(f => f.predictedPrice);
     const leadTimes = res.forecast.map(f => f.predictedLeadTime);
     res.summary.avgPredictedPrice = prices.reduce((a, b) => a + b, 0) / prices.length;
@@ -169,26 +279,113 @@ export const parseForecastCSV = (csvText: string): ForecastResult[] => {
     }
   });
 
-  return Array.from(groups.values());
+  return { records: Array.from(groups.values()), totalRows: acceptedRows + rejected.length, rejected: rejected.sort((a, b) => a.line - b.line) };
 };
 
-export const parseCSV = (csvText: string): HistoricalData[] => {
-  const lines = csvText.split('\n');
-  if (lines.length < 2) return [];
-  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[()]/g, ''));
-  return lines.slice(1).filter(l => l.trim()).map(line => {
-    const values = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-    const obj: any = {};
-    headers.forEach((header, i) => obj[header] = values[i]);
-    return {
+export const parseCSV = (csvText: string, mapping?: ColumnMapping): ImportReport<HistoricalData> => {
+  const rejected: ImportRowError[] = [];
+  const reject = (line: number, reason: string) => { rejected.push({ line, reason }); };
+  const rows = readRows(csvText, 'history', mapping, rejected);
+  const records: HistoricalData[] = [];
+
+  rows.forEach(({ line, obj }) => {
+    const missing = missingFields('history', obj);
+    if (missing.length > 0) return reject(line, `Missing required field(s): ${missing.join(', ')}.`);
+
+    const usdPrice = parseNumber(obj.usdPrice);
+    if (!(usdPrice >= 0)) return reject(line, `Invalid price "${obj.usdPrice}".`);
+    const leadTimeDays = parseNumber(obj.leadTimeDays);
+    if (!(leadTimeDays >= 0)) return reject(line, `Invalid lead time "${obj.leadTimeDays}".`);
+    const quantity = obj.quantity === undefined ? 0 : parseNumber(obj.quantity);
+    if (!(quantity >= 0)) return reject(line, `Invalid quantity "${obj.quantity}".`);
+    const date = obj.date;
+    if (date !== undefined && !isValidDate(date)) return reject(line, `Invalid date "${date}".`);
+
+    records.push({
       id: crypto.randomUUID(),
-      partNumber: obj['part number'] || obj['partnumber'] || obj['sku'],
-      country: obj['country'],
-      usdPrice: parseFloat(obj['usd pricing'] || obj['usd price'] || obj['price'] || 0),
-      quantity: parseInt(obj['quantity'] || obj['qty'] || 0),
-      leadTimeDays: parseInt(obj['lead time days'] || obj['lead time'] || obj['leadtime'] || 0),
-      vendor: obj['vendor'],
-      date: obj['date'] || new Date().toISOString()
-    } as HistoricalData;
+      partNumber: obj.partNumber!,
+      country: obj.country!,
+      usdPrice,
+      originalPrice: usdPrice,
+      currency: normalizeCurrencyCode(obj.currency),
+      quantity: Math.round(quantity),
+      leadTimeDays: Math.round(leadTimeDays),
+      vendor: obj.vendor!,
+      date: date || new Date().toISOString(),
+      category: obj.category
+    });
+  });
+
+  return { records, totalRows: records.length + rejected.length, rejected: rejected.sort((a, b) => a.line - b.line) };
+};
+
+export const parseFxRateCSV = (csvText: string, mapping?: ColumnMapping): ImportReport<FxRate> => {
+  const rejected: ImportRowError[] = [];
+  const reject = (line: number, reason: string) => { rejected.push({ line, reason }); };
+  const rows = readRows(csvText, 'fx', mapping, rejected);
+  const records: FxRate[] = [];
+
+  rows.forEach(({ line, obj }) => {
+    const missing = missingFields('fx', obj);
+    if (missing.length > 0) return reject(line, `Missing required field(s): ${missing.join(', ')}.`);
+
+    const month = /^\d{4}-\d{2}$/.test(obj.month!) ? obj.month! : (isValidDate(obj.month!) ? new Date(obj.month!).toISOString().slice(0, 7) : '');
+    if (!month) return reject(line, `Invalid month "${obj.month}".`);
+    const usdPerUnit = parseNumber(obj.usdPerUnit);
+    if (!(usdPerUnit > 0)) return reject(line, `Invalid FX rate "${obj.usdPerUnit}".`);
+
+    records.push({ month, currency: normalizeCurrencyCode(obj.currency), usdPerUnit });
+  });
+
+  return { records, totalRows: records.length + rejected.length, rejected: rejected.sort((a, b) => a.line - b.line) };
+};
+
+export const parseLandedCostCSV = (csvText: string, mapping?: ColumnMapping): ImportReport<LandedCostRule> => {
+  const rejected: ImportRowError[] = [];
+  const reject = (line: number, reason: string) => { rejected.push({ line, reason }); };
+  const rows = readRows(csvText, 'landedCost', mapping, rejected);
+  const records: LandedCostRule[] = [];
+
+  rows.forEach(({ line, obj }) => {
+    const missing = missingFields('landedCost', obj);
+    if (missing.length > 0) return reject(line, `Missing required field(s): ${missing.join(', ')}.`);
+
+    const freightPerUnit = parseNumber(obj.freightPerUnit);
+    if (!(freightPerUnit >= 0)) return reject(line, `Invalid freight cost "${obj.freightPerUnit}".`);
+    const dutyRate = parseNumber(obj.dutyRate!.replace('%', ''));
+    if (!(dutyRate >= 0 && dutyRate <= 100)) return reject(line, `Invalid duty rate "${obj.dutyRate}".`);
+
+    records.push({
+      country: obj.country!,
+      category: obj.category,
+      freightPerUnit,
+      originalFreight: freightPerUnit,
+      currency: normalizeCurrencyCode(obj.currency),
+      dutyRate
+    });
   });
+
+  return { records, totalRows: records.length + rejected.length, rejected: rejected.sort((a, b) => a.line - b.line) };
+};
+
+export const parseIndexCSV = (csvText: string, mapping?: ColumnMapping): ImportReport<IndexPoint> => {
+  const rejected: ImportRowError[] = [];
+  const reject = (line: number, reason: string) => { rejected.push({ line, reason }); };
+  const rows = readRows(csvText, 'index', mapping, rejected);
+  const records: IndexPoint[] = [];
+
+  rows.forEach(({ line, obj }) => {
+    const missing = missingFields('index', obj);
+    if (missing.length > 0) return reject(line, `Missing required field(s): ${missing.join(', ')}.`);
+
+    // Monthly series are often keyed by YYYY-MM
+    const date = /^\d{4}-\d{2}$/.test(obj.date!) ? `${obj.date}-01` : obj.date!;
+    if (!isValidDate(date)) return reject(line, `Invalid date "${obj.date}".`);
+    const value = parseNumber(obj.value);
+    if (!(value > 0)) return reject(line, `Invalid index value "${obj.value}".`);
+
+    records.push({ index: obj.index!.trim(), date: toIsoDate(date), value });
+  });
+
+  return { records, totalRows: records.length + rejected.length, rejected: rejected.sort((a, b) => a.line - b.line) };
 };
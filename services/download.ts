@@ -0,0 +1,19 @@
+/**
+ * Browser file downloads via a temporary object URL, released once the click has been dispatched.
+ */
+
+export const downloadBlob = (fileName: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.style.visibility = 'hidden';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (fileName: string, content: string, mime: string = 'text/csv;charset=utf-8;'): void =>
+  downloadBlob(fileName, new Blob([content], { type: mime }));
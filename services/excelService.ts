@@ -0,0 +1,227 @@
+import ExcelJS from 'exceljs';
+import { ForecastResult, BenchmarkResult, BenchmarkStatus } from '../types';
+import { toCSVRow } from './csvParser';
+import { downloadBlob } from './download';
+import { exportedPriceInterval } from './confidenceBands';
+import { AlternativeSource } from './sourcingEngine';
+import { SavingsLedgerEntry, SavingsGrouping, SAVINGS_GROUPING_LABELS, rollupSavings } from './savingsEngine';
+
+/**
+ * Excel (.xlsx) import and export.
+ * Imports are converted sheet-by-sheet into delimited text so they flow through the same
+ * column-mapping and validation pipeline as CSV files.
+ */
+
+export interface SheetText {
+  name: string;
+  text: string;
+}
+
+// Mirrors the Tailwind palette used by getStatusColorClass in App.tsx (50 background / 700 text)
+const STATUS_STYLES: Record<BenchmarkStatus, { fill: string, font: string }> = {
+  favorable: { fill: 'FFECFDF5', font: 'FF047857' },
+  warning: { fill: 'FFFFFBEB', font: 'FFB45309' },
+  critical: { fill: 'FFFFF1F2', font: 'FFBE123C' },
+  anomaly: { fill: 'FFF5F3FF', font: 'FF6D28D9' }
+};
+
+const HEADER_FILL = 'FFF8FAFC';
+const PRICE_FORMAT = '#,##0.00';
+const INVALID_SHEET_CHARS = /[\[\]:*?/\\]/g;
+
+export const isExcelFile = (fileName: string): boolean => /\.xlsx$/i.test(fileName);
+
+const cellToText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object') {
+    if ('result' in value) return cellToText(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map(r => r.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('error' in value) return '';
+  }
+  return String(value);
+};
+
+export const readWorkbookSheets = async (buffer: ArrayBuffer): Promise<SheetText[]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  return workbook.worksheets.map(sheet => {
+    const lines: string[] = [];
+    const width = sheet.columnCount;
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const values: string[] = [];
+      for (let c = 1; c <= width; c++) values.push(cellToText(row.getCell(c).value));
+      lines.push(toCSVRow(values));
+    });
+    return { name: sheet.name, text: lines.join('\n') };
+  });
+};
+
+const uniqueSheetName = (workbook: ExcelJS.Workbook, raw: string): string => {
+  const base = (raw.replace(INVALID_SHEET_CHARS, ' ').trim() || 'Sheet').slice(0, 28);
+  let name = base;
+  for (let i = 2; workbook.getWorksheet(name); i++) name = `${base} ${i}`;
+  return name;
+};
+
+const groupByVendor = <T extends { vendor: string }>(items: T[], splitByVendor: boolean, fallbackName: string): [string, T[]][] => {
+  if (!splitByVendor) return [[fallbackName, items]];
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    if (!groups.has(item.vendor)) groups.set(item.vendor, []);
+    groups.get(item.vendor)!.push(item);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+};
+
+const addSheet = (workbook: ExcelJS.Workbook, name: string, columns: Partial<ExcelJS.Column>[]): ExcelJS.Worksheet => {
+  const sheet = workbook.addWorksheet(uniqueSheetName(workbook, name), { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns;
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  return sheet;
+};
+
+const styleStatusCell = (cell: ExcelJS.Cell, status: BenchmarkStatus | null) => {
+  if (!status) return;
+  const style = STATUS_STYLES[status];
+  cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: style.fill } };
+  cell.font = { bold: true, color: { argb: style.font } };
+};
+
+export const buildForecastWorkbook = (forecasts: ForecastResult[], splitByVendor: boolean = false): ExcelJS.Workbook => {
+  const workbook = new ExcelJS.Workbook();
+  groupByVendor(forecasts, splitByVendor, 'Forecasts').forEach(([name, items]) => {
+    const sheet = addSheet(workbook, name, [
+      { header: 'Part Number', key: 'partNumber', width: 16 },
+      { header: 'Vendor', key: 'vendor', width: 24 },
+      { header: 'Country', key: 'country', width: 14 },
+      { header: 'Date', key: 'date', width: 12, style: { numFmt: 'yyyy-mm-dd' } },
+      { header: 'Predicted Price', key: 'predictedPrice', width: 16, style: { numFmt: PRICE_FORMAT } },
+      { header: 'Predicted Lead Time', key: 'predictedLeadTime', width: 20, style: { numFmt: '0.0' } },
+      { header: 'Confidence Upper', key: 'confidenceIntervalUpper', width: 18, style: { numFmt: PRICE_FORMAT } },
+      { header: 'Confidence Lower', key: 'confidenceIntervalLower', width: 18, style: { numFmt: PRICE_FORMAT } }
+    ]);
+    items.forEach(f => {
+      f.forecast.forEach(pt => {
+        const band = exportedPriceInterval(pt, f);
+        sheet.addRow({
+          partNumber: f.partNumber,
+          vendor: f.vendor,
+          country: f.country,
+          date: new Date(pt.date),
+          predictedPrice: pt.predictedPrice,
+          predictedLeadTime: pt.predictedLeadTime,
+          confidenceIntervalUpper: band.upper,
+          confidenceIntervalLower: band.lower
+        });
+      });
+    });
+  });
+  return workbook;
+};
+
+export const buildBenchmarkWorkbook = (
+  benchmarks: BenchmarkResult[],
+  splitByVendor: boolean = false,
+  isNoBaseline: (b: BenchmarkResult) => boolean = () => false,
+  alternativeFor: (b: BenchmarkResult) => AlternativeSource | undefined = () => undefined
+): ExcelJS.Workbook => {
+  const workbook = new ExcelJS.Workbook();
+  groupByVendor(benchmarks, splitByVendor, 'Benchmark').forEach(([name, items]) => {
+    const sheet = addSheet(workbook, name, [
+      { header: 'Part Number', key: 'partNumber', width: 16 },
+      { header: 'Vendor', key: 'vendor', width: 24 },
+      { header: 'Country', key: 'country', width: 14 },
+      { header: 'Proposed Price', key: 'proposedPrice', width: 16, style: { numFmt: PRICE_FORMAT } },
+      { header: 'Original Price', key: 'originalPrice', width: 16, style: { numFmt: PRICE_FORMAT } },
+      { header: 'Currency', key: 'currency', width: 10 },
+      { header: 'Proposed Lead Time', key: 'proposedLeadTime', width: 20, style: { numFmt: '0' } },
+      { header: 'Effective From', key: 'effectiveFrom', width: 14 },
+      { header: 'Effective To', key: 'effectiveTo', width: 14 },
+      { header: 'Baseline From', key: 'baselineFrom', width: 14 },
+      { header: 'Baseline To', key: 'baselineTo', width: 14 },
+      { header: 'Incoterm', key: 'incoterm', width: 10 },
+      { header: 'Payment Terms (Days)', key: 'paymentTermsDays', width: 20, style: { numFmt: '0' } },
+      { header: 'Landed Cost', key: 'landedCost', width: 16, style: { numFmt: PRICE_FORMAT } },
+      { header: 'TCO', key: 'tco', width: 16, style: { numFmt: PRICE_FORMAT } },
+      { header: 'Baseline TCO', key: 'baselineTco', width: 16, style: { numFmt: PRICE_FORMAT } },
+      { header: 'Price Status', key: 'priceStatus', width: 14 },
+      { header: 'Lead Time Status', key: 'leadTimeStatus', width: 16 },
+      { header: 'TCO Status', key: 'tcoStatus', width: 14 },
+      { header: 'Confidence Match', key: 'confidenceMatch', width: 18 },
+      { header: 'Comment', key: 'comment', width: 80, style: { alignment: { wrapText: true, vertical: 'top' } } },
+      { header: 'Alternative Source', key: 'alternativeSource', width: 28 },
+      { header: 'Est. Annual Savings', key: 'annualSavings', width: 20, style: { numFmt: PRICE_FORMAT } }
+    ]);
+    items.forEach(b => {
+      const alt = alternativeFor(b);
+      const row = sheet.addRow({
+        ...b,
+        alternativeSource: alt ? `${alt.alternative.vendor} (${alt.alternative.country})` : undefined,
+        annualSavings: alt?.annualSavings
+      });
+      const noBaseline = isNoBaseline(b);
+      styleStatusCell(row.getCell('proposedPrice'), noBaseline ? null : b.priceStatus);
+      styleStatusCell(row.getCell('priceStatus'), noBaseline ? null : b.priceStatus);
+      styleStatusCell(row.getCell('proposedLeadTime'), noBaseline ? null : b.leadTimeStatus);
+      styleStatusCell(row.getCell('leadTimeStatus'), noBaseline ? null : b.leadTimeStatus);
+      styleStatusCell(row.getCell('tco'), noBaseline ? null : b.tcoStatus ?? null);
+      styleStatusCell(row.getCell('tcoStatus'), noBaseline ? null : b.tcoStatus ?? null);
+    });
+  });
+  return workbook;
+};
+
+/**
+ * Savings ledger for finance: one row per quote, followed by roll-ups by vendor, country and part.
+ */
+export const buildSavingsWorkbook = (ledger: SavingsLedgerEntry[]): ExcelJS.Workbook => {
+  const workbook = new ExcelJS.Workbook();
+  const money = { numFmt: PRICE_FORMAT };
+  const sheet = addSheet(workbook, 'Savings Ledger', [
+    { header: 'Part Number', key: 'partNumber', width: 16 },
+    { header: 'Vendor', key: 'vendor', width: 24 },
+    { header: 'Country', key: 'country', width: 14 },
+    { header: 'Effective From', key: 'effectiveFrom', width: 14 },
+    { header: 'Effective To', key: 'effectiveTo', width: 14 },
+    { header: 'Price Status', key: 'priceStatus', width: 14 },
+    { header: 'Quoted Price', key: 'quotedPrice', width: 16, style: money },
+    { header: 'Last Paid Price', key: 'lastPaidPrice', width: 16, style: money },
+    { header: 'Last Paid Date', key: 'lastPaidDate', width: 14 },
+    { header: 'Baseline Price', key: 'baselinePrice', width: 16, style: money },
+    { header: 'Quantity', key: 'quantity', width: 12, style: { numFmt: '#,##0' } },
+    { header: 'Volume Basis', key: 'volumeBasis', width: 14 },
+    { header: 'Months Covered', key: 'volumeMonths', width: 16, style: { numFmt: '0.0' } },
+    { header: 'Spend', key: 'spend', width: 16, style: money },
+    { header: 'Savings', key: 'savings', width: 16, style: money },
+    { header: 'Cost Avoidance', key: 'costAvoidance', width: 16, style: money },
+    { header: 'Overspend', key: 'overspend', width: 16, style: money }
+  ]);
+  ledger.forEach(e => {
+    const row = sheet.addRow({ ...e, lastPaidPrice: e.lastPaidPrice ?? undefined, lastPaidDate: e.lastPaidDate ?? undefined, baselinePrice: e.baselinePrice ?? undefined });
+    styleStatusCell(row.getCell('priceStatus'), e.baselinePrice === null ? null : e.priceStatus);
+  });
+
+  (Object.keys(SAVINGS_GROUPING_LABELS) as SavingsGrouping[]).forEach(grouping => {
+    const rollup = addSheet(workbook, `By ${SAVINGS_GROUPING_LABELS[grouping]}`, [
+      { header: SAVINGS_GROUPING_LABELS[grouping], key: 'key', width: 24 },
+      { header: 'Quotes', key: 'quotes', width: 10 },
+      { header: 'Quantity', key: 'quantity', width: 12, style: { numFmt: '#,##0' } },
+      { header: 'Spend', key: 'spend', width: 16, style: money },
+      { header: 'Savings', key: 'savings', width: 16, style: money },
+      { header: 'Cost Avoidance', key: 'costAvoidance', width: 16, style: money },
+      { header: 'Overspend', key: 'overspend', width: 16, style: money }
+    ]);
+    rollupSavings(ledger, grouping).forEach(r => rollup.addRow(r));
+  });
+  return workbook;
+};
+
+export const downloadWorkbook = async (workbook: ExcelJS.Workbook, fileName: string): Promise<void> => {
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(fileName, new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { getStatisticalForecast, getBulkStatisticalForecasts, forecastDemand, extrapolateSeries, LOCAL_FORECAST_MODEL } from './forecastEngine';
+import { HistoricalData } from '../types';
+
+const combo = { partNumber: 'P1', vendor: 'V1', country: 'US' };
+
+const row = (date: string, usdPrice: number, quantity: number = 10): HistoricalData => ({
+  id: `${date}-${usdPrice}`, ...combo, usdPrice, quantity, leadTimeDays: 30, date
+});
+
+const monthly = (prices: number[], start: number = 2023): HistoricalData[] =>
+  prices.map((price, m) => row(new Date(Date.UTC(start, m, 10)).toISOString().slice(0, 10), price));
+
+describe('getStatisticalForecast', () => {
+  it('counts the minimum history in periods, not orders', () => {
+    const sameMonth = [row('2024-03-01', 100), row('2024-03-10', 102), row('2024-03-20', 98)];
+    expect(() => getStatisticalForecast(sameMonth, combo)).toThrow('Insufficient Data');
+  });
+
+  it('rejects a combination without history', () => {
+    expect(() => getStatisticalForecast(monthly([1, 2, 3]), { ...combo, vendor: 'V2' })).toThrow('Missing Historical Data');
+  });
+
+  it('continues a linear trend over the requested horizon', () => {
+    const result = getStatisticalForecast(monthly(Array.from({ length: 12 }, (_, m) => 100 + 2 * m)), combo, { horizon: 4, granularity: 'monthly' });
+    expect(result.model).toBe(LOCAL_FORECAST_MODEL);
+    expect(result.forecast.map(p => p.date)).toEqual(['2024-01-01', '2024-02-01', '2024-03-01', '2024-04-01']);
+    result.forecast.forEach((p, i) => expect(p.predictedPrice).toBeCloseTo(124 + 2 * i, 0));
+    expect(result.summary.priceTrend).toBe('up');
+    expect(result.summary.leadTimeTrend).toBe('stable');
+  });
+
+  it('widens the interval with the horizon and keeps it around the prediction', () => {
+    const result = getStatisticalForecast(monthly([100, 108, 97, 112, 103, 95, 110, 101, 106, 99]), combo, { horizon: 6, granularity: 'monthly' });
+    const widths = result.forecast.map(p => p.confidenceIntervalUpper - p.confidenceIntervalLower);
+    widths.slice(1).forEach((w, i) => expect(w).toBeGreaterThanOrEqual(widths[i]));
+    result.forecast.forEach(p => {
+      expect(p.confidenceIntervalLower).toBeLessThanOrEqual(p.predictedPrice);
+      expect(p.confidenceIntervalUpper).toBeGreaterThan(p.predictedPrice);
+    });
+  });
+
+  it('repeats the seasonal pattern once two full years exist', () => {
+    const season = [100, 110, 120, 130, 120, 110, 100, 90, 80, 70, 80, 90];
+    const result = getStatisticalForecast(monthly([...season, ...season]), combo, { horizon: 12, granularity: 'monthly' });
+    const predicted = result.forecast.map(p => p.predictedPrice);
+    expect(predicted.indexOf(Math.max(...predicted))).toBe(3);
+    expect(predicted.indexOf(Math.min(...predicted))).toBe(9);
+  });
+
+  it('is deterministic', () => {
+    const history = monthly([100, 104, 99, 108, 103, 111]);
+    expect(getStatisticalForecast(history, combo)).toEqual(getStatisticalForecast(history, combo));
+  });
+
+  it('dates quarterly forecasts at quarter starts', () => {
+    const result = getStatisticalForecast(monthly(Array.from({ length: 12 }, () => 50)), combo, { horizon: 3, granularity: 'quarterly' });
+    expect(result.granularity).toBe('quarterly');
+    expect(result.forecast.map(p => p.date)).toEqual(['2024-01-01', '2024-04-01', '2024-07-01']);
+  });
+});
+
+describe('getBulkStatisticalForecasts', () => {
+  it('skips combinations without enough history and reports progress for each', () => {
+    const progress: number[] = [];
+    const results = getBulkStatisticalForecasts(monthly([100, 101, 102, 103]), [combo, { ...combo, vendor: 'V2' }], i => progress.push(i));
+    expect(results.map(r => r.vendor)).toEqual(['V1']);
+    expect(progress).toEqual([1, 2]);
+  });
+
+  it('fails when no combination can be forecast', () => {
+    expect(() => getBulkStatisticalForecasts([], [combo], () => {})).toThrow('Bulk Analysis Failed');
+  });
+});
+
+describe('forecastDemand', () => {
+  it('counts months without orders as zero demand', () => {
+    const history = [row('2024-01-05', 10, 100), row('2024-03-05', 10, 100)];
+    const demand = forecastDemand(history, combo, { horizon: 3, granularity: 'monthly' })!;
+    expect(demand.historyPeriods).toBe(3);
+    expect(demand.perPeriod).toHaveLength(3);
+  });
+
+  it('projects the mean of very short histories', () => {
+    const demand = forecastDemand([row('2024-01-05', 10, 100), row('2024-02-05', 10, 50)], combo, { horizon: 3, granularity: 'monthly' })!;
+    expect(demand.perPeriod).toEqual([75, 75, 75]);
+    expect(demand.stdDev).toBeCloseTo(35.3553, 4);
+  });
+
+  it('is null without history', () => {
+    expect(forecastDemand([], combo)).toBeNull();
+  });
+});
+
+describe('extrapolateSeries', () => {
+  it('carries short series forward flat', () => {
+    expect(extrapolateSeries([5, 7], 3)).toEqual([7, 7, 7]);
+  });
+
+  it('extends a straight line', () => {
+    extrapolateSeries([10, 20, 30, 40, 50], 2).forEach((v, i) => expect(v).toBeCloseTo(60 + 10 * i, 6));
+  });
+});
@@ -0,0 +1,256 @@
+import { HistoricalData, FilterState, ForecastResult, ForecastPoint, ForecastSettings, ForecastGranularity, ConfidenceLevel } from '../types';
+import { DEFAULT_FORECAST_SETTINGS, SEASON_LENGTHS, addPeriods, bucketByPeriod, toPeriodSeries } from './timeSeries';
+import { STORED_INTERVAL_LEVEL, Z_SCORES } from './confidenceBands';
+
+/**
+ * Offline statistical forecasting engine.
+ * Uses additive Holt-Winters (level + linear trend + yearly seasonality at the chosen granularity)
+ * when at least two full seasons of history exist, and falls back to Holt's linear trend otherwise.
+ * Parameters are fitted by a fixed grid search, so identical inputs always produce identical output.
+ */
+
+export const LOCAL_FORECAST_MODEL = 'local-holt-winters' as const;
+
+const PARAM_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+// Trend smoothing is kept conservative so a single spike cannot dominate the slope
+const TREND_GRID = [0.05, 0.1, 0.2, 0.3];
+const TREND_TOLERANCE = 0.02;
+
+interface SmoothingFit {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  level: number;
+  trend: number;
+  seasonals: number[];
+  residualStd: number;
+}
+
+const fitSmoothing = (values: number[], alpha: number, beta: number, gamma: number, seasonLength: number): SmoothingFit & { sse: number } => {
+  const seasonal = seasonLength > 0;
+  let level: number;
+  let trend: number;
+  let seasonals: number[] = [];
+  let start: number;
+
+  if (seasonal) {
+    const firstSeason = values.slice(0, seasonLength);
+    const secondSeason = values.slice(seasonLength, seasonLength * 2);
+    const firstMean = firstSeason.reduce((a, b) => a + b, 0) / seasonLength;
+    const secondMean = secondSeason.reduce((a, b) => a + b, 0) / seasonLength;
+    level = firstMean;
+    trend = (secondMean - firstMean) / seasonLength;
+    seasonals = firstSeason.map(v => v - firstMean);
+    start = seasonLength;
+  } else {
+    level = values[0];
+    trend = values.length > 1 ? values[1] - values[0] : 0;
+    start = 1;
+  }
+
+  let sse = 0;
+  let count = 0;
+  for (let t = start; t < values.length; t++) {
+    const season = seasonal ? seasonals[t % seasonLength] : 0;
+    const predicted = level + trend + season;
+    const error = values[t] - predicted;
+    sse += error * error;
+    count++;
+
+    const prevLevel = level;
+    level = alpha * (values[t] - season) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    if (seasonal) seasonals[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * season;
+  }
+
+  return {
+    alpha, beta, gamma, level, trend, seasonals, sse,
+    residualStd: count > 1 ? Math.sqrt(sse / (count - 1)) : 0
+  };
+};
+
+const fitBest = (values: number[], seasonLength: number): SmoothingFit => {
+  const gammas = seasonLength > 0 ? PARAM_GRID : [0];
+  let best: (SmoothingFit & { sse: number }) | null = null;
+  PARAM_GRID.forEach(alpha => {
+    TREND_GRID.forEach(beta => {
+      gammas.forEach(gamma => {
+        const fit = fitSmoothing(values, alpha, beta, gamma, seasonLength);
+        if (!best || fit.sse < best.sse) best = fit;
+      });
+    });
+  });
+  return best!;
+};
+
+/**
+ * Projects a fitted model h steps ahead with prediction-interval half widths
+ * following the additive ETS variance approximation.
+ */
+const project = (fit: SmoothingFit, historyLength: number, seasonLength: number, horizon: number, level: ConfidenceLevel = STORED_INTERVAL_LEVEL) => {
+  const points: { mean: number, stdDev: number, halfWidth: number }[] = [];
+  let varianceFactor = 1;
+  for (let h = 1; h <= horizon; h++) {
+    if (h > 1) {
+      const j = h - 1;
+      const seasonalTerm = seasonLength > 0 && j % seasonLength === 0 ? fit.gamma : 0;
+      varianceFactor += Math.pow(fit.alpha * (1 + j * fit.beta) + seasonalTerm, 2);
+    }
+    const season = seasonLength > 0 ? fit.seasonals[(historyLength + h - 1) % seasonLength] : 0;
+    const stdDev = fit.residualStd * Math.sqrt(varianceFactor);
+    points.push({
+      mean: fit.level + h * fit.trend + season,
+      stdDev,
+      halfWidth: Z_SCORES[level] * stdDev
+    });
+  }
+  return points;
+};
+
+const detectTrend = (lastObserved: number, projected: number[]): 'up' | 'down' | 'stable' => {
+  if (projected.length === 0 || lastObserved === 0) return 'stable';
+  const avg = projected.reduce((a, b) => a + b, 0) / projected.length;
+  const change = (avg - lastObserved) / Math.abs(lastObserved);
+  return change > TREND_TOLERANCE ? 'up' : change < -TREND_TOLERANCE ? 'down' : 'stable';
+};
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+// Intervals are stored at `level`; the standard deviations keep bands at every other level exact
+export const getStatisticalForecast = (
+  historicalData: HistoricalData[],
+  filters: FilterState,
+  settings: ForecastSettings = DEFAULT_FORECAST_SETTINGS,
+  level: ConfidenceLevel = STORED_INTERVAL_LEVEL
+): ForecastResult => {
+  const { horizon, granularity } = settings;
+  const contextData = historicalData
+    .filter(d => d.partNumber === filters.partNumber && d.vendor === filters.vendor && d.country === filters.country);
+
+  if (contextData.length === 0) throw new Error("Missing Historical Data: No records found matching the selected filters.");
+
+  // Several orders in one period collapse to a single point, so the minimum is counted in periods
+  const priceSeries = toPeriodSeries(contextData, granularity, d => d.usdPrice);
+  if (priceSeries.values.length < 3) throw new Error("Insufficient Data: At least 3 historical points are required for a reliable statistical forecast.");
+  const leadTimeSeries = toPeriodSeries(contextData, granularity, d => d.leadTimeDays);
+  const seasonLength = priceSeries.values.length >= SEASON_LENGTHS[granularity] * 2 ? SEASON_LENGTHS[granularity] : 0;
+
+  const priceFit = fitBest(priceSeries.values, seasonLength);
+  const leadTimeFit = fitBest(leadTimeSeries.values, seasonLength);
+  const priceProjection = project(priceFit, priceSeries.values.length, seasonLength, horizon, level);
+  const leadTimeProjection = project(leadTimeFit, leadTimeSeries.values.length, seasonLength, horizon, level);
+
+  const lastKey = priceSeries.keys[priceSeries.keys.length - 1];
+  const forecast: ForecastPoint[] = priceProjection.map((p, i) => {
+    const predictedPrice = Math.max(0, p.mean);
+    const predictedLeadTime = Math.max(0, leadTimeProjection[i].mean);
+    return {
+      date: addPeriods(lastKey, i + 1, granularity),
+      predictedPrice: round(predictedPrice),
+      predictedLeadTime: round(predictedLeadTime, 1),
+      confidenceIntervalUpper: round(predictedPrice + p.halfWidth),
+      confidenceIntervalLower: round(Math.max(0, predictedPrice - p.halfWidth)),
+      leadTimeUpper: round(predictedLeadTime + leadTimeProjection[i].halfWidth, 1),
+      leadTimeLower: round(Math.max(0, predictedLeadTime - leadTimeProjection[i].halfWidth), 1),
+      priceStdDev: round(p.stdDev, 4),
+      leadTimeStdDev: round(leadTimeProjection[i].stdDev, 4)
+    };
+  });
+
+  const prices = forecast.map(f => f.predictedPrice);
+  const leadTimes = forecast.map(f => f.predictedLeadTime);
+  const avgQuantity = contextData.reduce((a, d) => a + d.quantity, 0) / contextData.length;
+
+  return {
+    partNumber: filters.partNumber,
+    vendor: filters.vendor,
+    country: filters.country,
+    model: LOCAL_FORECAST_MODEL,
+    granularity,
+    intervalLevel: level,
+    forecast,
+    summary: {
+      avgPredictedPrice: round(prices.reduce((a, b) => a + b, 0) / prices.length),
+      avgPredictedLeadTime: round(leadTimes.reduce((a, b) => a + b, 0) / leadTimes.length, 1),
+      priceTrend: detectTrend(priceSeries.values[priceSeries.values.length - 1], prices),
+      leadTimeTrend: detectTrend(leadTimeSeries.values[leadTimeSeries.values.length - 1], leadTimes),
+      // Without cost inputs the best deterministic proxy is the average historical order size
+      optimizedOrderQuantity: Math.round(avgQuantity)
+    }
+  };
+};
+
+export interface DemandForecast {
+  perPeriod: number[]; // Projected total quantity for each forecast period
+  stdDev: number; // One-period-ahead forecast error of the demand
+  granularity: ForecastGranularity;
+  historyPeriods: number;
+}
+
+/**
+ * Projects demand (total quantity per period) with the same smoothing models as price and lead time.
+ * Periods without orders count as zero demand rather than being interpolated.
+ */
+export const forecastDemand = (
+  historicalData: HistoricalData[],
+  filters: FilterState,
+  settings: ForecastSettings = DEFAULT_FORECAST_SETTINGS
+): DemandForecast | null => {
+  const { horizon, granularity } = settings;
+  const contextData = historicalData
+    .filter(d => d.partNumber === filters.partNumber && d.vendor === filters.vendor && d.country === filters.country);
+  if (contextData.length === 0) return null;
+
+  const totals = new Map(bucketByPeriod(contextData, granularity).map(b => [b.period, b.records.reduce((acc, r) => acc + r.quantity, 0)]));
+  const keys = Array.from(totals.keys());
+  const values: number[] = [];
+  for (let key = keys[0]; key <= keys[keys.length - 1]; key = addPeriods(key, 1, granularity)) values.push(totals.get(key) ?? 0);
+
+  if (values.length < 3) {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const stdDev = values.length > 1 ? Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1)) : 0;
+    return { perPeriod: Array(horizon).fill(round(mean)), stdDev: round(stdDev, 4), granularity, historyPeriods: values.length };
+  }
+
+  const seasonLength = values.length >= SEASON_LENGTHS[granularity] * 2 ? SEASON_LENGTHS[granularity] : 0;
+  const fit = fitBest(values, seasonLength);
+  return {
+    perPeriod: project(fit, values.length, seasonLength, horizon).map(p => round(Math.max(0, p.mean))),
+    stdDev: round(fit.residualStd, 4),
+    granularity,
+    historyPeriods: values.length
+  };
+};
+
+export const getBulkStatisticalForecasts = (
+  historicalData: HistoricalData[],
+  combinations: FilterState[],
+  onProgress: (index: number) => void,
+  settings: ForecastSettings = DEFAULT_FORECAST_SETTINGS,
+  level: ConfidenceLevel = STORED_INTERVAL_LEVEL
+): ForecastResult[] => {
+  const results: ForecastResult[] = [];
+  combinations.forEach((combo, i) => {
+    try {
+      results.push(getStatisticalForecast(historicalData, combo, settings, level));
+    } catch (err) {
+      console.warn(`Statistical forecast skipped for ${combo.partNumber}/${combo.vendor}/${combo.country}:`, err);
+    }
+    onProgress(i + 1);
+  });
+
+  if (results.length === 0 && combinations.length > 0) {
+    throw new Error("Bulk Analysis Failed: None of the requested combinations has enough history for a statistical forecast.");
+  }
+
+  return results;
+};
+
+/**
+ * Extends a plain, evenly spaced series `horizon` steps with the best non-seasonal smoothing fit.
+ * Series shorter than three points are carried forward flat.
+ */
+export const extrapolateSeries = (values: number[], horizon: number): number[] => {
+  if (values.length < 3) return Array(horizon).fill(values[values.length - 1]);
+  return project(fitBest(values, 0), values.length, 0, horizon).map(p => p.mean);
+};
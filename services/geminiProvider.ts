@@ -0,0 +1,25 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIProvider } from "./aiProvider";
+
+export const GEMINI_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-flash-lite-latest'];
+
+export const createGeminiProvider = (): AIProvider => ({
+  id: 'gemini',
+  models: GEMINI_MODELS,
+  commentaryModel: 'gemini-3-pro-preview', // Complex Text Task
+  generateJson: async ({ model, systemInstruction, contents, responseSchema, signal }) => {
+    // Fix: Always initialize GoogleGenAI per request to ensure the most up-to-date API key is used
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: {
+        abortSignal: signal,
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema
+      }
+    });
+    return response.text;
+  }
+});
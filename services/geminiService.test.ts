@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { getForecastFromAI, getBulkForecastsFromAI } from './geminiService';
+import { createMockProvider, MOCK_MODEL } from './mockProvider';
+import { AIProvider, AIRequest } from './aiProvider';
+import { AICache } from './aiCache';
+import { AICacheEntry, HistoricalData, FilterState, ValidationReport } from '../types';
+
+const combo: FilterState = { partNumber: 'P1', vendor: 'V1', country: 'US' };
+const other: FilterState = { ...combo, vendor: 'V2' };
+const settings = { horizon: 3, granularity: 'monthly' as const };
+
+const history = (c: FilterState = combo): HistoricalData[] =>
+  Array.from({ length: 6 }, (_, m) => ({
+    id: `${c.vendor}-${m}`, ...c, usdPrice: 100 + m, quantity: 10, leadTimeDays: 30,
+    date: new Date(Date.UTC(2024, m, 5)).toISOString().slice(0, 10)
+  }));
+
+const memoryCache = (): AICache & { entries: Map<string, AICacheEntry> } => {
+  const entries = new Map<string, AICacheEntry>();
+  return {
+    entries,
+    get: async key => entries.get(key),
+    put: async entry => { entries.set(entry.key, entry); }
+  };
+};
+
+// Mock provider that records every request and lets a test tamper with the response text
+const recordingProvider = (tamper: (text: string, request: AIRequest, call: number) => string = text => text) => {
+  const mock = createMockProvider();
+  const requests: AIRequest[] = [];
+  const provider: AIProvider = {
+    ...mock,
+    generateJson: async request => {
+      requests.push(request);
+      return tamper((await mock.generateJson(request))!, request, requests.length);
+    }
+  };
+  return { provider, requests };
+};
+
+describe('getForecastFromAI', () => {
+  it('returns a validated forecast for the requested periods', async () => {
+    const { provider } = recordingProvider();
+    const reports: ValidationReport[] = [];
+    const result = await getForecastFromAI(history(), combo, MOCK_MODEL, settings, r => reports.push(r), provider);
+    expect(result.model).toBe(MOCK_MODEL);
+    expect(result.forecast.map(p => p.date)).toEqual(['2024-07-01', '2024-08-01', '2024-09-01']);
+    expect(reports[0]).toMatchObject({ checked: 1, rejected: 0, issues: [] });
+  });
+
+  it('re-requests a rejected answer with the reasons attached', async () => {
+    const { provider, requests } = recordingProvider((text, _, call) => {
+      if (call > 1) return text;
+      const parsed = JSON.parse(text);
+      return JSON.stringify({ ...parsed, forecast: parsed.forecast.slice(0, 1) });
+    });
+    const reports: ValidationReport[] = [];
+    const result = await getForecastFromAI(history(), combo, MOCK_MODEL, settings, r => reports.push(r), provider);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].contents).toContain('Expected 3 forecast points, received 1.');
+    expect(result.forecast).toHaveLength(3);
+    expect(reports[0]).toMatchObject({ retried: 1, rejected: 0 });
+  });
+
+  it('repairs small defects without asking again', async () => {
+    const { provider, requests } = recordingProvider(text => JSON.stringify({ ...JSON.parse(text), summary: { avgPredictedPrice: -1 } }));
+    const reports: ValidationReport[] = [];
+    const result = await getForecastFromAI(history(), combo, MOCK_MODEL, settings, r => reports.push(r), provider);
+    expect(requests).toHaveLength(1);
+    expect(result.summary.optimizedOrderQuantity).toBe(10);
+    expect(reports[0].repaired).toBe(1);
+  });
+
+  it('fails after the repair attempt is also rejected', async () => {
+    const { provider, requests } = recordingProvider(() => 'not json');
+    await expect(getForecastFromAI(history(), combo, MOCK_MODEL, settings, undefined, provider)).rejects.toThrow('Invalid AI Response');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('answers from the cache until the history changes', async () => {
+    const { provider, requests } = recordingProvider();
+    const cache = memoryCache();
+    const first = await getForecastFromAI(history(), combo, MOCK_MODEL, settings, undefined, provider, cache);
+    const second = await getForecastFromAI(history(), combo, MOCK_MODEL, settings, undefined, provider, cache);
+    expect(requests).toHaveLength(1);
+    expect(second.forecast).toEqual(first.forecast);
+    expect(second.cachedAt).toBeDefined();
+
+    const changed = history().map((r, i) => i === 5 ? { ...r, usdPrice: 150 } : r);
+    await getForecastFromAI(changed, combo, MOCK_MODEL, settings, undefined, provider, cache);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('getBulkForecastsFromAI', () => {
+  const data = [...history(), ...history(other)];
+
+  it('forecasts every combination and reports those without history', async () => {
+    const { provider } = recordingProvider();
+    const missing = { ...combo, partNumber: 'P9' };
+    const progress: number[] = [];
+    const run = await getBulkForecastsFromAI(data, [combo, other, missing], i => progress.push(i), MOCK_MODEL, settings, undefined, { provider });
+    expect(run.results.map(r => r.vendor).sort()).toEqual(['V1', 'V2']);
+    expect(run.failures.map(f => f.partNumber)).toEqual(['P9']);
+    expect(run.remaining).toEqual([]);
+    expect(progress).toEqual([3]);
+  });
+
+  it('re-requests only the items that failed validation', async () => {
+    const { provider, requests } = recordingProvider((text, _, call) =>
+      call > 1 ? text : JSON.stringify(JSON.parse(text).filter((item: FilterState) => item.vendor !== 'V2')));
+    const reports: ValidationReport[] = [];
+    const run = await getBulkForecastsFromAI(data, [combo, other], () => {}, MOCK_MODEL, settings, r => reports.push(r), { provider });
+    expect(requests).toHaveLength(2);
+    expect((requests[1].payload as { combo: FilterState }[]).map(p => p.combo)).toEqual([other]);
+    expect(run.results).toHaveLength(2);
+    expect(reports[0]).toMatchObject({ retried: 1, rejected: 0 });
+  });
+
+  it('settles cached combinations without sending them to the model', async () => {
+    const cache = memoryCache();
+    await getBulkForecastsFromAI(data, [combo], () => {}, MOCK_MODEL, settings, undefined, { provider: recordingProvider().provider, cache });
+    const { provider, requests } = recordingProvider();
+    const run = await getBulkForecastsFromAI(data, [combo, other], () => {}, MOCK_MODEL, settings, undefined, { provider, cache });
+    expect((requests[0].payload as { combo: FilterState }[]).map(p => p.combo)).toEqual([other]);
+    expect(run.results.find(r => r.vendor === 'V1')!.cachedAt).toBeDefined();
+    expect(cache.entries.size).toBe(2);
+  });
+});
@@ -1,37 +1,156 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { HistoricalData, ForecastResult, NegotiatedRate, BenchmarkResult, ConfidenceLevel, FilterState } from "../types";
+import { Type, Schema } from "@google/genai";
+import { HistoricalData, ForecastResult, NegotiatedRate, BenchmarkResult, ConfidenceLevel, FilterState, ForecastGranularity, ForecastSettings, ValidationIssue, ValidationReport, BulkForecastFailure } from "../types";
+import { evaluateRate } from "./benchmarkEngine";
+import { LandedCostModel } from "./landedCost";
+import { AIProvider, AITask, createAIProvider } from "./aiProvider";
+import { AICache, fingerprintHistory, forecastCacheKey, commentCacheKey, sha256 } from "./aiCache";
+import { BASE_CURRENCY } from "./currencyService";
+import { DEFAULT_FORECAST_SETTINGS, GRANULARITY_LABELS, CONTEXT_PERIODS, resampleHistory, forecastDates, periodStart } from "./timeSeries";
+import { DEFAULT_CONCURRENCY, isAuthError, runPool, withRetry } from "./bulkRunner";
+import { ForecastExpectation, comboLabel, repairFeedback, buildValidationReport, markRetried, validateForecast, validateBulkForecasts, validateBenchmarkComments, validateBenchmarkResult } from "./responseValidator";
+
+// Bulk prompts carry ten combinations each, so they get a shorter history window
+const BULK_CONTEXT_PERIODS: Record<ForecastGranularity, number> = { weekly: 26, monthly: 12, quarterly: 6 };
+
+// Items that fail validation are re-requested this many times before being rejected
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const FORECAST_PROPERTIES: Record<string, Schema> = {
+  forecast: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        date: { type: Type.STRING },
+        predictedPrice: { type: Type.NUMBER },
+        predictedLeadTime: { type: Type.NUMBER },
+        confidenceIntervalUpper: { type: Type.NUMBER },
+        confidenceIntervalLower: { type: Type.NUMBER }
+      }
+    }
+  },
+  summary: {
+    type: Type.OBJECT,
+    properties: {
+      avgPredictedPrice: { type: Type.NUMBER },
+      avgPredictedLeadTime: { type: Type.NUMBER },
+      priceTrend: { type: Type.STRING },
+      leadTimeTrend: { type: Type.STRING },
+      optimizedOrderQuantity: { type: Type.NUMBER }
+    }
+  }
+};
+
+const FORECAST_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { partNumber: { type: Type.STRING }, ...FORECAST_PROPERTIES }
+};
+
+const BULK_FORECAST_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: { partNumber: { type: Type.STRING }, vendor: { type: Type.STRING }, country: { type: Type.STRING }, ...FORECAST_PROPERTIES }
+  }
+};
+
+const COMMENTARY_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.NUMBER },
+      comment: { type: Type.STRING }
+    },
+    required: ["index", "comment"]
+  }
+};
 
 /**
  * Custom error handler to categorize Gemini API errors
  */
-const handleAIError = (error: any): never => {
-  console.error("AI Service Error:", error);
+const categorizeAIError = (error: any): Error => {
   const msg = error?.message?.toLowerCase() || "";
 
   if (msg.includes("429") || msg.includes("quota") || msg.includes("rate limit")) {
-    throw new Error("AI Rate Limit Exceeded: The system is currently busy. Please wait a moment before trying again.");
+    return new Error("AI Rate Limit Exceeded: The system is currently busy. Please wait a moment before trying again.");
   }
   if (msg.includes("503") || msg.includes("unavailable") || msg.includes("overloaded")) {
-    throw new Error("AI Service Unavailable: The prediction engine is temporarily offline. Please try again in a few minutes.");
+    return new Error("AI Service Unavailable: The prediction engine is temporarily offline. Please try again in a few minutes.");
   }
   if (msg.includes("api key") || msg.includes("401") || msg.includes("403")) {
-    throw new Error("Authentication Error: The AI service could not verify your credentials. Please check your configuration.");
+    return new Error("Authentication Error: The AI service could not verify your credentials. Please check your configuration.");
   }
   if (error instanceof SyntaxError) {
-    throw new Error("Data Interpretation Error: The AI returned an invalid response format. This may happen with highly unusual data patterns.");
+    return new Error("Data Interpretation Error: The AI returned an invalid response format. This may happen with highly unusual data patterns.");
   }
   
-  throw new Error(`AI System Error: ${error?.message || "An unexpected error occurred while processing your request."}`);
+  return new Error(`AI System Error: ${error?.message || "An unexpected error occurred while processing your request."}`);
 };
 
-// Fix: Always initialize GoogleGenAI inside functions to ensure the most up-to-date API key is used
+const handleAIError = (error: any): never => {
+  console.error("AI Service Error:", error);
+  throw categorizeAIError(error);
+};
+
+// Malformed JSON is a validation failure (and therefore retryable), not a transport error
+const parseModelJson = (text: string | undefined): unknown => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const averageQuantity = (records: HistoricalData[]): number =>
+  records.length > 0 ? Math.round(records.reduce((acc, r) => acc + r.quantity, 0) / records.length) : 0;
+
+interface CachedForecastLookup {
+  key: string;
+  fingerprint: string;
+  hit: ForecastResult | null;
+}
+
+const lookupCachedForecast = async (
+  cache: AICache,
+  records: HistoricalData[],
+  combo: FilterState,
+  task: AITask,
+  provider: AIProvider,
+  model: string,
+  settings: ForecastSettings
+): Promise<CachedForecastLookup> => {
+  const fingerprint = await fingerprintHistory(records);
+  const key = await forecastCacheKey(fingerprint, combo, task, provider.id, model, settings);
+  const entry = await cache.get(key);
+  return { key, fingerprint, hit: entry ? { ...(entry.value as ForecastResult), cachedAt: entry.createdAt } : null };
+};
+
+const storeCachedForecast = (cache: AICache, lookup: CachedForecastLookup, result: ForecastResult): Promise<void> =>
+  cache.put({
+    key: lookup.key,
+    kind: 'forecast',
+    partNumber: result.partNumber,
+    vendor: result.vendor,
+    country: result.country,
+    model: result.model || '',
+    fingerprint: lookup.fingerprint,
+    createdAt: new Date().toISOString(),
+    value: result
+  });
+
 export const getForecastFromAI = async (
   historicalData: HistoricalData[],
   filters: FilterState,
-  model: string = 'gemini-3-flash-preview'
+  model: string = 'gemini-3-flash-preview',
+  settings: ForecastSettings = DEFAULT_FORECAST_SETTINGS,
+  onValidation?: (report: ValidationReport) => void,
+  provider: AIProvider = createAIProvider(),
+  cache?: AICache
 ): Promise<ForecastResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const { horizon, granularity } = settings;
   const contextData = historicalData
     .filter(d => d.partNumber === filters.partNumber && d.vendor === filters.vendor && d.country === filters.country)
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -39,223 +158,274 @@ export const getForecastFromAI = async (
   if (contextData.length === 0) throw new Error("Missing Historical Data: No records found matching the selected filters.");
   if (contextData.length < 3) throw new Error("Insufficient Data: At least 3 historical points are required for a reliable AI forecast.");
 
-  // Fix: Move task instructions to systemInstruction for better model adherence
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: `Historical Context (JSON): ${JSON.stringify(contextData.slice(-24))}`,
-      config: {
-        systemInstruction: `You are a supply chain analyst. Generate a 12-month monthly forecast for BOTH USD Price and Lead Time (Days) based on the provided historical data for Part: ${filters.partNumber}, Vendor: ${filters.vendor}, Country: ${filters.country}. Ensure confidence intervals reflect data volatility. Output MUST be valid JSON matching the requested schema.`,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            partNumber: { type: Type.STRING },
-            forecast: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  date: { type: Type.STRING },
-                  predictedPrice: { type: Type.NUMBER },
-                  predictedLeadTime: { type: Type.NUMBER },
-                  confidenceIntervalUpper: { type: Type.NUMBER },
-                  confidenceIntervalLower: { type: Type.NUMBER }
-                }
-              }
-            },
-            summary: {
-              type: Type.OBJECT,
-              properties: {
-                avgPredictedPrice: { type: Type.NUMBER },
-                avgPredictedLeadTime: { type: Type.NUMBER },
-                priceTrend: { type: Type.STRING },
-                leadTimeTrend: { type: Type.STRING },
-                optimizedOrderQuantity: { type: Type.NUMBER }
-              }
-            }
-          }
-        }
-      }
-    });
+  const history = resampleHistory(contextData, granularity).slice(-CONTEXT_PERIODS[granularity]);
+  const dates = forecastDates(periodStart(contextData[contextData.length - 1].date, granularity), settings);
+  const expectation: ForecastExpectation = { combo: filters, dates, granularity, fallbackOrderQuantity: averageQuantity(contextData) };
+  const cached = cache ? await lookupCachedForecast(cache, contextData, filters, 'forecast', provider, model, settings) : null;
+  if (cached?.hit) return cached.hit;
+
+  const issues: ValidationIssue[] = [];
+  let feedback = '';
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let text: string | undefined;
+    // Fix: Move task instructions to systemInstruction for better model adherence
+    try {
+      text = await provider.generateJson({
+        task: 'forecast',
+        model,
+        contents: `Historical Context (JSON, one ${GRANULARITY_LABELS[granularity].unit} per entry): ${JSON.stringify(history)}${feedback}`,
+        payload: { combo: filters, history, dates },
+        systemInstruction: `You are a supply chain analyst. Generate a ${horizon}-${GRANULARITY_LABELS[granularity].unit} ${GRANULARITY_LABELS[granularity].adjective} forecast for BOTH Price and Lead Time (Days) based on the provided historical data for Part: ${filters.partNumber}, Vendor: ${filters.vendor}, Country: ${filters.country}. The forecast array MUST contain exactly ${horizon} points dated ${dates.join(', ')}. Ensure confidence intervals reflect data volatility. Output MUST be valid JSON matching the requested schema.`,
+        responseSchema: FORECAST_SCHEMA
+      });
+    } catch (err) {
+      return handleAIError(err);
+    }
 
-    const text = response.text;
-    if (!text) throw new Error("Empty AI Response: The engine failed to generate content.");
-    
-    const parsed = JSON.parse(text);
-    return { ...parsed, vendor: filters.vendor, country: filters.country, partNumber: filters.partNumber };
-  } catch (err) {
-    return handleAIError(err);
+    const validation = validateForecast(parseModelJson(text), expectation);
+    issues.push(...markRetried(validation.issues, attempt === MAX_REPAIR_ATTEMPTS));
+    if (validation.result) {
+      onValidation?.(buildValidationReport('Forecast', 1, 0, issues));
+      const result = { ...validation.result, model };
+      if (cache && cached) await storeCachedForecast(cache, cached, result);
+      return result;
+    }
+    feedback = repairFeedback(validation.issues);
   }
+
+  onValidation?.(buildValidationReport('Forecast', 1, 1, issues));
+  throw new Error(`Invalid AI Response: The forecast for ${comboLabel(filters)} failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts.`);
 };
 
-// Fix: Always initialize GoogleGenAI inside functions
+export interface BulkForecastOptions {
+  concurrency?: number; // Batches in flight at once
+  signal?: AbortSignal;
+  provider?: AIProvider;
+  cache?: AICache;
+}
+
+export interface BulkForecastRun {
+  results: ForecastResult[];
+  failures: BulkForecastFailure[];
+  remaining: FilterState[]; // Not attempted because the run was cancelled
+}
+
+const bulkKey = (c: FilterState): string => `${c.partNumber}|${c.vendor}|${c.country}`;
+
 export const getBulkForecastsFromAI = async (
   historicalData: HistoricalData[],
   combinations: FilterState[],
   onProgress: (index: number) => void,
-  model: string = 'gemini-3-flash-preview'
-): Promise<ForecastResult[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  model: string = 'gemini-3-flash-preview',
+  settings: ForecastSettings = DEFAULT_FORECAST_SETTINGS,
+  onValidation?: (report: ValidationReport) => void,
+  options: BulkForecastOptions = {}
+): Promise<BulkForecastRun> => {
+  const { horizon, granularity } = settings;
+  const { concurrency = DEFAULT_CONCURRENCY, signal, provider = createAIProvider(), cache } = options;
   const BATCH_SIZE = 10;
   const results: ForecastResult[] = [];
+  const failures: BulkForecastFailure[] = [];
+  const issues: ValidationIssue[] = [];
+
+  const batches: FilterState[][] = [];
+  for (let i = 0; i < combinations.length; i += BATCH_SIZE) batches.push(combinations.slice(i, i + BATCH_SIZE));
+
+  const fail = (combo: FilterState, reason: string) => {
+    issues.push({ item: comboLabel(combo), message: reason, action: 'rejected' });
+    failures.push({ partNumber: combo.partNumber, vendor: combo.vendor, country: combo.country, reason });
+  };
 
-  for (let i = 0; i < combinations.length; i += BATCH_SIZE) {
-    const batch = combinations.slice(i, i + BATCH_SIZE);
-    
+  await runPool(batches, concurrency, async (batch, b) => {
     const batchData = batch.map(combo => {
       const data = historicalData
         .filter(d => d.partNumber === combo.partNumber && d.vendor === combo.vendor && d.country === combo.country)
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-        .slice(-6);
-      return { combo, history: data };
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+      const dates = data.length > 0 ? forecastDates(periodStart(data[data.length - 1].date, granularity), settings) : [];
+      return { combo, records: data, history: resampleHistory(data, granularity).slice(-BULK_CONTEXT_PERIODS[granularity]), forecastDates: dates, fallbackOrderQuantity: averageQuantity(data) };
     });
 
-    // Fix: Using systemInstruction for bulk instructions
-    try {
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: `Bulk Data Batch: ${JSON.stringify(batchData)}`,
-        config: {
-          systemInstruction: `Generate pricing and lead-time forecasts for this batch of procurement items. Return an array of ForecastResult JSON objects.`,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                partNumber: { type: Type.STRING },
-                vendor: { type: Type.STRING },
-                country: { type: Type.STRING },
-                forecast: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      date: { type: Type.STRING },
-                      predictedPrice: { type: Type.NUMBER },
-                      predictedLeadTime: { type: Type.NUMBER },
-                      confidenceIntervalUpper: { type: Type.NUMBER },
-                      confidenceIntervalLower: { type: Type.NUMBER }
-                    }
-                  }
-                },
-                summary: {
-                  type: Type.OBJECT,
-                  properties: {
-                    avgPredictedPrice: { type: Type.NUMBER },
-                    avgPredictedLeadTime: { type: Type.NUMBER },
-                    priceTrend: { type: Type.STRING },
-                    leadTimeTrend: { type: Type.STRING },
-                    optimizedOrderQuantity: { type: Type.NUMBER }
-                  }
-                }
-              }
-            }
-          }
-        }
-      });
+    batchData.filter(d => d.forecastDates.length === 0).forEach(d => fail(d.combo, 'No historical records for this combination; not requested.'));
 
-      const text = response.text;
-      if (text) {
-        const batchResults = JSON.parse(text) as ForecastResult[];
-        results.push(...batchResults);
+    // Cache hits are settled immediately and never sent to the model
+    const lookups = new Map<string, CachedForecastLookup>();
+    if (cache) {
+      for (const d of batchData.filter(d => d.forecastDates.length > 0)) {
+        const lookup = await lookupCachedForecast(cache, d.records, d.combo, 'bulk-forecast', provider, model, settings);
+        if (lookup.hit) results.push(lookup.hit);
+        else lookups.set(bulkKey(d.combo), lookup);
       }
-    } catch (err) {
-      console.warn(`Bulk processing batch failure at index ${i}:`, err);
-      const msg = (err as any)?.message?.toLowerCase() || "";
-      if (msg.includes("429") || msg.includes("401") || msg.includes("api key")) {
-        return handleAIError(err);
+    }
+
+    // Only the items that failed validation are sent again on a repair attempt
+    let pending: ForecastExpectation[] = batchData
+      .filter(d => d.forecastDates.length > 0 && (!cache || lookups.has(bulkKey(d.combo))))
+      .map(d => ({ combo: d.combo, dates: d.forecastDates, granularity, fallbackOrderQuantity: d.fallbackOrderQuantity }));
+    let feedback = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+      if (signal?.aborted) return;
+      const final = attempt === MAX_REPAIR_ATTEMPTS;
+      const requested = batchData
+        .filter(d => pending.some(p => p.combo === d.combo))
+        .map(({ combo, history, forecastDates }) => ({ combo, history, forecastDates }));
+      let text: string | undefined;
+
+      // Fix: Using systemInstruction for bulk instructions
+      try {
+        text = await withRetry(() => provider.generateJson({
+          task: 'bulk-forecast',
+          model,
+          contents: `Bulk Data Batch: ${JSON.stringify(requested)}${feedback}`,
+          payload: requested,
+          systemInstruction: `Generate ${GRANULARITY_LABELS[granularity].adjective} pricing and lead-time forecasts for this batch of procurement items. History is aggregated per ${GRANULARITY_LABELS[granularity].unit}. Each item's forecast array MUST contain exactly ${horizon} points, one for each date in its forecastDates. Return an array of ForecastResult JSON objects.`,
+          responseSchema: BULK_FORECAST_SCHEMA,
+          signal
+        }), signal);
+      } catch (err) {
+        // A cancelled request leaves its items unattempted so they can be resumed
+        if (signal?.aborted) return;
+        console.warn(`Bulk processing failure in batch ${b + 1}:`, err);
+        if (isAuthError(err)) return handleAIError(err);
+        const reason = categorizeAIError(err).message;
+        pending.forEach(p => fail(p.combo, reason));
+        break;
       }
+
+      const validation = validateBulkForecasts(parseModelJson(text), pending);
+      issues.push(...markRetried(validation.issues, final));
+      const accepted = validation.results.map(r => ({ ...r, model }));
+      results.push(...accepted);
+      if (cache) await Promise.all(accepted.map(r => storeCachedForecast(cache, lookups.get(bulkKey(r))!, r)));
+      if (final) {
+        validation.failed.forEach(e => failures.push({
+          partNumber: e.combo.partNumber,
+          vendor: e.combo.vendor,
+          country: e.combo.country,
+          reason: [...validation.issues].reverse().find(i => i.item === comboLabel(e.combo) && i.action === 'rejected')?.message || 'Failed validation.'
+        }));
+      }
+      pending = validation.failed;
+      feedback = repairFeedback(validation.issues);
     }
-    
-    onProgress(Math.min(i + BATCH_SIZE, combinations.length));
-    await new Promise(r => setTimeout(r, 100)); 
-  }
 
-  if (results.length === 0 && combinations.length > 0) {
-    throw new Error("Bulk Analysis Failed: The AI engine was unable to process any of the requested data batches.");
-  }
+    onProgress(results.length + failures.length);
+  }, signal);
+
+  const settled = new Set([...results, ...failures].map(bulkKey));
+  const remaining = combinations.filter(c => !settled.has(bulkKey(c)));
+  onValidation?.(buildValidationReport('Bulk forecast', combinations.length - remaining.length, failures.length, issues));
 
-  return results;
+  return { results, failures, remaining };
 };
 
-// Fix: Using gemini-3-pro-preview for complex benchmarking logic and moving protocol to systemInstruction
+// Statuses come from the deterministic rule engine; the model only writes the strategic comment
 export const getBenchmarkAnalysis = async (
   negotiated: NegotiatedRate[],
   forecasts: ForecastResult[],
-  confidenceLevel: ConfidenceLevel = 95
+  confidenceLevel: ConfidenceLevel = 95,
+  currency: string = BASE_CURRENCY,
+  onValidation?: (report: ValidationReport) => void,
+  provider: AIProvider = createAIProvider(),
+  cache?: AICache,
+  costModel?: LandedCostModel
 ): Promise<BenchmarkResult[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   if (negotiated.length === 0) throw new Error("Invalid Input: No negotiated rates provided for benchmarking.");
 
-  const baselineContext = forecasts.map(f => ({ 
-    part: f.partNumber, 
-    vendor: f.vendor,
-    country: f.country,
-    pricing: {
-      avg: f.summary.avgPredictedPrice,
-      range: [f.forecast[0]?.confidenceIntervalLower, f.forecast[0]?.confidenceIntervalUpper]
-    },
-    logistics: {
-      avgLeadTime: f.summary.avgPredictedLeadTime,
-      range: [f.summary.avgPredictedLeadTime * 0.6, f.summary.avgPredictedLeadTime * 1.4],
-      trend: f.summary.leadTimeTrend
+  const evaluated = negotiated.map(rate => evaluateRate(rate, forecasts, confidenceLevel, currency, costModel));
+  const commentContext = evaluated
+    .map(({ result, baseline }, index) => ({ index, result, baseline }))
+    .filter(e => e.baseline !== null)
+    .map(({ index, result, baseline }) => ({
+      index,
+      part: result.partNumber,
+      vendor: result.vendor,
+      country: result.country,
+      proposedPrice: result.proposedPrice,
+      proposedLeadTime: result.proposedLeadTime,
+      priceStatus: result.priceStatus,
+      leadTimeStatus: result.leadTimeStatus,
+      ...(result.tcoStatus ? { incoterm: result.incoterm, paymentTermsDays: result.paymentTermsDays, landedCost: result.landedCost, tco: result.tco, tcoStatus: result.tcoStatus } : {}),
+      baseline
+    }));
+
+  const results = evaluated.map(e => e.result);
+  if (commentContext.length === 0) return results;
+
+  const labelFor = (index: number): string => comboLabel(results[index]);
+  const comments = new Map<number, string>();
+  const cachedAt = new Map<number, string>();
+  const cacheKeys = new Map<number, { key: string, fingerprint: string }>();
+  const issues: ValidationIssue[] = [];
+  let pending = commentContext;
+  let feedback = '';
+
+  // A comment depends only on its own rate, baseline and the reporting context, so each is cached separately
+  if (cache) {
+    for (const { index, ...item } of commentContext) {
+      const fingerprint = await sha256(JSON.stringify({ item, currency, confidenceLevel }));
+      const key = await commentCacheKey(fingerprint, provider.id, provider.commentaryModel);
+      const entry = await cache.get(key);
+      if (entry) {
+        comments.set(index, entry.value as string);
+        cachedAt.set(index, entry.createdAt);
+      } else {
+        cacheKeys.set(index, { key, fingerprint });
+      }
     }
-  }));
+    pending = commentContext.filter(c => !comments.has(c.index));
+  }
 
-  // Fix: Evaluation logic belongs in systemInstruction
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview', // Complex Text Task
-      contents: `Negotiations: ${JSON.stringify(negotiated)}\nBaselines: ${JSON.stringify(baselineContext)}`,
-      config: {
-        systemInstruction: `Benchmark proposed negotiated rates against AI-generated Baseline Forecasts using a ${confidenceLevel}% Confidence Level.
-        
-        EVALUATION PROTOCOL:
-        1. PRICE STATUS:
-           - 'anomaly': Proposed Price < Baseline Pricing Lower Range.
-           - 'favorable': Baseline Lower Range <= Proposed Price <= Baseline Avg Pricing.
-           - 'warning': Proposed Price > Baseline Avg but < Baseline Upper Range.
-           - 'critical': Proposed Price >= Baseline Upper Range.
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pending.length > 0; attempt++) {
+    let text: string | undefined;
+    try {
+      text = await provider.generateJson({
+        task: 'benchmark-commentary',
+        model: provider.commentaryModel,
+        contents: `Benchmarked Rates: ${JSON.stringify(pending)}${feedback}`,
+        payload: pending,
+        systemInstruction: `You are a procurement negotiation advisor. Each item has already been classified at a ${confidenceLevel}% Confidence Level against its baseline forecast.
+        All prices and baseline figures are expressed in ${currency}.
         
-        2. LEAD TIME STATUS:
-           - 'anomaly': Proposed Lead Time < 60% of Baseline Avg Lead Time.
-           - 'favorable': 60% of Baseline Avg <= Proposed Lead Time <= Baseline Avg Lead Time.
-           - 'warning': Proposed Lead Time > Baseline Avg by up to 20%.
-           - 'critical': Proposed Lead Time > Baseline Avg by more than 20%.
-
-        3. RULES:
-           - No history: status 'favorable', comment "No comparative baseline available".
-           - Provide strategic AI Feedback in comments.
-           - Return ONLY a JSON array of BenchmarkResult objects.`,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              partNumber: { type: Type.STRING },
-              vendor: { type: Type.STRING },
-              country: { type: Type.STRING },
-              proposedPrice: { type: Type.NUMBER },
-              proposedLeadTime: { type: Type.NUMBER },
-              priceStatus: { type: Type.STRING },
-              leadTimeStatus: { type: Type.STRING },
-              confidenceMatch: { type: Type.BOOLEAN },
-              comment: { type: Type.STRING }
-            },
-            required: ["partNumber", "vendor", "country", "proposedPrice", "proposedLeadTime", "priceStatus", "leadTimeStatus", "confidenceMatch", "comment"]
-          }
-        }
-      }
-    });
+        RULES:
+        - Do NOT change or re-derive the statuses; treat priceStatus, leadTimeStatus and tcoStatus as final.
+        - Where present, tco is the landed cost (freight and duty under the Incoterm) less the value of the payment terms; compare it with baseline.tco.
+        - Each baseline averages the forecast periods covered by the quote's validity window (periodFrom–periodTo); if it carries a note, mention it.
+        - Write one concise strategic comment per item explaining the status using the baseline figures and suggesting a negotiation action.
+        - Return ONLY a JSON array of { index, comment } objects, one per input item.`,
+        responseSchema: COMMENTARY_SCHEMA
+      });
+    } catch (err) {
+      return handleAIError(err);
+    }
 
-    const text = response.text;
-    if (!text) throw new Error("Empty AI Response: The benchmarking engine returned no content.");
-    
-    return JSON.parse(text);
-  } catch (err) {
-    return handleAIError(err);
+    const validation = validateBenchmarkComments(parseModelJson(text), pending.map(p => p.index), labelFor);
+    issues.push(...markRetried(validation.issues, attempt === MAX_REPAIR_ATTEMPTS));
+    validation.comments.forEach((comment, index) => comments.set(index, comment));
+    if (cache) {
+      await Promise.all(Array.from(validation.comments.entries()).map(([index, comment]) => cache.put({
+        key: cacheKeys.get(index)!.key,
+        kind: 'benchmark-comment',
+        partNumber: results[index].partNumber,
+        vendor: results[index].vendor,
+        country: results[index].country,
+        model: provider.commentaryModel,
+        fingerprint: cacheKeys.get(index)!.fingerprint,
+        createdAt: new Date().toISOString(),
+        value: comment
+      })));
+    }
+    pending = pending.filter(p => validation.missing.includes(p.index));
+    feedback = repairFeedback(validation.issues);
   }
+
+  // Rates whose commentary never validated keep the rule-engine comment
+  const merged = results.map((ruleResult, index) => {
+    const validation = validateBenchmarkResult({ ...ruleResult, comment: comments.get(index) ?? ruleResult.comment, commentCachedAt: cachedAt.get(index) }, ruleResult);
+    issues.push(...validation.issues);
+    return validation.result;
+  });
+  onValidation?.(buildValidationReport('Benchmark commentary', commentContext.length, pending.length, issues));
+  return merged;
 };
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { estimateSensitivity, MIN_OVERLAP_PERIODS } from './indexLinkage';
+import { HistoricalData, IndexPoint } from '../types';
+
+const month = (m: number) => `2024-${String(m + 1).padStart(2, '0')}-01`;
+
+const copper = [100, 104, 98, 110, 115, 108, 120, 125, 118, 130, 128, 135];
+const series: IndexPoint[] = copper.map((value, m) => ({ index: 'LME Copper', date: month(m), value }));
+
+const history = (price: (m: number) => number, months: number = copper.length): HistoricalData[] =>
+  Array.from({ length: months }, (_, m) => ({
+    id: `r${m}`, partNumber: 'P1', vendor: 'V1', country: 'US', usdPrice: price(m), quantity: 1, leadTimeDays: 30, date: month(m)
+  }));
+
+describe('estimateSensitivity', () => {
+  it('recovers an exact linear relationship', () => {
+    const { sensitivity } = estimateSensitivity(history(m => 20 + 0.5 * copper[m]), 'P1', ['LME Copper'], series, 'monthly');
+    expect(sensitivity).not.toBeNull();
+    expect(sensitivity!.intercept).toBeCloseTo(20, 6);
+    expect(sensitivity!.coefficients[0]).toBeCloseTo(0.5, 6);
+    expect(sensitivity!.rSquared).toBeCloseTo(1, 6);
+    expect(sensitivity!.periods).toBe(copper.length);
+    // Elasticity at the means: β · mean(index) / mean(price)
+    const meanIndex = copper.reduce((a, b) => a + b, 0) / copper.length;
+    expect(sensitivity!.elasticities[0]).toBeCloseTo(0.5 * meanIndex / (20 + 0.5 * meanIndex), 6);
+  });
+
+  it('reports no explanatory power for a price unrelated to the index', () => {
+    const { sensitivity } = estimateSensitivity(history(() => 50), 'P1', ['LME Copper'], series, 'monthly');
+    expect(sensitivity!.rSquared).toBe(0);
+  });
+
+  it('needs enough overlapping periods', () => {
+    const estimate = estimateSensitivity(history(m => copper[m], MIN_OVERLAP_PERIODS - 1), 'P1', ['LME Copper'], series, 'monthly');
+    expect(estimate.sensitivity).toBeNull();
+    expect(estimate.reason).toContain(`at least ${MIN_OVERLAP_PERIODS}`);
+  });
+
+  it('explains why nothing could be estimated', () => {
+    expect(estimateSensitivity(history(m => copper[m]), 'P1', [], series, 'monthly').reason).toBe('No index linked.');
+    expect(estimateSensitivity(history(m => copper[m]), 'P2', ['LME Copper'], series, 'monthly').reason).toBe('No purchase history for the part.');
+    expect(estimateSensitivity(history(m => copper[m]), 'P1', ['Brent'], series, 'monthly').reason).toBe('No values uploaded for Brent.');
+  });
+
+  it('rejects indices that move in lockstep', () => {
+    const doubled = series.map(p => ({ ...p, index: 'Copper x2', value: p.value * 2 }));
+    const estimate = estimateSensitivity(history(m => copper[m]), 'P1', ['LME Copper', 'Copper x2'], [...series, ...doubled], 'monthly');
+    expect(estimate.sensitivity).toBeNull();
+    expect(estimate.reason).toContain('lockstep');
+  });
+});
@@ -0,0 +1,206 @@
+import { HistoricalData, ForecastResult, ForecastGranularity, IndexPoint, IndexLink } from '../types';
+import { addPeriods, average, bucketByPeriod, periodStart, toPeriodSeries } from './timeSeries';
+import { extrapolateSeries } from './forecastEngine';
+
+/**
+ * Commodity and market index linkage.
+ * A part's period-average price is regressed on the levels of its linked indices (ordinary least squares);
+ * the fit's R² is the share of the part's price movement the indices explain. Forecasts are blended with the
+ * index-driven projection in that proportion, so weakly linked parts keep their statistical forecast.
+ * Index values dated after the history act as projections; beyond them the index is extrapolated.
+ */
+
+export const MIN_OVERLAP_PERIODS = 6;
+
+export interface IndexSensitivity {
+  partNumber: string;
+  indices: string[];
+  granularity: ForecastGranularity;
+  intercept: number;
+  coefficients: number[]; // Price change per index point, in index order
+  elasticities: number[]; // % price change per 1% index move, at the sample means
+  rSquared: number;
+  periods: number; // Periods with both a price and every index level
+}
+
+export interface SensitivityEstimate {
+  sensitivity: IndexSensitivity | null;
+  reason?: string; // Why no sensitivity could be estimated
+}
+
+export const listIndices = (series: IndexPoint[]): string[] =>
+  Array.from(new Set(series.map(p => p.index))).sort();
+
+export const linkedIndices = (links: IndexLink[], partNumber: string): string[] =>
+  links.find(l => l.partNumber === partNumber)?.indices ?? [];
+
+/**
+ * Later uploads replace earlier values for the same index and date.
+ */
+export const mergeIndexSeries = (existing: IndexPoint[], incoming: IndexPoint[]): IndexPoint[] => {
+  const byKey = new Map(existing.map(p => [`${p.index}|${p.date}`, p]));
+  incoming.forEach(p => byKey.set(`${p.index}|${p.date}`, p));
+  return Array.from(byKey.values()).sort((a, b) => a.index.localeCompare(b.index) || a.date.localeCompare(b.date));
+};
+
+// Contiguous per-period levels; gaps between observations are interpolated
+const indexLevels = (series: IndexPoint[], index: string, granularity: ForecastGranularity): Map<string, number> => {
+  const points = series.filter(p => p.index === index);
+  if (points.length === 0) return new Map();
+  const { keys, values } = toPeriodSeries(points, granularity, p => p.value);
+  return new Map(keys.map((k, i) => [k, values[i]]));
+};
+
+// Solves the square system `a·x = b` by Gaussian elimination with partial pivoting; null when singular
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-9) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+export const estimateSensitivity = (
+  history: HistoricalData[],
+  partNumber: string,
+  indices: string[],
+  series: IndexPoint[],
+  granularity: ForecastGranularity
+): SensitivityEstimate => {
+  if (indices.length === 0) return { sensitivity: null, reason: 'No index linked.' };
+  const rows = history.filter(r => r.partNumber === partNumber);
+  if (rows.length === 0) return { sensitivity: null, reason: 'No purchase history for the part.' };
+
+  const levels = indices.map(index => indexLevels(series, index, granularity));
+  const missing = indices.filter((_, i) => levels[i].size === 0);
+  if (missing.length > 0) return { sensitivity: null, reason: `No values uploaded for ${missing.join(', ')}.` };
+
+  const observations = bucketByPeriod(rows, granularity)
+    .filter(b => levels.every(l => l.has(b.period)))
+    .map(b => ({ price: average(b.records.map(r => r.usdPrice)), x: levels.map(l => l.get(b.period)!) }));
+  const k = indices.length;
+  const required = Math.max(MIN_OVERLAP_PERIODS, k + 3);
+  if (observations.length < required) {
+    return { sensitivity: null, reason: `Only ${observations.length} periods overlap the index history; at least ${required} are needed.` };
+  }
+
+  // Normal equations for price = intercept + Σ βᵢ·indexᵢ
+  const design = observations.map(o => [1, ...o.x]);
+  const xtx = Array.from({ length: k + 1 }, (_, i) => Array.from({ length: k + 1 }, (_, j) => design.reduce((acc, row) => acc + row[i] * row[j], 0)));
+  const xty = Array.from({ length: k + 1 }, (_, i) => design.reduce((acc, row, r) => acc + row[i] * observations[r].price, 0));
+  const beta = solve(xtx, xty);
+  if (!beta) return { sensitivity: null, reason: 'Index levels are constant or move in lockstep; sensitivities cannot be separated.' };
+
+  const prices = observations.map(o => o.price);
+  const meanPrice = average(prices);
+  const totalSS = prices.reduce((acc, p) => acc + (p - meanPrice) ** 2, 0);
+  const residualSS = design.reduce((acc, row, r) => acc + (prices[r] - row.reduce((s, x, i) => s + x * beta[i], 0)) ** 2, 0);
+  const rSquared = totalSS > 0 ? Math.min(1, Math.max(0, 1 - residualSS / totalSS)) : 0;
+
+  return {
+    sensitivity: {
+      partNumber,
+      indices,
+      granularity,
+      intercept: beta[0],
+      coefficients: beta.slice(1),
+      elasticities: beta.slice(1).map((b, i) => meanPrice > 0 ? b * average(observations.map(o => o.x[i])) / meanPrice : 0),
+      rSquared,
+      periods: observations.length
+    }
+  };
+};
+
+/**
+ * Index levels at each requested period start: uploaded values where present, extrapolated beyond them.
+ */
+export const projectIndex = (series: IndexPoint[], index: string, dates: string[], granularity: ForecastGranularity): number[] => {
+  const levels = indexLevels(series, index, granularity);
+  if (levels.size === 0) return dates.map(() => NaN);
+  const keys = Array.from(levels.keys());
+  const last = keys[keys.length - 1];
+  const stepsAhead = (date: string) => {
+    let steps = 0;
+    for (let key = last; key < date; key = addPeriods(key, 1, granularity)) steps++;
+    return steps;
+  };
+  const horizon = Math.max(0, ...dates.map(stepsAhead));
+  const extrapolated = horizon > 0 ? extrapolateSeries(keys.map(k => levels.get(k)!), horizon) : [];
+  return dates.map(date => levels.get(date) ?? (date > last ? extrapolated[stepsAhead(date) - 1] : levels.get(keys[0])!));
+};
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+/**
+ * Blends the forecast with the price implied by the projected index levels, anchored on the combination's
+ * latest observed period so vendor and country price levels are preserved.
+ */
+export const applyIndexLinkage = (
+  forecast: ForecastResult,
+  history: HistoricalData[],
+  sensitivity: IndexSensitivity,
+  series: IndexPoint[]
+): ForecastResult => {
+  const granularity = forecast.granularity || 'monthly';
+  const rows = history.filter(r => r.partNumber === forecast.partNumber && r.vendor === forecast.vendor && r.country === forecast.country);
+  const buckets = bucketByPeriod(rows, granularity);
+  if (buckets.length === 0 || sensitivity.rSquared === 0) return forecast;
+
+  const anchor = buckets[buckets.length - 1];
+  const anchorPrice = average(anchor.records.map(r => r.usdPrice));
+  const dates = forecast.forecast.map(p => periodStart(p.date, granularity));
+  const fitted = (levels: number[]) => levels.reduce((acc, x, i) => acc + x * sensitivity.coefficients[i], sensitivity.intercept);
+  const anchorFit = fitted(sensitivity.indices.map(index => projectIndex(series, index, [anchor.period], granularity)[0]));
+  if (!(anchorFit > 0)) return forecast;
+
+  const projected = sensitivity.indices.map(index => projectIndex(series, index, dates, granularity));
+  const w = sensitivity.rSquared;
+  const points = forecast.forecast.map((point, t) => {
+    const indexDriven = anchorPrice * fitted(projected.map(p => p[t])) / anchorFit;
+    if (!Number.isFinite(indexDriven)) return point;
+    const delta = w * Math.max(0, indexDriven) + (1 - w) * point.predictedPrice - point.predictedPrice;
+    return {
+      ...point,
+      predictedPrice: round(Math.max(0, point.predictedPrice + delta)),
+      confidenceIntervalUpper: round(Math.max(0, point.confidenceIntervalUpper + delta)),
+      confidenceIntervalLower: round(Math.max(0, point.confidenceIntervalLower + delta))
+    };
+  });
+
+  return {
+    ...forecast,
+    forecast: points,
+    indexAdjustment: { indices: sensitivity.indices, rSquared: round(w, 4) },
+    summary: { ...forecast.summary, avgPredictedPrice: round(average(points.map(p => p.predictedPrice))) }
+  };
+};
+
+/**
+ * Applies each part's index linkage to its forecasts; parts without a usable sensitivity pass through unchanged.
+ */
+export const applyIndexLinkages = (
+  forecasts: ForecastResult[],
+  history: HistoricalData[],
+  links: IndexLink[],
+  series: IndexPoint[]
+): ForecastResult[] => {
+  const cache = new Map<string, IndexSensitivity | null>();
+  return forecasts.map(f => {
+    const indices = linkedIndices(links, f.partNumber);
+    if (indices.length === 0) return f;
+    const granularity = f.granularity || 'monthly';
+    const key = `${f.partNumber}|${granularity}`;
+    if (!cache.has(key)) cache.set(key, estimateSensitivity(history, f.partNumber, indices, series, granularity).sensitivity);
+    const sensitivity = cache.get(key);
+    return sensitivity ? applyIndexLinkage(f, history, sensitivity, series) : f;
+  });
+};
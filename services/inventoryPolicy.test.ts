@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { computeInventoryPolicy, DEFAULT_INVENTORY_SETTINGS, SERVICE_LEVEL_Z } from './inventoryPolicy';
+import { ForecastResult, HistoricalData } from '../types';
+
+// Twelve months of 100 units, so projected demand is exactly 1,200 a year with no demand error
+const history: HistoricalData[] = Array.from({ length: 12 }, (_, m) => ({
+  id: `r${m}`, partNumber: 'P1', vendor: 'V1', country: 'US', usdPrice: 50, quantity: 100,
+  leadTimeDays: m % 2 === 0 ? 28 : 32, date: `2024-${String(m + 1).padStart(2, '0')}-01`
+}));
+
+const forecast = (unitPrice: number, leadTimeStdDev?: number): ForecastResult => ({
+  partNumber: 'P1', vendor: 'V1', country: 'US', granularity: 'monthly',
+  forecast: [1, 2, 3].map(m => ({
+    date: `2025-0${m}-01`, predictedPrice: unitPrice, predictedLeadTime: 30,
+    confidenceIntervalUpper: unitPrice, confidenceIntervalLower: unitPrice, leadTimeStdDev
+  })),
+  summary: { avgPredictedPrice: unitPrice, avgPredictedLeadTime: 30, priceTrend: 'stable', leadTimeTrend: 'stable', optimizedOrderQuantity: 100 }
+});
+
+describe('computeInventoryPolicy', () => {
+  const settings = DEFAULT_INVENTORY_SETTINGS; // S = 150, holding 20%, 95% service, σL from history
+  const forecastSigma = { ...settings, leadTimeVariability: 'forecast' as const };
+  const historySigma = Math.sqrt(12 * 4 / 11); // Alternating 28 and 32 days
+  const z = SERVICE_LEVEL_Z[95];
+  const dailyDemand = 1200 / 365;
+
+  it('applies the EOQ, safety stock and reorder point formulas', () => {
+    const policy = computeInventoryPolicy(forecast(50, 5), history, forecastSigma)!;
+    expect(policy.annualDemand).toBeCloseTo(1200, 6);
+    expect(policy.dailyDemandStdDev).toBeCloseTo(0, 6);
+    expect(policy.holdingCost).toBeCloseTo(10, 6);
+    expect(policy.leadTimeStdDevBasis).toBe('forecast');
+
+    // √(2 · 1200 · 150 / 10) = 189.7
+    expect(policy.eoq).toBe(190);
+    expect(policy.ordersPerYear).toBeCloseTo(1200 / Math.sqrt(36000), 6);
+    // z · √(L·0² + d²·5²) = z · d · 5
+    const safetyStock = z * dailyDemand * 5;
+    expect(policy.safetyStock).toBe(Math.ceil(safetyStock));
+    expect(policy.reorderPoint).toBe(Math.ceil(dailyDemand * 30 + safetyStock));
+    expect(policy.annualCost).toBeCloseTo((1200 / Math.sqrt(36000)) * 150 + (Math.sqrt(36000) / 2 + safetyStock) * 10, 6);
+  });
+
+  it('takes lead-time variability from the history by default, even when the forecast has its own', () => {
+    const policy = computeInventoryPolicy(forecast(50, 5), history, settings)!;
+    expect(policy.leadTimeStdDevBasis).toBe('history');
+    expect(policy.leadTimeStdDev).toBeCloseTo(historySigma, 6);
+    expect(policy.safetyStock).toBe(Math.ceil(z * dailyDemand * historySigma));
+  });
+
+  it('falls back to the history when forecast uncertainty is selected but the forecast has none', () => {
+    const policy = computeInventoryPolicy(forecast(50), history, forecastSigma)!;
+    expect(policy.leadTimeStdDevBasis).toBe('history');
+    expect(policy.leadTimeStdDev).toBeCloseTo(historySigma, 6);
+  });
+
+  it('raises safety stock with the service level', () => {
+    const at95 = computeInventoryPolicy(forecast(50, 5), history, settings)!;
+    const at99 = computeInventoryPolicy(forecast(50, 5), history, { ...settings, serviceLevel: 99 })!;
+    expect(at99.safetyStock).toBeGreaterThan(at95.safetyStock);
+    expect(at99.eoq).toBe(at95.eoq);
+  });
+
+  it('returns null without demand history or a positive holding cost', () => {
+    expect(computeInventoryPolicy(forecast(50, 5), [], settings)).toBeNull();
+    expect(computeInventoryPolicy(forecast(0, 5), history, settings)).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { HistoricalData, ForecastResult, FilterState, ForecastGranularity, InventorySettings, LeadTimeVariabilitySource, ServiceLevel } from '../types';
+import { SEASON_LENGTHS, average } from './timeSeries';
+import { forecastDemand } from './forecastEngine';
+import { formatMoney } from './currencyService';
+
+/**
+ * Deterministic inventory policy per combination:
+ * - EOQ = √(2·D·S / H), with annual demand D, ordering cost S and holding cost H = unit price × holding rate.
+ * - Safety stock = z · √(L·σd² + d²·σL²), combining daily demand variability with lead-time variability.
+ * - Reorder point = d·L + safety stock.
+ * Demand is projected from the quantity history; price and lead time come from the forecast.
+ * σL is the standard deviation of observed lead times unless the forecast's uncertainty is explicitly selected.
+ */
+
+export const SERVICE_LEVELS: ServiceLevel[] = [90, 95, 97.5, 99, 99.5];
+
+// One-sided standard normal quantiles: the share of lead times without a stock-out
+export const SERVICE_LEVEL_Z: Record<ServiceLevel, number> = {
+  90: 1.2816,
+  95: 1.6449,
+  97.5: 1.96,
+  99: 2.3263,
+  99.5: 2.5758
+};
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  orderingCost: 150,
+  holdingCostRate: 20,
+  serviceLevel: 95,
+  leadTimeVariability: 'history'
+};
+
+export const LEAD_TIME_VARIABILITY_LABELS: Record<LeadTimeVariabilitySource, string> = {
+  history: 'Observed lead times',
+  forecast: 'Forecast uncertainty'
+};
+
+export interface InventoryPolicy extends FilterState {
+  granularity: ForecastGranularity;
+  annualDemand: number;
+  dailyDemand: number;
+  dailyDemandStdDev: number;
+  unitPrice: number;
+  orderingCost: number;
+  holdingCost: number; // Per unit per year
+  leadTime: number; // Days
+  leadTimeStdDev: number;
+  leadTimeStdDevBasis: LeadTimeVariabilitySource; // Source actually used; 'forecast' falls back to history when the engine gives none
+  serviceLevel: ServiceLevel;
+  z: number;
+  eoq: number;
+  ordersPerYear: number;
+  safetyStock: number;
+  reorderPoint: number;
+  annualCost: number; // Ordering plus cycle and safety stock holding cost
+}
+
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = average(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Null when the combination has no demand history or no positive price and demand to size an order from.
+ */
+export const computeInventoryPolicy = (
+  forecast: ForecastResult,
+  history: HistoricalData[],
+  settings: InventorySettings
+): InventoryPolicy | null => {
+  const granularity = forecast.granularity || 'monthly';
+  const horizon = Math.max(1, forecast.forecast.length);
+  const demand = forecastDemand(history, forecast, { horizon, granularity });
+  if (!demand) return null;
+
+  const periodsPerYear = SEASON_LENGTHS[granularity];
+  const daysPerPeriod = 365 / periodsPerYear;
+  const annualDemand = average(demand.perPeriod) * periodsPerYear;
+  const unitPrice = forecast.summary.avgPredictedPrice;
+  const holdingCost = unitPrice * settings.holdingCostRate / 100;
+  if (annualDemand <= 0 || holdingCost <= 0) return null;
+
+  // Only some engines estimate the uncertainty of their lead-time prediction, and only when asked for is it used
+  const pointStdDevs = settings.leadTimeVariability === 'forecast'
+    ? forecast.forecast.map(p => p.leadTimeStdDev).filter((v): v is number => v !== undefined)
+    : [];
+  const leadTimeStdDevBasis: LeadTimeVariabilitySource = pointStdDevs.length > 0 ? 'forecast' : 'history';
+  const leadTimeStdDev = pointStdDevs.length > 0
+    ? average(pointStdDevs)
+    : stdDev(history.filter(r => r.partNumber === forecast.partNumber && r.vendor === forecast.vendor && r.country === forecast.country).map(r => r.leadTimeDays));
+
+  const leadTime = forecast.summary.avgPredictedLeadTime;
+  const dailyDemand = annualDemand / 365;
+  // Period errors are assumed independent from day to day within the period
+  const dailyDemandStdDev = demand.stdDev / Math.sqrt(daysPerPeriod);
+  const z = SERVICE_LEVEL_Z[settings.serviceLevel];
+
+  const eoq = Math.sqrt((2 * annualDemand * settings.orderingCost) / holdingCost);
+  const safetyStock = z * Math.sqrt(leadTime * dailyDemandStdDev ** 2 + dailyDemand ** 2 * leadTimeStdDev ** 2);
+  const reorderPoint = dailyDemand * leadTime + safetyStock;
+
+  return {
+    partNumber: forecast.partNumber,
+    vendor: forecast.vendor,
+    country: forecast.country,
+    granularity,
+    annualDemand,
+    dailyDemand,
+    dailyDemandStdDev,
+    unitPrice,
+    orderingCost: settings.orderingCost,
+    holdingCost,
+    leadTime,
+    leadTimeStdDev,
+    leadTimeStdDevBasis,
+    serviceLevel: settings.serviceLevel,
+    z,
+    eoq: Math.ceil(eoq),
+    ordersPerYear: annualDemand / eoq,
+    safetyStock: Math.ceil(safetyStock),
+    reorderPoint: Math.ceil(reorderPoint),
+    annualCost: (annualDemand / eoq) * settings.orderingCost + (eoq / 2 + safetyStock) * holdingCost
+  };
+};
+
+export const computeInventoryPolicies = (forecasts: ForecastResult[], history: HistoricalData[], settings: InventorySettings): InventoryPolicy[] =>
+  forecasts.flatMap(f => {
+    const policy = computeInventoryPolicy(f, history, settings);
+    return policy ? [policy] : [];
+  });
+
+/**
+ * The formulas with the policy's own inputs substituted, for display and export.
+ */
+export const describeInventoryFormulas = (policy: InventoryPolicy, currency: string): { eoq: string, safetyStock: string, reorderPoint: string } => {
+  const n = (value: number, digits: number = 1) => value.toLocaleString(undefined, { maximumFractionDigits: digits });
+  return {
+    eoq: `√(2 × ${n(policy.annualDemand, 0)} × ${formatMoney(policy.orderingCost, currency)} / ${formatMoney(policy.holdingCost, currency)}) = ${n(policy.eoq, 0)}`,
+    safetyStock: `${policy.z} × √(${n(policy.leadTime)} × ${n(policy.dailyDemandStdDev, 2)}² + ${n(policy.dailyDemand, 2)}² × ${n(policy.leadTimeStdDev, 2)}²) = ${n(policy.safetyStock, 0)}`,
+    reorderPoint: `${n(policy.dailyDemand, 2)} × ${n(policy.leadTime)} + ${n(policy.safetyStock, 0)} = ${n(policy.reorderPoint, 0)}`
+  };
+};
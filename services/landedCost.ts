@@ -0,0 +1,103 @@
+import { Incoterm, LandedCostRule, LandedCostSettings } from '../types';
+
+/**
+ * Landed cost and total cost of ownership (TCO) per unit.
+ * Landed cost adds the freight and duty the buyer pays under the Incoterm to the unit price;
+ * TCO then deducts the financing value of the payment terms at the configured cost of capital.
+ * Historical prices and forecasts carry no Incoterm, so they are costed on the default basis.
+ */
+
+export const INCOTERMS: Incoterm[] = ['EXW', 'FCA', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'];
+
+// Which costs the quoted price already includes
+const SELLER_PAYS: Record<Incoterm, { freight: boolean, duty: boolean }> = {
+  EXW: { freight: false, duty: false },
+  FCA: { freight: false, duty: false },
+  FOB: { freight: false, duty: false },
+  CFR: { freight: true, duty: false },
+  CIF: { freight: true, duty: false },
+  CPT: { freight: true, duty: false },
+  CIP: { freight: true, duty: false },
+  DAP: { freight: true, duty: false },
+  DPU: { freight: true, duty: false },
+  DDP: { freight: true, duty: true }
+};
+
+export const DEFAULT_LANDED_COST_SETTINGS: LandedCostSettings = {
+  defaultIncoterm: 'FOB',
+  defaultPaymentTermsDays: 30,
+  costOfCapital: 8
+};
+
+export const MAX_PAYMENT_TERMS_DAYS = 365;
+
+export interface LandedCostModel {
+  rules: LandedCostRule[];
+  settings: LandedCostSettings;
+}
+
+export interface CostBasis {
+  country: string;
+  category?: string;
+  incoterm?: Incoterm;
+  paymentTermsDays?: number;
+}
+
+export interface CostBreakdown {
+  unitPrice: number;
+  freight: number;
+  duty: number;
+  landedCost: number;
+  financing: number; // Value of the payment terms, deducted from the landed cost
+  tco: number;
+  rule?: LandedCostRule;
+}
+
+export const normalizeIncoterm = (raw: string | undefined): Incoterm | undefined => {
+  // Terms are often written with a named place, e.g. "FOB Shanghai"
+  const code = (raw || '').trim().toUpperCase().split(/\s+/)[0];
+  return INCOTERMS.find(term => term === code);
+};
+
+const sameText = (a: string | undefined, b: string | undefined): boolean =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Rule lookup: the country's rule for the category, else its rule without a category.
+ */
+export const findLandedCostRule = (rules: LandedCostRule[], country: string, category?: string): LandedCostRule | undefined => {
+  const forCountry = rules.filter(r => sameText(r.country, country));
+  return (category ? forCountry.find(r => sameText(r.category, category)) : undefined)
+    ?? forCountry.find(r => !r.category);
+};
+
+// Later uploads replace earlier rules for the same country and category
+export const mergeLandedCostRules = (existing: LandedCostRule[], incoming: LandedCostRule[]): LandedCostRule[] => {
+  const byKey = new Map<string, LandedCostRule>();
+  [...existing, ...incoming].forEach(r => byKey.set(`${r.country.trim().toLowerCase()}|${(r.category || '').trim().toLowerCase()}`, r));
+  return Array.from(byKey.values()).sort((a, b) => a.country.localeCompare(b.country) || (a.category || '').localeCompare(b.category || ''));
+};
+
+export const costBreakdown = (unitPrice: number, basis: CostBasis, model: LandedCostModel): CostBreakdown => {
+  const { settings } = model;
+  const rule = findLandedCostRule(model.rules, basis.country, basis.category);
+  const included = SELLER_PAYS[basis.incoterm || settings.defaultIncoterm];
+  const freight = rule && !included.freight ? rule.freightPerUnit : 0;
+  // Duty is assessed on the CIF value; under C- and D-terms the price already includes the freight
+  const duty = rule && !included.duty ? (unitPrice + freight) * rule.dutyRate / 100 : 0;
+  const landedCost = unitPrice + freight + duty;
+  const termsDays = basis.paymentTermsDays ?? settings.defaultPaymentTermsDays;
+  const financing = landedCost * (settings.costOfCapital / 100) * (termsDays / 365);
+  return { unitPrice, freight, duty, landedCost, financing, tco: landedCost - financing, rule };
+};
+
+// TCO of a forecast price, which carries no Incoterm or payment terms of its own
+export const forecastTco = (unitPrice: number, basis: Pick<CostBasis, 'country' | 'category'>, model: LandedCostModel): number =>
+  costBreakdown(unitPrice, { country: basis.country, category: basis.category }, model).tco;
+
+// Quotes without a category inherit the one recorded for the part in the history
+export const assignCategories = <T extends { partNumber: string, category?: string }>(items: T[], history: { partNumber: string, category?: string }[]): T[] => {
+  const byPart = new Map<string, string>();
+  history.forEach(h => { if (h.category && !byPart.has(h.partNumber)) byPart.set(h.partNumber, h.category); });
+  return items.map(item => item.category || !byPart.has(item.partNumber) ? item : { ...item, category: byPart.get(item.partNumber) });
+};
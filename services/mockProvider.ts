@@ -0,0 +1,102 @@
+import { FilterState, BenchmarkStatus } from "../types";
+import { AIProvider, AIRequest } from "./aiProvider";
+import { ResampledPoint } from "./timeSeries";
+
+/**
+ * Offline provider that answers every request with a deterministic, schema-valid response
+ * derived from the request payload. Same input, same output: suitable for demos and tests.
+ */
+
+export const MOCK_MODEL = 'mock-deterministic';
+
+interface ForecastPayload {
+  combo: FilterState;
+  history: ResampledPoint[];
+  dates: string[];
+}
+
+interface BulkPayloadItem {
+  combo: FilterState;
+  history: ResampledPoint[];
+  forecastDates: string[];
+}
+
+interface CommentaryPayloadItem {
+  index: number;
+  part: string;
+  priceStatus: BenchmarkStatus;
+  leadTimeStatus: BenchmarkStatus;
+}
+
+// Stable per-combination drift in [-1%, +1%] per period
+const driftFor = (combo: FilterState): number => {
+  const text = `${combo.partNumber}|${combo.vendor}|${combo.country}`;
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return ((Math.abs(hash) % 201) - 100) / 10000;
+};
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+const mockForecast = (combo: FilterState, history: ResampledPoint[], dates: string[]) => {
+  const last = history[history.length - 1] || { price: 0, leadTime: 0, quantity: 0 };
+  const drift = driftFor(combo);
+  const forecast = dates.map((date, i) => {
+    const price = last.price * (1 + drift * (i + 1));
+    const spread = price * (0.05 + 0.01 * i);
+    return {
+      date,
+      predictedPrice: round(price),
+      predictedLeadTime: round(last.leadTime, 1),
+      confidenceIntervalUpper: round(price + spread),
+      confidenceIntervalLower: round(Math.max(0, price - spread))
+    };
+  });
+  const avg = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(values.length, 1);
+  return {
+    partNumber: combo.partNumber,
+    vendor: combo.vendor,
+    country: combo.country,
+    forecast,
+    summary: {
+      avgPredictedPrice: round(avg(forecast.map(p => p.predictedPrice))),
+      avgPredictedLeadTime: round(avg(forecast.map(p => p.predictedLeadTime)), 1),
+      priceTrend: drift > 0.002 ? 'up' : drift < -0.002 ? 'down' : 'stable',
+      leadTimeTrend: 'stable',
+      optimizedOrderQuantity: Math.round(avg(history.map(h => h.quantity / Math.max(h.orders, 1))))
+    }
+  };
+};
+
+const MOCK_ACTIONS: Record<BenchmarkStatus, string> = {
+  favorable: 'Lock in the current terms',
+  warning: 'Negotiate toward the baseline average',
+  critical: 'Escalate and request a revised quote',
+  anomaly: 'Verify the quote scope before accepting'
+};
+
+const respond = (request: AIRequest): unknown => {
+  switch (request.task) {
+    case 'forecast': {
+      const { combo, history, dates } = request.payload as ForecastPayload;
+      return mockForecast(combo, history, dates);
+    }
+    case 'bulk-forecast':
+      return (request.payload as BulkPayloadItem[]).map(item => mockForecast(item.combo, item.history, item.forecastDates));
+    case 'benchmark-commentary':
+      return (request.payload as CommentaryPayloadItem[]).map(item => ({
+        index: item.index,
+        comment: `[Mock] ${item.part}: price ${item.priceStatus}, lead time ${item.leadTimeStatus}. ${MOCK_ACTIONS[item.priceStatus === 'favorable' ? item.leadTimeStatus : item.priceStatus]}.`
+      }));
+  }
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  models: [MOCK_MODEL],
+  commentaryModel: MOCK_MODEL,
+  generateJson: async request => {
+    if (request.signal?.aborted) throw new Error("Request aborted.");
+    return JSON.stringify(respond(request));
+  }
+});
@@ -0,0 +1,63 @@
+import { Schema } from "@google/genai";
+import { AIProviderSettings } from "../types";
+import { AIProvider } from "./aiProvider";
+
+/**
+ * Chat Completions client for self-hosted servers (Ollama, vLLM, LM Studio) and any other
+ * endpoint implementing the OpenAI `/chat/completions` API.
+ */
+
+// Gemini schemas use upper-case type names; JSON Schema expects lower case
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+// Smaller local models often wrap JSON in a Markdown code fence despite the response format
+const stripCodeFence = (text: string | undefined): string | undefined => {
+  if (!text) return text;
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : text;
+};
+
+export const createOpenAICompatibleProvider = (settings: AIProviderSettings): AIProvider => ({
+  id: 'openai-compatible',
+  models: [settings.model],
+  commentaryModel: settings.model,
+  generateJson: async ({ model, systemInstruction, contents, responseSchema, signal }) => {
+    if (!settings.baseUrl.trim()) throw new Error("Provider Configuration Error: Set the base URL of the OpenAI-compatible server.");
+    if (!model.trim()) throw new Error("Provider Configuration Error: Set the model name served by the OpenAI-compatible server.");
+
+    const response = await fetch(`${settings.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: contents }
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(responseSchema) } }
+      }),
+      signal
+    });
+
+    // Status codes are kept in the message so rate limits and auth failures are categorized like Gemini errors
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    const body = await response.json();
+    return stripCodeFence(body?.choices?.[0]?.message?.content);
+  }
+});
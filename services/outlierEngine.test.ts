@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { detectOutliers, isExcludedOutlier, DEFAULT_OUTLIER_SETTINGS } from './outlierEngine';
+import { HistoricalData, OutlierSettings } from '../types';
+
+const rows = (prices: number[], partNumber: string = 'P1', leadTimes?: number[]): HistoricalData[] =>
+  prices.map((usdPrice, i) => ({
+    id: `${partNumber}-${i}`, partNumber, vendor: 'V1', country: 'US', usdPrice, quantity: 1,
+    leadTimeDays: leadTimes?.[i] ?? 30, date: new Date(Date.UTC(2024, i, 1)).toISOString().slice(0, 10)
+  }));
+
+const flaggedIds = (data: HistoricalData[], settings: OutlierSettings = DEFAULT_OUTLIER_SETTINGS) =>
+  detectOutliers(data, settings).flagged.filter(d => d.isOutlier).map(d => d.id);
+
+describe('detectOutliers', () => {
+  const prices = [100, 102, 98, 101, 99, 103, 400];
+
+  it.each([
+    ['iqr', 1.5],
+    ['zscore', 2],
+    ['mad', 3.5],
+    ['rolling', 3]
+  ] as const)('flags the spike with the %s method', (method, threshold) => {
+    expect(flaggedIds(rows(prices), { ...DEFAULT_OUTLIER_SETTINGS, method, threshold })).toEqual(['P1-6']);
+  });
+
+  it('computes bounds per combination so price levels do not mix', () => {
+    const data = [...rows([10, 11, 10, 12, 11]), ...rows([1000, 1010, 990, 1005, 995], 'P2')];
+    expect(flaggedIds(data)).toEqual([]);
+  });
+
+  it('leaves combinations with too few rows alone', () => {
+    expect(flaggedIds(rows([10, 10, 500]))).toEqual([]);
+  });
+
+  it('checks lead time only when asked to', () => {
+    const data = rows([100, 100, 100, 100, 100, 100], 'P1', [30, 31, 29, 30, 31, 120]);
+    expect(flaggedIds(data)).toEqual(['P1-5']);
+    expect(flaggedIds(data, { ...DEFAULT_OUTLIER_SETTINGS, checkLeadTime: false })).toEqual([]);
+  });
+
+  it('flags rows instead of removing them and explains why', () => {
+    const { flagged, outlierCount } = detectOutliers(rows(prices), DEFAULT_OUTLIER_SETTINGS);
+    expect(flagged).toHaveLength(prices.length);
+    expect(outlierCount).toBe(1);
+    expect(flagged[6].outlierReason).toContain('Price 400.00 outside IQR bounds');
+  });
+
+  it('keeps user restorations of rows that are still flagged and clears stale flags', () => {
+    const data = rows(prices);
+    data[6] = { ...data[6], isOutlier: true, outlierRestored: true };
+    data[0] = { ...data[0], isOutlier: true, outlierReason: 'old' };
+    const { flagged, outlierCount } = detectOutliers(data, DEFAULT_OUTLIER_SETTINGS);
+    expect(flagged[6].outlierRestored).toBe(true);
+    expect(isExcludedOutlier(flagged[6])).toBe(false);
+    expect(flagged[0]).toMatchObject({ isOutlier: false, outlierReason: undefined });
+    expect(outlierCount).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+import { HistoricalData, OutlierMethod, OutlierSettings } from '../types';
+
+/**
+ * Outlier detection for procurement history.
+ * Bounds are computed separately for every part/vendor/country combination so cheap and
+ * expensive items never distort each other. Rows are flagged rather than removed; a flagged
+ * row is excluded from analysis unless the user restores it.
+ */
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  iqr: 'Interquartile Range',
+  zscore: 'Z-Score',
+  mad: 'Median Absolute Deviation',
+  rolling: 'Rolling Window'
+};
+
+export const DEFAULT_THRESHOLDS: Record<OutlierMethod, number> = {
+  iqr: 1.5,
+  zscore: 3,
+  mad: 3.5,
+  rolling: 3
+};
+
+export const DEFAULT_OUTLIER_SETTINGS: OutlierSettings = {
+  method: 'iqr',
+  threshold: DEFAULT_THRESHOLDS.iqr,
+  window: 6,
+  checkLeadTime: true
+};
+
+const MIN_GROUP_SIZE = 4;
+// Scales MAD so the modified z-score is comparable to a standard z-score for normal data
+const MAD_SCALE = 0.6745;
+
+interface MetricSpec {
+  label: string;
+  read: (d: HistoricalData) => number;
+  format: (v: number) => string;
+}
+
+const METRICS: Record<'price' | 'leadTime', MetricSpec> = {
+  price: { label: 'Price', read: d => d.usdPrice, format: v => v.toFixed(2) },
+  leadTime: { label: 'Lead time', read: d => d.leadTimeDays, format: v => `${v.toFixed(0)}d` }
+};
+
+export const isExcludedOutlier = (d: HistoricalData): boolean => !!d.isOutlier && !d.outlierRestored;
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const stdDev = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / values.length);
+};
+
+const median = (values: number[]): number => quantile([...values].sort((a, b) => a - b), 0.5);
+
+/**
+ * Returns a reason for every index in `values` that is an outlier under the given settings.
+ * `values` must be in chronological order for the rolling method.
+ */
+const findOutliers = (values: number[], metric: MetricSpec, settings: OutlierSettings): Map<number, string> => {
+  const reasons = new Map<number, string>();
+  const k = settings.threshold;
+
+  switch (settings.method) {
+    case 'iqr': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const lower = q1 - k * (q3 - q1);
+      const upper = q3 + k * (q3 - q1);
+      values.forEach((v, i) => {
+        if (v < lower || v > upper) {
+          reasons.set(i, `${metric.label} ${metric.format(v)} outside IQR bounds ${metric.format(lower)}–${metric.format(upper)} (k=${k}).`);
+        }
+      });
+      break;
+    }
+    case 'zscore': {
+      const m = mean(values);
+      const sd = stdDev(values);
+      if (sd === 0) break;
+      values.forEach((v, i) => {
+        const z = (v - m) / sd;
+        if (Math.abs(z) > k) reasons.set(i, `${metric.label} ${metric.format(v)} has z-score ${z.toFixed(2)} (limit ±${k}).`);
+      });
+      break;
+    }
+    case 'mad': {
+      const med = median(values);
+      const mad = median(values.map(v => Math.abs(v - med)));
+      if (mad === 0) break;
+      values.forEach((v, i) => {
+        const score = (MAD_SCALE * (v - med)) / mad;
+        if (Math.abs(score) > k) reasons.set(i, `${metric.label} ${metric.format(v)} has modified z-score ${score.toFixed(2)} around median ${metric.format(med)} (limit ±${k}).`);
+      });
+      break;
+    }
+    case 'rolling': {
+      const window = Math.max(3, Math.round(settings.window));
+      values.forEach((v, i) => {
+        const prior = values.slice(Math.max(0, i - window), i);
+        if (prior.length < 3) return;
+        const m = mean(prior);
+        const sd = stdDev(prior);
+        if (sd === 0) return;
+        const z = (v - m) / sd;
+        if (Math.abs(z) > k) reasons.set(i, `${metric.label} ${metric.format(v)} deviates ${z.toFixed(2)}σ from the trailing ${prior.length}-order mean ${metric.format(m)} (limit ±${k}).`);
+      });
+      break;
+    }
+  }
+  return reasons;
+};
+
+/**
+ * Flags outliers in `data` and returns every row (flagged or not) with fresh `isOutlier`/`outlierReason` values.
+ * Restorations made by the user are kept for rows that are still flagged.
+ */
+export const detectOutliers = (data: HistoricalData[], settings: OutlierSettings): { flagged: HistoricalData[], outlierCount: number } => {
+  const groups = new Map<string, HistoricalData[]>();
+  data.forEach(d => {
+    const key = `${d.partNumber}|${d.vendor}|${d.country}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(d);
+  });
+
+  const reasonsById = new Map<string, string[]>();
+  groups.forEach(rows => {
+    if (rows.length < MIN_GROUP_SIZE) return;
+    const ordered = [...rows].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const metrics = settings.checkLeadTime ? [METRICS.price, METRICS.leadTime] : [METRICS.price];
+    metrics.forEach(metric => {
+      findOutliers(ordered.map(metric.read), metric, settings).forEach((reason, i) => {
+        const id = ordered[i].id;
+        reasonsById.set(id, [...(reasonsById.get(id) || []), reason]);
+      });
+    });
+  });
+
+  const flagged = data.map(d => {
+    const reasons = reasonsById.get(d.id);
+    if (!reasons) return { ...d, isOutlier: false, outlierReason: undefined, outlierRestored: undefined };
+    return { ...d, isOutlier: true, outlierReason: reasons.join(' '), outlierRestored: d.outlierRestored };
+  });
+
+  return { flagged, outlierCount: flagged.filter(isExcludedOutlier).length };
+};
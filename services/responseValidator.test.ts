@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { validateForecast, validateBulkForecasts, validateBenchmarkComments, validateBenchmarkResult, repairFeedback, ForecastExpectation } from './responseValidator';
+import { BenchmarkResult } from '../types';
+
+const combo = { partNumber: 'P1', vendor: 'V1', country: 'US' };
+
+const expectation = (c = combo): ForecastExpectation => ({
+  combo: c, dates: ['2024-01-01', '2024-02-01'], granularity: 'monthly', fallbackOrderQuantity: 40
+});
+
+const point = (date: string, predictedPrice: unknown, extra: Record<string, unknown> = {}) => ({
+  date, predictedPrice, predictedLeadTime: 30, confidenceIntervalLower: 90, confidenceIntervalUpper: 110, ...extra
+});
+
+const response = (overrides: Record<string, unknown> = {}) => ({
+  ...combo,
+  forecast: [point('2024-01-01', 100), point('2024-02-01', 104)],
+  summary: { avgPredictedPrice: 102, avgPredictedLeadTime: 30, priceTrend: 'up', leadTimeTrend: 'stable', optimizedOrderQuantity: 50 },
+  ...overrides
+});
+
+const actions = (issues: { action: string }[]) => issues.map(i => i.action);
+
+describe('validateForecast', () => {
+  it('accepts a well-formed forecast without issues', () => {
+    const { result, issues } = validateForecast(response(), expectation());
+    expect(issues).toEqual([]);
+    expect(result!.summary).toMatchObject({ avgPredictedPrice: 102, priceTrend: 'up', optimizedOrderQuantity: 50 });
+  });
+
+  it.each([
+    ['nothing', null],
+    ['a list', [response()]],
+    ['a text', 'forecast'],
+    ['no points', response({ forecast: [] })],
+    ['a negative price', response({ forecast: [point('2024-01-01', -1), point('2024-02-01', 1)] })],
+    ['a price that is not a number', response({ forecast: [point('2024-01-01', 'cheap'), point('2024-02-01', 1)] })],
+    ['too few points', response({ forecast: [point('2024-01-01', 100)] })]
+  ])('rejects %s', (_, raw) => {
+    const { result, issues } = validateForecast(raw, expectation());
+    expect(result).toBeNull();
+    expect(actions(issues)).toContain('rejected');
+  });
+
+  it('repairs small defects in place', () => {
+    const { result, issues } = validateForecast(response({
+      partNumber: 'WRONG',
+      forecast: [
+        point('2024-02-01', '104'),
+        point('2024-01-01', 100, { confidenceIntervalLower: 120, confidenceIntervalUpper: 80 }),
+        point('2024-03-01', 108)
+      ],
+      summary: { avgPredictedPrice: 999, priceTrend: 'rising', optimizedOrderQuantity: -5 }
+    }), expectation());
+    expect(issues.every(i => i.action === 'repaired')).toBe(true);
+    expect(result!.partNumber).toBe('P1');
+    expect(result!.forecast.map(p => [p.date, p.predictedPrice, p.confidenceIntervalLower, p.confidenceIntervalUpper])).toEqual([
+      ['2024-01-01', 100, 80, 120],
+      ['2024-02-01', 104, 90, 110]
+    ]);
+    expect(result!.summary).toMatchObject({ avgPredictedPrice: 102, priceTrend: 'up', optimizedOrderQuantity: 40 });
+  });
+
+  it('takes points in order and realigns their dates when dates are unusable', () => {
+    const { result, issues } = validateForecast(response({ forecast: [point('soon', 100), { ...point('', 104), date: 7 }] }), expectation());
+    expect(result!.forecast.map(p => p.date)).toEqual(['2024-01-01', '2024-02-01']);
+    expect(issues.map(i => i.message)).toContain('Some dates were missing or unparseable; points taken in the order returned.');
+  });
+});
+
+describe('validateBulkForecasts', () => {
+  const other = { ...combo, vendor: 'V2' };
+
+  it('matches items to the requested combinations and reports the rest', () => {
+    const { results, failed, issues } = validateBulkForecasts(
+      [response(), response(), { ...response(), vendor: 'V9' }, 'junk'],
+      [expectation(), expectation(other)]
+    );
+    expect(results.map(r => r.vendor)).toEqual(['V1']);
+    expect(failed.map(f => f.combo)).toEqual([other]);
+    expect(issues.map(i => [i.item, i.action])).toEqual([
+      ['P1 / V1 / US', 'repaired'],
+      ['P1 / V9 / US', 'rejected'],
+      ['Item 4', 'rejected'],
+      ['P1 / V2 / US', 'rejected']
+    ]);
+  });
+
+  it('fails every combination when the response is not an array', () => {
+    const { results, failed } = validateBulkForecasts({ forecast: [] }, [expectation(), expectation(other)]);
+    expect(results).toEqual([]);
+    expect(failed).toHaveLength(2);
+  });
+});
+
+describe('validateBenchmarkComments', () => {
+  const labelFor = (i: number) => `Rate ${i}`;
+
+  it('keeps one comment per requested index', () => {
+    const { comments, missing, issues } = validateBenchmarkComments(
+      [{ index: 0, comment: '  Price   is fine. ' }, { index: '0', comment: 'again' }, { index: 7, comment: 'stray' }, null, { index: 1, comment: '' }],
+      [0, 1, 2],
+      labelFor
+    );
+    expect([...comments]).toEqual([[0, 'Price is fine.']]);
+    expect(missing).toEqual([1, 2]);
+    expect(issues.map(i => [i.item, i.action])).toEqual([
+      ['Rate 0', 'repaired'],
+      ['Comment 3', 'rejected'],
+      ['Comment 4', 'rejected'],
+      ['Rate 1', 'rejected'],
+      ['Rate 2', 'rejected']
+    ]);
+  });
+
+  it('truncates long comments', () => {
+    const { comments } = validateBenchmarkComments([{ index: 0, comment: 'x'.repeat(700) }], [0], labelFor);
+    expect(comments.get(0)).toHaveLength(600);
+  });
+});
+
+describe('validateBenchmarkResult', () => {
+  it('restores rule-engine statuses and a missing comment', () => {
+    const rule = { ...combo, priceStatus: 'warning', leadTimeStatus: 'favorable', comment: 'Rule comment.' } as BenchmarkResult;
+    const { result, issues } = validateBenchmarkResult({ ...rule, priceStatus: 'favorable', comment: ' ' }, rule);
+    expect(result).toMatchObject({ priceStatus: 'warning', comment: 'Rule comment.' });
+    expect(issues).toHaveLength(2);
+  });
+});
+
+describe('repairFeedback', () => {
+  it('lists only problems the model has to fix', () => {
+    expect(repairFeedback([{ item: 'A', message: 'fixed', action: 'repaired' }])).toBe('');
+    expect(repairFeedback([{ item: 'A', message: 'Missing from the response.', action: 'rejected' }])).toContain('- A: Missing from the response.');
+  });
+});
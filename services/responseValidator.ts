@@ -0,0 +1,313 @@
+import { FilterState, ForecastResult, ForecastPoint, ForecastGranularity, BenchmarkResult, BenchmarkStatus, ValidationIssue, ValidationReport } from '../types';
+import { periodStart } from './timeSeries';
+
+/**
+ * Runtime validation for model output.
+ * Nothing returned by the AI is trusted: every item is checked against the shape the UI relies on,
+ * small defects are repaired in place and anything unrecoverable is rejected so it can be re-requested.
+ */
+
+export interface ForecastExpectation {
+  combo: FilterState;
+  dates: string[]; // Period start dates the forecast must cover, in order
+  granularity: ForecastGranularity;
+  fallbackOrderQuantity: number;
+}
+
+const TRENDS = ['up', 'down', 'stable'] as const;
+const BENCHMARK_STATUSES: BenchmarkStatus[] = ['favorable', 'warning', 'critical', 'anomaly'];
+const TREND_TOLERANCE = 0.02;
+const SUMMARY_TOLERANCE = 0.01;
+const MAX_COMMENT_LENGTH = 600;
+
+export const comboLabel = (c: FilterState): string => `${c.partNumber} / ${c.vendor} / ${c.country}`;
+
+const comboKey = (c: { partNumber?: unknown, vendor?: unknown, country?: unknown }): string =>
+  [c.partNumber, c.vendor, c.country].map(v => String(v ?? '').trim().toLowerCase()).join('|');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const deriveTrend = (values: number[]): 'up' | 'down' | 'stable' => {
+  const first = values[0];
+  const last = values[values.length - 1];
+  if (!first) return 'stable';
+  const change = (last - first) / Math.abs(first);
+  return change > TREND_TOLERANCE ? 'up' : change < -TREND_TOLERANCE ? 'down' : 'stable';
+};
+
+/**
+ * Instructions appended to a re-request so the model knows what was wrong with its previous answer.
+ */
+export const repairFeedback = (issues: ValidationIssue[]): string => {
+  const problems = issues.filter(i => i.action !== 'repaired');
+  if (problems.length === 0) return '';
+  return `\n\nYour previous response was rejected for these reasons:\n${problems.map(i => `- ${i.item}: ${i.message}`).join('\n')}\nReturn a corrected response that follows the schema exactly.`;
+};
+
+export const buildValidationReport = (source: string, checked: number, rejected: number, issues: ValidationIssue[]): ValidationReport => ({
+  source,
+  checked,
+  repaired: new Set(issues.filter(i => i.action === 'repaired').map(i => i.item)).size,
+  retried: new Set(issues.filter(i => i.action === 'retried').map(i => i.item)).size,
+  rejected,
+  issues
+});
+
+// Turns the rejections of a non-final attempt into "retried" entries
+export const markRetried = (issues: ValidationIssue[], final: boolean): ValidationIssue[] =>
+  final ? issues : issues.map(i => i.action === 'rejected' ? { ...i, action: 'retried' } : i);
+
+export const validateForecast = (raw: unknown, expected: ForecastExpectation): { result: ForecastResult | null, issues: ValidationIssue[] } => {
+  const item = comboLabel(expected.combo);
+  const issues: ValidationIssue[] = [];
+  const repair = (message: string) => { issues.push({ item, message, action: 'repaired' }); };
+  const reject = (message: string) => {
+    issues.push({ item, message, action: 'rejected' });
+    return { result: null, issues };
+  };
+
+  if (raw === undefined || raw === null) return reject('Response was empty or not valid JSON.');
+  if (!isRecord(raw)) return reject('Response is not a forecast object.');
+  const rawPoints = raw.forecast;
+  if (!Array.isArray(rawPoints) || rawPoints.length === 0) return reject('Forecast contains no points.');
+
+  if (raw.partNumber !== undefined && String(raw.partNumber).trim() !== expected.combo.partNumber) {
+    repair(`Part number "${raw.partNumber}" replaced with the requested "${expected.combo.partNumber}".`);
+  }
+
+  let points: (ForecastPoint & { parsedDate: number })[] = [];
+  for (let i = 0; i < rawPoints.length; i++) {
+    const entry: unknown = rawPoints[i];
+    const p: Record<string, unknown> = isRecord(entry) ? entry : {};
+    const label = `Point ${i + 1}`;
+    const price = toNumber(p.predictedPrice);
+    const leadTime = toNumber(p.predictedLeadTime);
+    if (price === null || price < 0) return reject(`${label}: predictedPrice "${p.predictedPrice}" is not a non-negative number.`);
+    if (leadTime === null || leadTime < 0) return reject(`${label}: predictedLeadTime "${p.predictedLeadTime}" is not a non-negative number.`);
+    if (typeof p.predictedPrice !== 'number' || typeof p.predictedLeadTime !== 'number') repair(`${label}: numeric values were returned as text.`);
+
+    let upper = toNumber(p.confidenceIntervalUpper);
+    let lower = toNumber(p.confidenceIntervalLower);
+    if (upper === null || lower === null) {
+      repair(`${label}: missing confidence bound set to the predicted price.`);
+      upper = upper ?? price;
+      lower = lower ?? price;
+    }
+    if (lower > upper) {
+      repair(`${label}: confidence bounds were reversed.`);
+      [lower, upper] = [upper, lower];
+    }
+    if (price < lower || price > upper) {
+      repair(`${label}: predicted price ${price} was outside its interval ${lower}–${upper}; interval widened.`);
+      lower = Math.min(lower, price);
+      upper = Math.max(upper, price);
+    }
+    if (lower < 0) {
+      repair(`${label}: negative lower bound clamped to 0.`);
+      lower = 0;
+    }
+
+    points.push({
+      date: typeof p.date === 'string' ? p.date : '',
+      parsedDate: typeof p.date === 'string' ? new Date(p.date).getTime() : NaN,
+      predictedPrice: round(price),
+      predictedLeadTime: round(leadTime, 1),
+      confidenceIntervalUpper: round(upper),
+      confidenceIntervalLower: round(lower)
+    });
+  }
+
+  // Dates must be valid and strictly increasing; invalid dates fall back to positional order
+  const allDated = points.every(p => !isNaN(p.parsedDate));
+  if (allDated) {
+    const monotonic = points.every((p, i) => i === 0 || p.parsedDate > points[i - 1].parsedDate);
+    if (!monotonic) {
+      const sorted = [...points].sort((a, b) => a.parsedDate - b.parsedDate);
+      const unique = sorted.filter((p, i) => i === 0 || periodStart(p.date, expected.granularity) !== periodStart(sorted[i - 1].date, expected.granularity));
+      repair(`Dates were out of order${unique.length < sorted.length ? ` or duplicated (${sorted.length - unique.length} dropped)` : ''}; points re-sorted.`);
+      points = unique;
+    }
+  } else {
+    repair('Some dates were missing or unparseable; points taken in the order returned.');
+  }
+
+  if (points.length < expected.dates.length) {
+    return reject(`Expected ${expected.dates.length} forecast points, received ${points.length}.`);
+  }
+  if (points.length > expected.dates.length) {
+    repair(`Received ${points.length} points; truncated to the requested ${expected.dates.length}.`);
+    points = points.slice(0, expected.dates.length);
+  }
+
+  const misaligned = points.filter((p, i) => isNaN(p.parsedDate) || periodStart(p.date, expected.granularity) !== expected.dates[i]).length;
+  if (misaligned > 0) repair(`${misaligned} point date(s) realigned to the requested periods.`);
+  const forecast: ForecastPoint[] = points.map(({ parsedDate, ...p }, i) => ({ ...p, date: expected.dates[i] }));
+
+  const prices = forecast.map(p => p.predictedPrice);
+  const leadTimes = forecast.map(p => p.predictedLeadTime);
+  const summary: Record<string, unknown> = isRecord(raw.summary) ? raw.summary : {};
+  const avgPrice = round(mean(prices));
+  const avgLeadTime = round(mean(leadTimes), 1);
+
+  const reportedPrice = toNumber(summary.avgPredictedPrice);
+  if (reportedPrice === null || Math.abs(reportedPrice - avgPrice) > Math.abs(avgPrice) * SUMMARY_TOLERANCE) {
+    repair(`Average price recomputed from the forecast points (${avgPrice}).`);
+  }
+  const reportedLeadTime = toNumber(summary.avgPredictedLeadTime);
+  if (reportedLeadTime === null || Math.abs(reportedLeadTime - avgLeadTime) > Math.abs(avgLeadTime) * SUMMARY_TOLERANCE) {
+    repair(`Average lead time recomputed from the forecast points (${avgLeadTime}).`);
+  }
+
+  const trend = (value: unknown, values: number[], label: string): 'up' | 'down' | 'stable' => {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if ((TRENDS as readonly string[]).includes(normalized)) return normalized as 'up' | 'down' | 'stable';
+    const derived = deriveTrend(values);
+    repair(`${label} trend "${value}" is not up/down/stable; derived "${derived}" from the forecast.`);
+    return derived;
+  };
+
+  let orderQuantity = toNumber(summary.optimizedOrderQuantity);
+  if (orderQuantity === null || orderQuantity < 0) {
+    repair(`Order quantity "${summary.optimizedOrderQuantity}" replaced with the historical average (${expected.fallbackOrderQuantity}).`);
+    orderQuantity = expected.fallbackOrderQuantity;
+  }
+
+  return {
+    issues,
+    result: {
+      partNumber: expected.combo.partNumber,
+      vendor: expected.combo.vendor,
+      country: expected.combo.country,
+      granularity: expected.granularity,
+      forecast,
+      summary: {
+        avgPredictedPrice: avgPrice,
+        avgPredictedLeadTime: avgLeadTime,
+        priceTrend: trend(summary.priceTrend, prices, 'Price'),
+        leadTimeTrend: trend(summary.leadTimeTrend, leadTimes, 'Lead time'),
+        optimizedOrderQuantity: Math.round(orderQuantity)
+      }
+    }
+  };
+};
+
+/**
+ * Matches a bulk response to the requested combinations and validates each item.
+ * Items for combinations that were not requested, duplicates and missing combinations are reported.
+ */
+export const validateBulkForecasts = (
+  raw: unknown,
+  expectations: ForecastExpectation[]
+): { results: ForecastResult[], failed: ForecastExpectation[], issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(raw)) {
+    expectations.forEach(e => issues.push({ item: comboLabel(e.combo), message: 'Batch response was empty or not a JSON array.', action: 'rejected' }));
+    return { results: [], failed: expectations, issues };
+  }
+
+  const byKey = new Map(expectations.map(e => [comboKey(e.combo), e]));
+  const seen = new Set<string>();
+  const results: ForecastResult[] = [];
+
+  raw.forEach((entry: unknown, i: number) => {
+    const key = isRecord(entry) ? comboKey(entry) : '';
+    const expected = byKey.get(key);
+    const label = isRecord(entry) ? `${entry.partNumber} / ${entry.vendor} / ${entry.country}` : `Item ${i + 1}`;
+    if (!expected) {
+      issues.push({ item: label, message: 'Not one of the requested combinations; discarded.', action: 'rejected' });
+      return;
+    }
+    if (seen.has(key)) {
+      issues.push({ item: comboLabel(expected.combo), message: 'Duplicate item in response; only the first was kept.', action: 'repaired' });
+      return;
+    }
+    seen.add(key);
+    const validation = validateForecast(entry, expected);
+    issues.push(...validation.issues);
+    if (validation.result) results.push(validation.result);
+    else seen.delete(key);
+  });
+
+  const accepted = new Set(results.map(r => comboKey(r)));
+  const failed = expectations.filter(e => !accepted.has(comboKey(e.combo)));
+  failed.filter(e => !issues.some(i => i.item === comboLabel(e.combo) && i.action === 'rejected')).forEach(e => {
+    issues.push({ item: comboLabel(e.combo), message: 'Missing from the response.', action: 'rejected' });
+  });
+
+  return { results, failed, issues };
+};
+
+/**
+ * Validates `{ index, comment }` commentary against the indices that were requested.
+ */
+export const validateBenchmarkComments = (
+  raw: unknown,
+  expectedIndices: number[],
+  labelFor: (index: number) => string
+): { comments: Map<number, string>, missing: number[], issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const comments = new Map<number, string>();
+  const expected = new Set(expectedIndices);
+
+  if (Array.isArray(raw)) {
+    raw.forEach((entry: unknown, i: number) => {
+      const fields: Record<string, unknown> = isRecord(entry) ? entry : {};
+      const index = toNumber(fields.index);
+      if (index === null || !expected.has(index)) {
+        issues.push({ item: `Comment ${i + 1}`, message: `Index "${fields.index}" does not match a requested rate; discarded.`, action: 'rejected' });
+        return;
+      }
+      if (comments.has(index)) {
+        issues.push({ item: labelFor(index), message: 'Duplicate comment; only the first was kept.', action: 'repaired' });
+        return;
+      }
+      const text = typeof fields.comment === 'string' ? fields.comment.replace(/\s+/g, ' ').trim() : '';
+      if (!text) {
+        issues.push({ item: labelFor(index), message: 'Comment was empty.', action: 'rejected' });
+        return;
+      }
+      if (text.length > MAX_COMMENT_LENGTH) {
+        issues.push({ item: labelFor(index), message: `Comment truncated to ${MAX_COMMENT_LENGTH} characters.`, action: 'repaired' });
+      }
+      comments.set(index, text.length > MAX_COMMENT_LENGTH ? `${text.slice(0, MAX_COMMENT_LENGTH - 1)}…` : text);
+    });
+  }
+
+  const missing = expectedIndices.filter(i => !comments.has(i));
+  missing.filter(i => !issues.some(issue => issue.item === labelFor(i))).forEach(i => {
+    issues.push({ item: labelFor(i), message: Array.isArray(raw) ? 'No comment returned.' : 'Response was empty or not a JSON array.', action: 'rejected' });
+  });
+
+  return { comments, missing, issues };
+};
+
+/**
+ * Final guard on a merged benchmark row: statuses always come from the rule engine and a comment is always present.
+ */
+export const validateBenchmarkResult = (result: BenchmarkResult, ruleResult: BenchmarkResult): { result: BenchmarkResult, issues: ValidationIssue[] } => {
+  const item = comboLabel(result);
+  const issues: ValidationIssue[] = [];
+  const next = { ...result };
+  (['priceStatus', 'leadTimeStatus'] as const).forEach(field => {
+    if (!BENCHMARK_STATUSES.includes(next[field]) || next[field] !== ruleResult[field]) {
+      issues.push({ item, message: `${field} "${next[field]}" differs from the rule engine; restored to "${ruleResult[field]}".`, action: 'repaired' });
+      next[field] = ruleResult[field];
+    }
+  });
+  if (typeof next.comment !== 'string' || !next.comment.trim()) {
+    issues.push({ item, message: 'Missing comment replaced with the rule-engine comment.', action: 'repaired' });
+    next.comment = ruleResult.comment;
+  }
+  return { result: next, issues };
+};
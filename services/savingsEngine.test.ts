@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { coveredMonths, buildLedgerEntry, summarizeSavings, rollupSavings } from './savingsEngine';
+import { BenchmarkResult, ForecastResult, HistoricalData } from '../types';
+
+const rows = (vendor: string, prices: number[], quantity: number = 100): HistoricalData[] =>
+  prices.map((usdPrice, m) => ({
+    id: `${vendor}-${m}`, partNumber: 'P1', vendor, country: 'US', usdPrice, quantity, leadTimeDays: 30,
+    date: new Date(Date.UTC(2024, m, 1)).toISOString().slice(0, 10)
+  }));
+
+// Thirteen monthly orders: exactly 1,200 units in the trailing year, last paid 12
+const history = rows('V1', [10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 11, 12]);
+
+const forecast: ForecastResult = {
+  partNumber: 'P1', vendor: 'V1', country: 'US', granularity: 'monthly',
+  forecast: [
+    { date: '2025-02-01', predictedPrice: 10, predictedLeadTime: 30, confidenceIntervalUpper: 14, confidenceIntervalLower: 6 },
+    { date: '2025-03-01', predictedPrice: 12, predictedLeadTime: 30, confidenceIntervalUpper: 16, confidenceIntervalLower: 8 }
+  ],
+  summary: { avgPredictedPrice: 11, avgPredictedLeadTime: 30, priceTrend: 'up', leadTimeTrend: 'stable', optimizedOrderQuantity: 100 }
+};
+
+const quote = (proposedPrice: number, extra: Partial<BenchmarkResult> = {}): BenchmarkResult => ({
+  partNumber: 'P1', vendor: 'V1', country: 'US', proposedPrice, proposedLeadTime: 30,
+  priceStatus: 'warning', leadTimeStatus: 'favorable', confidenceMatch: true, comment: '', ...extra
+});
+
+describe('coveredMonths', () => {
+  it('uses the validity window, or a year when it is incomplete', () => {
+    expect(coveredMonths('2025-01-01', '2025-06-30')).toBeCloseTo(181 / (365 / 12), 6);
+    expect(coveredMonths('2025-01-01', '2025-01-01')).toBe(1);
+    expect(coveredMonths('2025-01-01')).toBe(12);
+    expect(coveredMonths('2025-06-01', '2025-01-01')).toBe(12);
+  });
+});
+
+describe('buildLedgerEntry', () => {
+  it('values an undated quote against the last price paid and the first forecast period', () => {
+    const entry = buildLedgerEntry(quote(11.5), history, [forecast]);
+    expect(entry).toMatchObject({
+      quantity: 1200, volumeBasis: 'vendor', lastPaidPrice: 12, lastPaidDate: '2025-01-01',
+      baselinePrice: 10, spend: 13800, savings: 600, costAvoidance: -1800, overspend: 1800
+    });
+  });
+
+  it('averages the forecast over the quote window only', () => {
+    const entry = buildLedgerEntry(quote(11, { effectiveFrom: '2025-03-01', effectiveTo: '2025-03-31' }), history, [forecast]);
+    expect(entry.baselinePrice).toBe(12);
+    expect(buildLedgerEntry(quote(11, { effectiveFrom: '2025-02-01', effectiveTo: '2025-03-31' }), history, [forecast]).baselinePrice).toBe(11);
+    expect(entry.quantity).toBeCloseTo(1200 * coveredMonths('2025-03-01', '2025-03-31') / 12, 2);
+    expect(entry.overspend).toBe(0);
+  });
+
+  it('does not depend on the interval level the forecast was stored at', () => {
+    const at90 = buildLedgerEntry(quote(11.5), history, [{ ...forecast, intervalLevel: 90 }]);
+    expect(at90.baselinePrice).toBe(10);
+  });
+
+  it('falls back to the part volume and leaves unknown figures empty', () => {
+    const entry = buildLedgerEntry(quote(9, { vendor: 'New' }), history, []);
+    expect(entry).toMatchObject({ volumeBasis: 'part', quantity: 1200, lastPaidPrice: null, savings: null, baselinePrice: null, costAvoidance: null, overspend: null });
+    expect(buildLedgerEntry(quote(9, { partNumber: 'P9' }), history, []).volumeBasis).toBe('none');
+  });
+});
+
+describe('roll-ups', () => {
+  const entries = [
+    buildLedgerEntry(quote(11.5), history, [forecast]),
+    buildLedgerEntry(quote(9, { vendor: 'New' }), history, [])
+  ];
+
+  it('skips missing figures in the totals', () => {
+    expect(summarizeSavings(entries)).toEqual({ quotes: 2, quantity: 2400, spend: 24600, savings: 600, costAvoidance: -1800, overspend: 1800 });
+  });
+
+  it('groups by the chosen field, largest spend first', () => {
+    expect(rollupSavings(entries, 'vendor').map(r => [r.key, r.spend])).toEqual([['V1', 13800], ['New', 10800]]);
+    expect(rollupSavings(entries, 'country')).toHaveLength(1);
+  });
+});
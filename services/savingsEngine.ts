@@ -0,0 +1,134 @@
+import { HistoricalData, ForecastResult, BenchmarkResult, BenchmarkStatus } from '../types';
+import { findBaselineForecast, selectBaselinePoints } from './benchmarkEngine';
+import { average } from './timeSeries';
+import { annualQuantity } from './sourcingEngine';
+
+/**
+ * Savings ledger: what each benchmarked quote is worth once applied to the volume it will cover.
+ * - Savings compare the quote with the last price paid to the same vendor and country.
+ * - Cost avoidance compares it with the forecast average over the quote's validity window.
+ * - Overspend is the part of the quote above the favorable range, whose ceiling is that same forecast average.
+ * All figures are on unit price in the reporting currency; positive savings and avoidance are good, positive overspend is not.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type VolumeBasis = 'vendor' | 'part' | 'none';
+
+export type SavingsGrouping = 'vendor' | 'country' | 'partNumber';
+
+export const SAVINGS_GROUPING_LABELS: Record<SavingsGrouping, string> = {
+  vendor: 'Vendor',
+  country: 'Country',
+  partNumber: 'Part'
+};
+
+export interface SavingsLedgerEntry {
+  partNumber: string;
+  vendor: string;
+  country: string;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  priceStatus: BenchmarkStatus;
+  quotedPrice: number;
+  lastPaidPrice: number | null;
+  lastPaidDate: string | null;
+  baselinePrice: number | null; // Forecast average over the validity window, the ceiling of the favorable range
+  quantity: number; // Volume the quote is expected to cover
+  volumeBasis: VolumeBasis;
+  volumeMonths: number;
+  spend: number;
+  savings: number | null;
+  costAvoidance: number | null;
+  overspend: number | null;
+}
+
+export interface SavingsRollup {
+  key: string;
+  quotes: number;
+  quantity: number;
+  spend: number;
+  savings: number;
+  costAvoidance: number;
+  overspend: number;
+}
+
+export type SavingsTotals = Omit<SavingsRollup, 'key'>;
+
+/**
+ * Months of volume a quote covers: its validity window when both ends are known, otherwise a year.
+ */
+export const coveredMonths = (effectiveFrom?: string, effectiveTo?: string): number => {
+  const from = effectiveFrom ? new Date(effectiveFrom).getTime() : NaN;
+  const to = effectiveTo ? new Date(effectiveTo).getTime() : NaN;
+  if (isNaN(from) || isNaN(to) || to < from) return 12;
+  return Math.max(1, ((to - from) / DAY_MS + 1) / (365 / 12));
+};
+
+const round = (value: number): number => parseFloat(value.toFixed(2));
+
+/**
+ * Volume comes from the vendor's own history for the part, else the part's history across all sources.
+ */
+export const buildLedgerEntry = (quote: BenchmarkResult, history: HistoricalData[], forecasts: ForecastResult[]): SavingsLedgerEntry => {
+  const partRows = history.filter(r => r.partNumber === quote.partNumber);
+  const ownRows = partRows
+    .filter(r => r.vendor === quote.vendor && r.country === quote.country)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const ownVolume = annualQuantity(ownRows);
+  const partVolume = annualQuantity(partRows);
+  const volumeBasis: VolumeBasis = ownVolume > 0 ? 'vendor' : partVolume > 0 ? 'part' : 'none';
+  const volumeMonths = coveredMonths(quote.effectiveFrom, quote.effectiveTo);
+  const quantity = (volumeBasis === 'vendor' ? ownVolume : partVolume) * volumeMonths / 12;
+
+  const last = ownRows[ownRows.length - 1];
+  const forecast = findBaselineForecast(quote, forecasts);
+  // Only the window's average price is used, so the result does not depend on the confidence level
+  const baselinePoints = forecast ? selectBaselinePoints(forecast, quote).points : [];
+  const baselinePrice = baselinePoints.length > 0 ? average(baselinePoints.map(p => p.predictedPrice)) : null;
+
+  return {
+    partNumber: quote.partNumber,
+    vendor: quote.vendor,
+    country: quote.country,
+    effectiveFrom: quote.effectiveFrom,
+    effectiveTo: quote.effectiveTo,
+    priceStatus: quote.priceStatus,
+    quotedPrice: quote.proposedPrice,
+    lastPaidPrice: last ? last.usdPrice : null,
+    lastPaidDate: last ? last.date : null,
+    baselinePrice,
+    quantity: round(quantity),
+    volumeBasis,
+    volumeMonths: round(volumeMonths),
+    spend: round(quote.proposedPrice * quantity),
+    savings: last ? round((last.usdPrice - quote.proposedPrice) * quantity) : null,
+    costAvoidance: baselinePrice === null ? null : round((baselinePrice - quote.proposedPrice) * quantity),
+    overspend: baselinePrice === null ? null : round(Math.max(0, quote.proposedPrice - baselinePrice) * quantity)
+  };
+};
+
+export const buildSavingsLedger = (benchmarks: BenchmarkResult[], history: HistoricalData[], forecasts: ForecastResult[]): SavingsLedgerEntry[] =>
+  benchmarks.map(b => buildLedgerEntry(b, history, forecasts));
+
+// Entries without a last price or baseline add nothing to the corresponding total
+export const summarizeSavings = (entries: SavingsLedgerEntry[]): SavingsTotals => entries.reduce((acc, e) => ({
+  quotes: acc.quotes + 1,
+  quantity: acc.quantity + e.quantity,
+  spend: acc.spend + e.spend,
+  savings: acc.savings + (e.savings ?? 0),
+  costAvoidance: acc.costAvoidance + (e.costAvoidance ?? 0),
+  overspend: acc.overspend + (e.overspend ?? 0)
+}), { quotes: 0, quantity: 0, spend: 0, savings: 0, costAvoidance: 0, overspend: 0 });
+
+export const rollupSavings = (entries: SavingsLedgerEntry[], grouping: SavingsGrouping): SavingsRollup[] => {
+  const groups = new Map<string, SavingsLedgerEntry[]>();
+  entries.forEach(e => {
+    const key = e[grouping];
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(e);
+  });
+  return Array.from(groups.entries())
+    .map(([key, items]) => ({ key, ...summarizeSavings(items) }))
+    .sort((a, b) => b.spend - a.spend);
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { createShock, createScenario, applyScenarioToForecast, validateShock, shockMatches, describeShock, compareBenchmarkOutcomes } from './scenarioEngine';
+import { BenchmarkResult, ForecastResult, ScenarioShock } from '../types';
+
+const forecast: ForecastResult = {
+  partNumber: 'P1', vendor: 'V1', country: 'CN', granularity: 'monthly', cachedAt: '2025-01-01T00:00:00Z',
+  forecast: ['2025-01-01', '2025-02-01', '2025-03-01'].map(date => ({
+    date, predictedPrice: 100, predictedLeadTime: 30, confidenceIntervalUpper: 120, confidenceIntervalLower: 80,
+    priceStdDev: 10, leadTimeUpper: 40, leadTimeLower: 20, leadTimeStdDev: 5
+  })),
+  summary: { avgPredictedPrice: 100, avgPredictedLeadTime: 30, priceTrend: 'stable', leadTimeTrend: 'stable', optimizedOrderQuantity: 10 }
+};
+
+const shock = (patch: Partial<ScenarioShock>): ScenarioShock => createShock({ id: 's', ...patch });
+
+const run = (...shocks: ScenarioShock[]) => applyScenarioToForecast(forecast, createScenario('Test', shocks));
+
+describe('applyScenarioToForecast', () => {
+  it('scales the point, band and spread under a percentage shock', () => {
+    const [point] = run(shock({ value: 10 })).forecast;
+    expect(point).toMatchObject({ predictedPrice: 110, confidenceIntervalUpper: 132, confidenceIntervalLower: 88, priceStdDev: 11, predictedLeadTime: 30 });
+  });
+
+  it('shifts the point and band but keeps the spread under an absolute shock', () => {
+    const [point] = run(shock({ target: 'leadTime', mode: 'absolute', value: 14 })).forecast;
+    expect(point).toMatchObject({ predictedLeadTime: 44, leadTimeUpper: 54, leadTimeLower: 34, leadTimeStdDev: 5, predictedPrice: 100 });
+  });
+
+  it('shocks only the periods that overlap the date range and recomputes the summary', () => {
+    const result = run(shock({ value: 30, from: '2025-02-15', to: '2025-02-20' }));
+    expect(result.forecast.map(p => p.predictedPrice)).toEqual([100, 130, 100]);
+    expect(result.summary.avgPredictedPrice).toBe(110);
+    expect(result.cachedAt).toBeUndefined();
+  });
+
+  it('stacks shocks in order and never goes below zero', () => {
+    expect(run(shock({ value: 10 }), shock({ mode: 'absolute', value: -10 })).forecast[0].predictedPrice).toBe(100);
+    expect(run(shock({ mode: 'absolute', value: -150 })).forecast[0]).toMatchObject({ predictedPrice: 0, confidenceIntervalLower: 0 });
+  });
+
+  it('leaves forecasts outside the shock scope or with invalid shocks untouched', () => {
+    expect(run(shock({ country: 'MX' }))).toBe(forecast);
+    expect(run(shock({ value: -100 }))).toBe(forecast);
+  });
+});
+
+describe('shockMatches', () => {
+  it('matches blank filters and ignores case and spacing', () => {
+    expect(shockMatches(shock({ country: ' cn ', vendor: '' }), forecast)).toBe(true);
+    expect(shockMatches(shock({ partNumber: 'P2' }), forecast)).toBe(false);
+  });
+});
+
+describe('validateShock', () => {
+  it('rejects unusable shocks', () => {
+    expect(validateShock(shock({ value: NaN }))).toBe('Change must be a number.');
+    expect(validateShock(shock({ value: -100 }))).toBe('A percentage cut must be above -100%.');
+    expect(validateShock(shock({ mode: 'absolute', value: -100 }))).toBeNull();
+    expect(validateShock(shock({ from: '2025-03-01', to: '2025-01-01' }))).toBe('End date is before the start date.');
+  });
+});
+
+describe('describeShock', () => {
+  it('summarizes the change, scope and window', () => {
+    expect(describeShock(shock({ value: 25, country: 'CN', from: '2025-01-01' }), 'USD')).toBe('Price +25% for CN from 2025-01-01 to end');
+    expect(describeShock(shock({ target: 'leadTime', mode: 'absolute', value: -5 }), 'USD')).toBe('Lead time -5d for all combinations');
+  });
+});
+
+describe('compareBenchmarkOutcomes', () => {
+  it('counts flagged quotes and status changes', () => {
+    const quote = (priceStatus: BenchmarkResult['priceStatus']) =>
+      ({ partNumber: 'P1', vendor: 'V1', country: 'CN', proposedPrice: 100, proposedLeadTime: 30, priceStatus, leadTimeStatus: 'favorable', confidenceMatch: true, comment: '' }) as BenchmarkResult;
+    expect(compareBenchmarkOutcomes([quote('favorable'), quote('critical')], [quote('warning'), quote('critical')]))
+      .toEqual({ baseFlagged: 1, scenarioFlagged: 2, changed: 1 });
+  });
+});
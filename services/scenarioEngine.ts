@@ -0,0 +1,120 @@
+import { ForecastResult, ForecastPoint, FilterState, Scenario, ScenarioShock, BenchmarkResult } from '../types';
+import { addPeriods, average } from './timeSeries';
+import { formatMoney } from './currencyService';
+
+/**
+ * What-if scenarios: named sets of price and lead-time shocks applied on top of the current forecasts.
+ * Shocks stack in the order they are listed; bands and standard deviations move with the point forecast,
+ * scaling under percentage shocks and shifting under absolute ones.
+ */
+
+export const createShock = (patch: Partial<ScenarioShock> = {}): ScenarioShock => ({
+  id: crypto.randomUUID(),
+  target: 'price',
+  mode: 'percent',
+  value: 10,
+  ...patch
+});
+
+export const createScenario = (name: string, shocks: ScenarioShock[] = [createShock()]): Scenario => ({
+  id: crypto.randomUUID(),
+  name,
+  shocks,
+  updatedAt: new Date().toISOString()
+});
+
+const sameText = (filter: string | undefined, value: string): boolean =>
+  !filter || filter.trim().toLowerCase() === value.trim().toLowerCase();
+
+export const shockMatches = (shock: ScenarioShock, combo: FilterState): boolean =>
+  sameText(shock.country, combo.country) && sameText(shock.vendor, combo.vendor) && sameText(shock.partNumber, combo.partNumber);
+
+const toIsoDate = (date: string): string => {
+  const d = new Date(date);
+  return isNaN(d.getTime()) ? date : d.toISOString().split('T')[0];
+};
+
+// A period is shocked when any part of it falls inside the shock's date range
+const shockCoversPeriod = (shock: ScenarioShock, periodStart: string, periodEnd: string): boolean =>
+  (!shock.to || periodStart <= shock.to) && (!shock.from || periodEnd > shock.from);
+
+export const validateShock = (shock: ScenarioShock): string | null => {
+  if (!Number.isFinite(shock.value)) return 'Change must be a number.';
+  if (shock.mode === 'percent' && shock.value <= -100) return 'A percentage cut must be above -100%.';
+  if (shock.from && shock.to && shock.to < shock.from) return 'End date is before the start date.';
+  return null;
+};
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+const shockValue = (value: number, shock: ScenarioShock): number =>
+  Math.max(0, shock.mode === 'percent' ? value * (1 + shock.value / 100) : value + shock.value);
+
+// Spreads only scale; an absolute shock moves the whole distribution
+const shockSpread = (value: number | undefined, shock: ScenarioShock): number | undefined =>
+  value === undefined || shock.mode === 'absolute' ? value : value * (1 + shock.value / 100);
+
+const applyShock = (point: ForecastPoint, shock: ScenarioShock): ForecastPoint => {
+  if (shock.target === 'price') {
+    return {
+      ...point,
+      predictedPrice: round(shockValue(point.predictedPrice, shock)),
+      confidenceIntervalUpper: round(shockValue(point.confidenceIntervalUpper, shock)),
+      confidenceIntervalLower: round(shockValue(point.confidenceIntervalLower, shock)),
+      priceStdDev: shockSpread(point.priceStdDev, shock)
+    };
+  }
+  return {
+    ...point,
+    predictedLeadTime: round(shockValue(point.predictedLeadTime, shock), 1),
+    leadTimeUpper: point.leadTimeUpper === undefined ? undefined : round(shockValue(point.leadTimeUpper, shock), 1),
+    leadTimeLower: point.leadTimeLower === undefined ? undefined : round(shockValue(point.leadTimeLower, shock), 1),
+    leadTimeStdDev: shockSpread(point.leadTimeStdDev, shock)
+  };
+};
+
+export const applyScenarioToForecast = (forecast: ForecastResult, scenario: Scenario): ForecastResult => {
+  const shocks = scenario.shocks.filter(s => validateShock(s) === null && shockMatches(s, forecast));
+  if (shocks.length === 0) return forecast;
+  const granularity = forecast.granularity || 'monthly';
+  const points = forecast.forecast.map(point => {
+    const start = toIsoDate(point.date);
+    const end = addPeriods(start, 1, granularity);
+    return shocks.filter(s => shockCoversPeriod(s, start, end)).reduce(applyShock, point);
+  });
+  return {
+    ...forecast,
+    cachedAt: undefined,
+    forecast: points,
+    summary: {
+      ...forecast.summary,
+      avgPredictedPrice: round(average(points.map(p => p.predictedPrice))),
+      avgPredictedLeadTime: round(average(points.map(p => p.predictedLeadTime)), 1)
+    }
+  };
+};
+
+export const applyScenario = (forecasts: ForecastResult[], scenario: Scenario): ForecastResult[] =>
+  forecasts.map(f => applyScenarioToForecast(f, scenario));
+
+export const describeShock = (shock: ScenarioShock, currency: string): string => {
+  const sign = shock.value > 0 ? '+' : '';
+  const change = shock.mode === 'percent'
+    ? `${sign}${shock.value}%`
+    : shock.target === 'price' ? `${sign}${formatMoney(shock.value, currency)}` : `${sign}${shock.value}d`;
+  const scope = [shock.partNumber, shock.vendor, shock.country].filter(Boolean).join(' • ') || 'all combinations';
+  const window = shock.from || shock.to ? ` from ${shock.from || 'start'} to ${shock.to || 'end'}` : '';
+  return `${shock.target === 'price' ? 'Price' : 'Lead time'} ${change} for ${scope}${window}`;
+};
+
+const isFlagged = (b: BenchmarkResult): boolean =>
+  [b.priceStatus, b.leadTimeStatus, b.tcoStatus].some(s => s === 'warning' || s === 'critical');
+
+/**
+ * Per-quote differences between base and scenario benchmark outcomes; both lists are in the same order.
+ */
+export const compareBenchmarkOutcomes = (base: BenchmarkResult[], scenario: BenchmarkResult[]) => ({
+  baseFlagged: base.filter(isFlagged).length,
+  scenarioFlagged: scenario.filter(isFlagged).length,
+  changed: base.filter((b, i) => scenario[i] && (b.priceStatus !== scenario[i].priceStatus || b.leadTimeStatus !== scenario[i].leadTimeStatus || b.tcoStatus !== scenario[i].tcoStatus)).length
+});
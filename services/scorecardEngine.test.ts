@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildVendorScorecards, annualPriceTrend, SCORE_WEIGHTS } from './scorecardEngine';
+import { BenchmarkResult, BenchmarkStatus, HistoricalData } from '../types';
+
+const rows = (vendor: string, prices: number[], leadTimes: number[], partNumber: string = 'P1', quantity: number = 10): HistoricalData[] =>
+  prices.map((usdPrice, m) => ({
+    id: `${vendor}-${partNumber}-${m}`, partNumber, vendor, country: 'US', usdPrice, quantity,
+    leadTimeDays: leadTimes[m], date: new Date(Date.UTC(2024, m, 1)).toISOString().slice(0, 10)
+  }));
+
+const benchmark = (vendor: string, priceStatus: BenchmarkStatus, baselined: boolean = true): BenchmarkResult => ({
+  partNumber: 'P1', vendor, country: 'US', proposedPrice: 100, proposedLeadTime: 30,
+  priceStatus, leadTimeStatus: 'favorable', confidenceMatch: true, comment: '',
+  ...(baselined ? { baselineFrom: '2025-01-01', baselineTo: '2025-06-01' } : {})
+});
+
+describe('annualPriceTrend', () => {
+  it('expresses the slope as a percent of the mean price per year', () => {
+    const trend = annualPriceTrend([{ date: '2024-01-01', usdPrice: 95 }, { date: '2024-12-31', usdPrice: 105 }]);
+    // +10 over 365 days on a mean of 100
+    expect(trend).toBeCloseTo(10, 1);
+  });
+
+  it('is null for spans shorter than a month or without a price level', () => {
+    expect(annualPriceTrend([{ date: '2024-01-01', usdPrice: 100 }, { date: '2024-01-20', usdPrice: 110 }])).toBeNull();
+    expect(annualPriceTrend([{ date: '2024-01-01', usdPrice: 0 }, { date: '2024-06-01', usdPrice: 0 }])).toBeNull();
+    expect(annualPriceTrend([{ date: '2024-01-01', usdPrice: 100 }])).toBeNull();
+  });
+});
+
+describe('buildVendorScorecards', () => {
+  const history = [
+    ...rows('Steady', [100, 100, 100, 100], [20, 20, 20, 20]),
+    ...rows('Rising', [100, 110, 120, 130], [40, 20, 60, 30])
+  ];
+
+  it('ranks the cheaper, faster and more reliable vendor first', () => {
+    const [best, worst] = buildVendorScorecards(history, []);
+    expect([best.vendor, best.rank, worst.vendor, worst.rank]).toEqual(['Steady', 1, 'Rising', 2]);
+    expect(Object.keys(best.components).sort()).toEqual(['leadTime', 'leadTimeVariability', 'priceTrend']);
+    Object.values(best.components).forEach(v => expect(v).toBeCloseTo(100, 6));
+    expect(worst.score).toBeCloseTo(0, 6);
+    expect(best.score).toBeCloseTo(100, 6);
+  });
+
+  it('aggregates spend, orders and per-part summaries', () => {
+    const card = buildVendorScorecards([...history, ...rows('Steady', [5, 5], [10, 10], 'P2', 2)], []).find(c => c.vendor === 'Steady')!;
+    expect(card.spend).toBe(4020);
+    expect(card.orders).toBe(6);
+    expect(card.partCount).toBe(2);
+    expect(card.parts.map(p => [p.partNumber, p.spend])).toEqual([['P1', 4000], ['P2', 20]]);
+    expect(card.leadTimeStdDev).toBeCloseTo(5.164, 3);
+  });
+
+  it('counts benchmark flags only for quotes that had a baseline', () => {
+    const card = buildVendorScorecards(history, [
+      benchmark('Steady', 'favorable'), benchmark('Steady', 'critical'), benchmark('Steady', 'warning', false)
+    ]).find(c => c.vendor === 'Steady')!;
+    expect(card.benchmarked).toBe(2);
+    expect(card.flags).toEqual({ warning: 0, critical: 1, anomaly: 0 });
+    expect(card.flaggedShare).toBe(0.5);
+    expect(card.components.benchmarkFlags).toBe(50);
+  });
+
+  it('rescales the weights over the components a vendor has data for', () => {
+    const [card] = buildVendorScorecards([], [benchmark('QuoteOnly', 'favorable'), benchmark('QuoteOnly', 'anomaly')]);
+    expect(card.orders).toBe(0);
+    expect(card.components).toEqual({ benchmarkFlags: 50 });
+    expect(card.score).toBe(50);
+    expect(Object.values(SCORE_WEIGHTS).reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+  });
+});
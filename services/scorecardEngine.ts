@@ -0,0 +1,178 @@
+import { HistoricalData, BenchmarkResult, BenchmarkStatus } from '../types';
+import { average } from './timeSeries';
+import { hasBaseline } from './benchmarkEngine';
+
+/**
+ * Vendor scorecards: procurement history and benchmark results aggregated per vendor.
+ * Trend and lead-time components rank vendors against each other, so the composite score is only meaningful within the same view.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the composite score per component; components a vendor has no data for are left out and the rest rescaled
+export const SCORE_WEIGHTS = {
+  priceTrend: 0.35,
+  leadTime: 0.2,
+  leadTimeVariability: 0.2,
+  benchmarkFlags: 0.25
+};
+
+export type ScoreComponent = keyof typeof SCORE_WEIGHTS;
+
+export interface VendorPartSummary {
+  partNumber: string;
+  country: string;
+  orders: number;
+  spend: number;
+  avgPrice: number;
+  priceTrend: number | null; // Percent change per year
+  avgLeadTime: number;
+}
+
+export interface VendorScorecard {
+  vendor: string;
+  spend: number; // Sum of unit price × quantity, in the reporting currency
+  orders: number;
+  partCount: number;
+  countries: string[];
+  priceTrend: number | null; // Spend-weighted percent change per year across the vendor's parts
+  avgLeadTime: number;
+  leadTimeStdDev: number;
+  benchmarked: number;
+  flags: Record<Exclude<BenchmarkStatus, 'favorable'>, number>;
+  flaggedShare: number | null; // Share of benchmark rows with any status flagged warning, critical or anomaly; null when none were benchmarked
+  components: Partial<Record<ScoreComponent, number>>; // 0–100, higher is better
+  score: number;
+  rank: number;
+  parts: VendorPartSummary[];
+}
+
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = average(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * Least-squares slope of price over time, expressed as a percent of the mean price per year.
+ * Null when the rows span less than a month.
+ */
+export const annualPriceTrend = (rows: { date: string, usdPrice: number }[]): number | null => {
+  const points = rows
+    .map(r => ({ t: new Date(r.date).getTime() / DAY_MS, price: r.usdPrice }))
+    .filter(p => !isNaN(p.t));
+  if (points.length < 2) return null;
+  const ts = points.map(p => p.t);
+  if (Math.max(...ts) - Math.min(...ts) < 30) return null;
+  const meanT = average(ts);
+  const meanPrice = average(points.map(p => p.price));
+  if (meanPrice === 0) return null;
+  const covariance = points.reduce((acc, p) => acc + (p.t - meanT) * (p.price - meanPrice), 0);
+  const variance = points.reduce((acc, p) => acc + (p.t - meanT) ** 2, 0);
+  return (covariance / variance) * 365 / meanPrice * 100;
+};
+
+const summarizePart = (partNumber: string, country: string, rows: HistoricalData[]): VendorPartSummary => ({
+  partNumber,
+  country,
+  orders: rows.length,
+  spend: rows.reduce((acc, r) => acc + r.usdPrice * r.quantity, 0),
+  avgPrice: average(rows.map(r => r.usdPrice)),
+  priceTrend: annualPriceTrend(rows),
+  avgLeadTime: average(rows.map(r => r.leadTimeDays))
+});
+
+// Lower raw values score higher; the best vendor gets 100 and the worst 0
+const scoreLowerIsBetter = (values: (number | null)[]): (number | undefined)[] => {
+  const known = values.filter((v): v is number => v !== null);
+  if (known.length === 0) return values.map(() => undefined);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return values.map(v => v === null ? undefined : max === min ? 100 : (100 * (max - v)) / (max - min));
+};
+
+export const buildVendorScorecards = (history: HistoricalData[], benchmarks: BenchmarkResult[]): VendorScorecard[] => {
+  const byVendor = new Map<string, HistoricalData[]>();
+  history.forEach(r => {
+    if (!byVendor.has(r.vendor)) byVendor.set(r.vendor, []);
+    byVendor.get(r.vendor)!.push(r);
+  });
+  benchmarks.forEach(b => { if (!byVendor.has(b.vendor)) byVendor.set(b.vendor, []); });
+
+  const cards = Array.from(byVendor.entries()).map(([vendor, rows]): VendorScorecard => {
+    const byPart = new Map<string, HistoricalData[]>();
+    rows.forEach(r => {
+      const key = `${r.partNumber}|${r.country}`;
+      if (!byPart.has(key)) byPart.set(key, []);
+      byPart.get(key)!.push(r);
+    });
+    const parts = Array.from(byPart.entries())
+      .map(([key, partRows]) => {
+        const [partNumber, country] = key.split('|');
+        return summarizePart(partNumber, country, partRows);
+      })
+      .sort((a, b) => b.spend - a.spend);
+
+    // Parts without quantities still count toward the trend, just without spend weighting
+    const trended = parts.filter(p => p.priceTrend !== null);
+    const totalWeight = trended.reduce((acc, p) => acc + (p.spend || 1), 0);
+    const priceTrend = trended.length > 0
+      ? trended.reduce((acc, p) => acc + p.priceTrend! * (p.spend || 1), 0) / totalWeight
+      : null;
+
+    // Quotes without a baseline were never classified
+    const rated = benchmarks.filter(b => b.vendor === vendor && hasBaseline(b));
+    const flags = { warning: 0, critical: 0, anomaly: 0 };
+    let flagged = 0;
+    rated.forEach(b => {
+      const statuses = [b.priceStatus, b.leadTimeStatus, b.tcoStatus].filter(s => s && s !== 'favorable') as (keyof typeof flags)[];
+      statuses.forEach(s => flags[s]++);
+      if (statuses.length > 0) flagged++;
+    });
+
+    const leadTimes = rows.map(r => r.leadTimeDays);
+    return {
+      vendor,
+      spend: parts.reduce((acc, p) => acc + p.spend, 0),
+      orders: rows.length,
+      partCount: new Set(rows.map(r => r.partNumber)).size,
+      countries: Array.from(new Set(rows.map(r => r.country))).sort(),
+      priceTrend,
+      avgLeadTime: leadTimes.length > 0 ? average(leadTimes) : 0,
+      leadTimeStdDev: stdDev(leadTimes),
+      benchmarked: rated.length,
+      flags,
+      flaggedShare: rated.length > 0 ? flagged / rated.length : null,
+      components: {},
+      score: 0,
+      rank: 0,
+      parts
+    };
+  });
+
+  const hasHistory = cards.map(c => c.orders > 0);
+  const components: Record<ScoreComponent, (number | undefined)[]> = {
+    priceTrend: scoreLowerIsBetter(cards.map(c => c.priceTrend)),
+    leadTime: scoreLowerIsBetter(cards.map((c, i) => hasHistory[i] ? c.avgLeadTime : null)),
+    leadTimeVariability: scoreLowerIsBetter(cards.map((c, i) => hasHistory[i] && c.avgLeadTime > 0 ? c.leadTimeStdDev / c.avgLeadTime : null)),
+    // Flag share is already on a common 0–1 scale, so it is scored absolutely
+    benchmarkFlags: cards.map(c => c.flaggedShare === null ? undefined : 100 * (1 - c.flaggedShare))
+  };
+
+  cards.forEach((card, i) => {
+    let weighted = 0;
+    let weight = 0;
+    (Object.keys(SCORE_WEIGHTS) as ScoreComponent[]).forEach(key => {
+      const value = components[key][i];
+      if (value === undefined) return;
+      card.components[key] = value;
+      weighted += value * SCORE_WEIGHTS[key];
+      weight += SCORE_WEIGHTS[key];
+    });
+    card.score = weight > 0 ? weighted / weight : 0;
+  });
+
+  return cards
+    .sort((a, b) => b.score - a.score || b.spend - a.spend)
+    .map((card, i) => ({ ...card, rank: i + 1 }));
+};
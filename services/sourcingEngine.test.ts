@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { annualQuantity, compareSources, suggestAlternative, suggestAlternatives } from './sourcingEngine';
+import { LandedCostModel } from './landedCost';
+import { BenchmarkResult, BenchmarkStatus, ForecastResult, HistoricalData } from '../types';
+
+const rows = (vendor: string, country: string, prices: number[], quantity: number = 100): HistoricalData[] =>
+  prices.map((usdPrice, m) => ({
+    id: `${vendor}-${m}`, partNumber: 'P1', vendor, country, usdPrice, quantity, leadTimeDays: 30,
+    date: new Date(Date.UTC(2024, m, 1)).toISOString().slice(0, 10)
+  }));
+
+const history = [
+  ...rows('Incumbent', 'US', Array(13).fill(10)),
+  ...rows('Cheap', 'CN', [8, 8, 8, 8]),
+  ...rows('Mid', 'MX', [9, 9])
+];
+
+// Adds 3 per unit of freight to Chinese sources, with no duty or financing
+const freightFromChina: LandedCostModel = {
+  rules: [{ country: 'CN', freightPerUnit: 3, dutyRate: 0 }],
+  settings: { defaultIncoterm: 'FOB', defaultPaymentTermsDays: 0, costOfCapital: 0 }
+};
+
+const forecastFor = (vendor: string, country: string, avgPredictedPrice: number): ForecastResult => ({
+  partNumber: 'P1', vendor, country, forecast: [],
+  summary: { avgPredictedPrice, avgPredictedLeadTime: 45, priceTrend: 'stable', leadTimeTrend: 'stable', optimizedOrderQuantity: 1 }
+});
+
+const quote = (priceStatus: BenchmarkStatus, proposedPrice: number = 11, extra: Partial<BenchmarkResult> = {}): BenchmarkResult => ({
+  partNumber: 'P1', vendor: 'Incumbent', country: 'US', proposedPrice, proposedLeadTime: 30,
+  priceStatus, leadTimeStatus: 'favorable', confidenceMatch: true, comment: '', ...extra
+});
+
+describe('annualQuantity', () => {
+  it('sums the last year and annualizes shorter histories', () => {
+    // Thirteen monthly orders: the first falls outside the trailing year
+    expect(annualQuantity(rows('A', 'US', Array(13).fill(1)))).toBe(1200);
+    // Four monthly orders span 91 days
+    expect(annualQuantity(rows('A', 'US', [1, 1, 1, 1]))).toBeCloseTo(400 / 91 * 365, 6);
+    expect(annualQuantity(rows('A', 'US', [1]))).toBe(100);
+  });
+});
+
+describe('compareSources', () => {
+  it('ranks every source of the part by comparable price', () => {
+    const options = compareSources(history, [], 'P1');
+    expect(options.map(o => [o.vendor, o.comparablePrice, o.basis])).toEqual([
+      ['Cheap', 8, 'history'], ['Mid', 9, 'history'], ['Incumbent', 10, 'history']
+    ]);
+    expect(options[0].volatility).toBe(0);
+  });
+
+  it('prefers the forecast average over recent history', () => {
+    const options = compareSources(history, [forecastFor('Mid', 'MX', 7)], 'P1');
+    expect(options[0]).toMatchObject({ vendor: 'Mid', comparablePrice: 7, projectedLeadTime: 45, basis: 'forecast' });
+  });
+
+  it('compares landed cost when a cost model is given', () => {
+    const options = compareSources(history, [], 'P1', freightFromChina);
+    expect(options.map(o => [o.vendor, o.comparableCost])).toEqual([['Mid', 9], ['Incumbent', 10], ['Cheap', 11]]);
+  });
+});
+
+describe('suggestAlternative', () => {
+  it('ignores quotes that were not flagged', () => {
+    expect(suggestAlternative(quote('favorable'), history, [])).toBeNull();
+  });
+
+  it('suggests the cheapest other source and values it at the quoting vendor volume', () => {
+    const suggestion = suggestAlternative(quote('critical'), history, [])!;
+    expect(suggestion.alternative.vendor).toBe('Cheap');
+    expect(suggestion.unitSavings).toBe(3);
+    expect(suggestion.annualQuantity).toBe(1200);
+    expect(suggestion.annualSavings).toBe(3600);
+    expect(suggestion.leadTimeDelta).toBe(0);
+  });
+
+  it('is null when no other source is cheaper than the quote', () => {
+    expect(suggestAlternative(quote('warning', 7.5), history, [])).toBeNull();
+  });
+
+  it('compares a TCO quote against option costs', () => {
+    const suggestion = suggestAlternative(quote('favorable', 10, { tco: 10.5, tcoStatus: 'warning' }), history, [], freightFromChina)!;
+    expect(suggestion.alternative.vendor).toBe('Mid');
+    expect(suggestion.quotedCost).toBe(10.5);
+  });
+});
+
+describe('suggestAlternatives', () => {
+  it('keeps only the quotes with a suggestion', () => {
+    const flagged = quote('critical');
+    const suggestions = suggestAlternatives([quote('favorable'), flagged], history, []);
+    expect([...suggestions.keys()]).toEqual([flagged]);
+  });
+});
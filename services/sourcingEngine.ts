@@ -0,0 +1,149 @@
+import { HistoricalData, ForecastResult, BenchmarkResult, FilterState } from '../types';
+import { average } from './timeSeries';
+import { LandedCostModel, forecastTco } from './landedCost';
+
+/**
+ * Alternative sourcing: compares every vendor/country combination a part has been bought from,
+ * and for quotes flagged warning or critical suggests the cheapest other source with an annual savings estimate.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Price history used for the "recent" price when no forecast exists
+const RECENT_WINDOW_DAYS = 365;
+
+export interface SourcingOption extends FilterState {
+  orders: number;
+  annualQuantity: number;
+  recentPrice: number; // Mean unit price over the last year of history
+  projectedPrice: number | null; // Forecast average, when the combination has been forecast
+  avgLeadTime: number;
+  projectedLeadTime: number | null;
+  volatility: number; // Coefficient of variation of the unit price, in percent
+  comparablePrice: number; // Projected price when available, otherwise the recent price
+  comparableCost: number; // comparablePrice on a landed TCO basis when a landed-cost model is in use
+  basis: 'forecast' | 'history';
+}
+
+export interface AlternativeSource {
+  quote: FilterState;
+  alternative: SourcingOption;
+  quotedCost: number; // Unit price, or TCO when a landed-cost model is in use
+  unitSavings: number;
+  annualQuantity: number;
+  annualSavings: number;
+  leadTimeDelta: number; // Alternative lead time minus quoted lead time, in days
+}
+
+const sameCombo = (a: FilterState, b: FilterState): boolean =>
+  a.partNumber === b.partNumber && a.vendor === b.vendor && a.country === b.country;
+
+/**
+ * Quantity bought over the last year of the rows, annualized when the history is shorter than a year.
+ */
+export const annualQuantity = (rows: HistoricalData[]): number => {
+  const dated = rows.map(r => ({ t: new Date(r.date).getTime(), quantity: r.quantity })).filter(r => !isNaN(r.t));
+  if (dated.length === 0) return 0;
+  const latest = Math.max(...dated.map(r => r.t));
+  const earliest = Math.min(...dated.map(r => r.t));
+  const windowStart = latest - RECENT_WINDOW_DAYS * DAY_MS;
+  const total = dated.filter(r => r.t > windowStart).reduce((acc, r) => acc + r.quantity, 0);
+  const spanDays = (latest - earliest) / DAY_MS;
+  return spanDays >= RECENT_WINDOW_DAYS || spanDays < 30 ? total : (total / spanDays) * RECENT_WINDOW_DAYS;
+};
+
+const recentRows = (rows: HistoricalData[]): HistoricalData[] => {
+  const latest = Math.max(...rows.map(r => new Date(r.date).getTime()));
+  const recent = rows.filter(r => new Date(r.date).getTime() > latest - RECENT_WINDOW_DAYS * DAY_MS);
+  return recent.length > 0 ? recent : rows;
+};
+
+export const compareSources = (
+  history: HistoricalData[],
+  forecasts: ForecastResult[],
+  partNumber: string,
+  costModel?: LandedCostModel
+): SourcingOption[] => {
+  const groups = new Map<string, HistoricalData[]>();
+  history.filter(r => r.partNumber === partNumber).forEach(r => {
+    const key = `${r.vendor}|${r.country}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(r);
+  });
+  const category = history.find(r => r.partNumber === partNumber && r.category)?.category;
+
+  return Array.from(groups.entries())
+    .map(([key, rows]): SourcingOption => {
+      const [vendor, country] = key.split('|');
+      const combo = { partNumber, vendor, country };
+      const forecast = forecasts.find(f => sameCombo(f, combo));
+      const prices = rows.map(r => r.usdPrice);
+      const mean = average(prices);
+      const sd = prices.length > 1 ? Math.sqrt(prices.reduce((acc, p) => acc + (p - mean) ** 2, 0) / (prices.length - 1)) : 0;
+      const recentPrice = average(recentRows(rows).map(r => r.usdPrice));
+      const projectedPrice = forecast ? forecast.summary.avgPredictedPrice : null;
+      const comparablePrice = projectedPrice ?? recentPrice;
+      return {
+        ...combo,
+        orders: rows.length,
+        annualQuantity: annualQuantity(rows),
+        recentPrice,
+        projectedPrice,
+        avgLeadTime: average(rows.map(r => r.leadTimeDays)),
+        projectedLeadTime: forecast ? forecast.summary.avgPredictedLeadTime : null,
+        volatility: mean > 0 ? (sd / mean) * 100 : 0,
+        comparablePrice,
+        comparableCost: costModel ? forecastTco(comparablePrice, { country, category }, costModel) : comparablePrice,
+        basis: projectedPrice === null ? 'history' : 'forecast'
+      };
+    })
+    .sort((a, b) => a.comparableCost - b.comparableCost);
+};
+
+/**
+ * Suggests the cheapest other source for a flagged quote. Savings use the part's annual volume
+ * at the quoting vendor, or across all sources when that vendor has no history for the part.
+ */
+export const suggestAlternative = (
+  quote: BenchmarkResult,
+  history: HistoricalData[],
+  forecasts: ForecastResult[],
+  costModel?: LandedCostModel
+): AlternativeSource | null => {
+  if (quote.priceStatus !== 'warning' && quote.priceStatus !== 'critical' && quote.tcoStatus !== 'warning' && quote.tcoStatus !== 'critical') return null;
+  const options = compareSources(history, forecasts, quote.partNumber, costModel);
+  const quotedCost = quote.tco ?? quote.proposedPrice;
+  // The TCO of a quote is only comparable with option costs computed on the same model
+  const costOf = (o: SourcingOption) => quote.tco !== undefined ? o.comparableCost : o.comparablePrice;
+  const best = options
+    .filter(o => !sameCombo(o, quote) && costOf(o) < quotedCost)
+    .sort((a, b) => costOf(a) - costOf(b))[0];
+  if (!best) return null;
+
+  const own = options.find(o => sameCombo(o, quote));
+  const volume = own && own.annualQuantity > 0 ? own.annualQuantity : options.reduce((acc, o) => acc + o.annualQuantity, 0);
+  const unitSavings = quotedCost - costOf(best);
+  return {
+    quote: { partNumber: quote.partNumber, vendor: quote.vendor, country: quote.country },
+    alternative: best,
+    quotedCost,
+    unitSavings,
+    annualQuantity: volume,
+    annualSavings: unitSavings * volume,
+    leadTimeDelta: (best.projectedLeadTime ?? best.avgLeadTime) - quote.proposedLeadTime
+  };
+};
+
+export const suggestAlternatives = (
+  benchmarks: BenchmarkResult[],
+  history: HistoricalData[],
+  forecasts: ForecastResult[],
+  costModel?: LandedCostModel
+): Map<BenchmarkResult, AlternativeSource> => {
+  const suggestions = new Map<BenchmarkResult, AlternativeSource>();
+  benchmarks.forEach(b => {
+    const suggestion = suggestAlternative(b, history, forecasts, costModel);
+    if (suggestion) suggestions.set(b, suggestion);
+  });
+  return suggestions;
+};
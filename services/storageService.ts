@@ -0,0 +1,132 @@
+import { WorkspaceRecord, WorkspaceState, AICacheEntry } from '../types';
+import { BUNDLE_SCHEMA_VERSION } from './workspaceBundle';
+
+/**
+ * Browser persistence for workspaces using IndexedDB.
+ * A single rolling autosave record tracks the live session; named snapshots are immutable copies.
+ * The same database holds the AI response cache.
+ */
+
+const DB_NAME = 'predictaprocure';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspaces';
+const AI_CACHE_STORE = 'aiCache';
+
+export const AUTOSAVE_ID = 'autosave';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error("Storage Unavailable: This browser does not support IndexedDB."));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AI_CACHE_STORE)) {
+          db.createObjectStore(AI_CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage Error: The transaction was aborted."));
+  });
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceRecord[]> => {
+  const records = await runRequest<WorkspaceRecord[]>(WORKSPACE_STORE, 'readonly', s => s.getAll());
+  return records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getWorkspace = async (id: string): Promise<WorkspaceRecord | undefined> => {
+  return runRequest<WorkspaceRecord | undefined>(WORKSPACE_STORE, 'readonly', s => s.get(id));
+};
+
+export const putWorkspace = async (record: WorkspaceRecord): Promise<WorkspaceRecord> => {
+  await runRequest(WORKSPACE_STORE, 'readwrite', s => s.put(record));
+  return record;
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await runRequest(WORKSPACE_STORE, 'readwrite', s => s.delete(id));
+};
+
+export const autosaveWorkspace = async (state: WorkspaceState): Promise<WorkspaceRecord> => {
+  const existing = await getWorkspace(AUTOSAVE_ID);
+  const now = new Date().toISOString();
+  return putWorkspace({
+    id: AUTOSAVE_ID,
+    name: 'Autosave',
+    kind: 'autosave',
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    state
+  });
+};
+
+export const createSnapshot = async (name: string, state: WorkspaceState): Promise<WorkspaceRecord> => {
+  const now = new Date().toISOString();
+  return putWorkspace({
+    id: crypto.randomUUID(),
+    name: name.trim() || `Snapshot ${new Date().toLocaleString()}`,
+    kind: 'snapshot',
+    createdAt: now,
+    updatedAt: now,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    state
+  });
+};
+
+export const duplicateWorkspace = async (id: string): Promise<WorkspaceRecord> => {
+  const source = await getWorkspace(id);
+  if (!source) throw new Error("Workspace Not Found: The selected workspace no longer exists.");
+  return putWorkspace({ ...source, id: crypto.randomUUID(), name: `${source.name} (copy)`, kind: 'snapshot', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+};
+
+export const getCacheEntry = async (key: string): Promise<AICacheEntry | undefined> => {
+  return runRequest<AICacheEntry | undefined>(AI_CACHE_STORE, 'readonly', s => s.get(key));
+};
+
+export const putCacheEntry = async (entry: AICacheEntry): Promise<void> => {
+  await runRequest(AI_CACHE_STORE, 'readwrite', s => s.put(entry));
+};
+
+export const listCacheEntries = async (): Promise<AICacheEntry[]> => {
+  return runRequest<AICacheEntry[]>(AI_CACHE_STORE, 'readonly', s => s.getAll());
+};
+
+export const deleteCacheEntries = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(AI_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(AI_CACHE_STORE);
+    keys.forEach(key => store.delete(key));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage Error: The transaction was aborted."));
+  });
+};
+
+export const clearCacheEntries = async (): Promise<void> => {
+  await runRequest(AI_CACHE_STORE, 'readwrite', s => s.clear());
+};
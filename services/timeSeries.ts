@@ -0,0 +1,156 @@
+import { ForecastGranularity, ForecastSettings } from '../types';
+
+/**
+ * Calendar period helpers shared by the forecasting engines and the Trends charts.
+ * A period is identified by the ISO date (YYYY-MM-DD, UTC) of its first day; weeks start on Monday.
+ */
+
+export const MIN_HORIZON = 3;
+export const MAX_HORIZON = 36;
+
+export const DEFAULT_FORECAST_SETTINGS: ForecastSettings = {
+  horizon: 12,
+  granularity: 'monthly'
+};
+
+export const GRANULARITY_LABELS: Record<ForecastGranularity, { adjective: string, unit: string }> = {
+  weekly: { adjective: 'weekly', unit: 'week' },
+  monthly: { adjective: 'monthly', unit: 'month' },
+  quarterly: { adjective: 'quarterly', unit: 'quarter' }
+};
+
+// Periods per year, used as the seasonal cycle
+export const SEASON_LENGTHS: Record<ForecastGranularity, number> = {
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4
+};
+
+// How many recent periods of history are sent to the AI as context
+export const CONTEXT_PERIODS: Record<ForecastGranularity, number> = {
+  weekly: 52,
+  monthly: 24,
+  quarterly: 12
+};
+
+export const clampHorizon = (horizon: number): number => Math.min(MAX_HORIZON, Math.max(MIN_HORIZON, Math.round(horizon) || MIN_HORIZON));
+
+export const periodStart = (date: string, granularity: ForecastGranularity): string => {
+  const d = new Date(date);
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth();
+  switch (granularity) {
+    case 'weekly': {
+      const day = (d.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(y, m, d.getUTCDate() - day)).toISOString().split('T')[0];
+    }
+    case 'monthly':
+      return new Date(Date.UTC(y, m, 1)).toISOString().split('T')[0];
+    case 'quarterly':
+      return new Date(Date.UTC(y, m - (m % 3), 1)).toISOString().split('T')[0];
+  }
+};
+
+export const addPeriods = (start: string, count: number, granularity: ForecastGranularity): string => {
+  const [y, m, d] = start.split('-').map(Number);
+  switch (granularity) {
+    case 'weekly':
+      return new Date(Date.UTC(y, m - 1, d + count * 7)).toISOString().split('T')[0];
+    case 'monthly':
+      return new Date(Date.UTC(y, m - 1 + count, 1)).toISOString().split('T')[0];
+    case 'quarterly':
+      return new Date(Date.UTC(y, m - 1 + count * 3, 1)).toISOString().split('T')[0];
+  }
+};
+
+export const formatPeriodLabel = (date: string, granularity: ForecastGranularity): string => {
+  const d = new Date(date);
+  if (isNaN(d.getTime())) return date;
+  switch (granularity) {
+    case 'weekly': return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    case 'monthly': return d.toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+    case 'quarterly': return `Q${Math.floor(d.getUTCMonth() / 3) + 1} '${String(d.getUTCFullYear()).slice(-2)}`;
+  }
+};
+
+/**
+ * The period start dates a forecast of `horizon` periods following `lastPeriod` must cover.
+ */
+export const forecastDates = (lastPeriod: string, settings: ForecastSettings): string[] =>
+  Array.from({ length: settings.horizon }, (_, i) => addPeriods(lastPeriod, i + 1, settings.granularity));
+
+export const bucketByPeriod = <T extends { date: string }>(records: T[], granularity: ForecastGranularity): { period: string, records: T[] }[] => {
+  const buckets = new Map<string, T[]>();
+  records.forEach(r => {
+    const key = periodStart(r.date, granularity);
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(r);
+  });
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, items]) => ({ period, records: items }));
+};
+
+export const average = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+export interface ResampledPoint {
+  date: string; // Period start
+  price: number;
+  leadTime: number;
+  quantity: number;
+  orders: number;
+}
+
+/**
+ * Collapses procurement rows into one point per period: mean price and lead time, total quantity.
+ */
+export const resampleHistory = (
+  records: { date: string, usdPrice: number, leadTimeDays: number, quantity: number }[],
+  granularity: ForecastGranularity
+): ResampledPoint[] =>
+  bucketByPeriod(records, granularity).map(({ period, records: rows }) => ({
+    date: period,
+    price: parseFloat(average(rows.map(r => r.usdPrice)).toFixed(2)),
+    leadTime: parseFloat(average(rows.map(r => r.leadTimeDays)).toFixed(1)),
+    quantity: rows.reduce((acc, r) => acc + r.quantity, 0),
+    orders: rows.length
+  }));
+
+/**
+ * Aggregates records into a contiguous series (mean per period),
+ * linearly interpolating any periods without observations.
+ */
+export const toPeriodSeries = <T extends { date: string }>(
+  records: T[],
+  granularity: ForecastGranularity,
+  accessor: (r: T) => number
+): { keys: string[], values: number[] } => {
+  const buckets = new Map(bucketByPeriod(records, granularity).map(b => [b.period, average(b.records.map(accessor))]));
+  const sortedKeys = Array.from(buckets.keys()).sort();
+  const first = sortedKeys[0];
+  const last = sortedKeys[sortedKeys.length - 1];
+  const keys: string[] = [];
+  for (let i = 0; ; i++) {
+    const key = addPeriods(first, i, granularity);
+    keys.push(key);
+    if (key >= last) break;
+  }
+
+  const values: (number | null)[] = keys.map(k => buckets.has(k) ? buckets.get(k)! : null);
+
+  // Interpolate gaps between known periods
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] !== null) continue;
+    let prev = i - 1;
+    let next = i + 1;
+    while (values[next] === null) next++;
+    const start = values[prev] as number;
+    const end = values[next] as number;
+    for (let j = i; j < next; j++) {
+      values[j] = start + ((end - start) * (j - prev)) / (next - prev);
+    }
+    i = next;
+  }
+
+  return { keys, values: values as number[] };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { BUNDLE_FORMAT, BUNDLE_SCHEMA_VERSION, parseBundle, createBundle, serializeBundle, upgradeWorkspaceState } from './workspaceBundle';
+import { HistoricalData } from '../types';
+
+const row = (id: string, usdPrice: number): HistoricalData =>
+  ({ id, partNumber: 'P1', vendor: 'V1', country: 'US', usdPrice, quantity: 1, leadTimeDays: 30, date: '2024-01-01' });
+
+describe('workspace bundle migrations', () => {
+  it('flags rows removed by the pre-v3 cleanse instead of dropping them', () => {
+    const data = [row('a', 10), row('b', 11), row('c', 500)];
+    const legacy = { format: BUNDLE_FORMAT, schemaVersion: 1, metadata: { name: 'old' }, state: { data, cleansedData: data.slice(0, 2), isCleansed: true, outlierCount: 1 } };
+    const bundle = parseBundle(JSON.stringify(legacy));
+
+    expect(bundle.schemaVersion).toBe(BUNDLE_SCHEMA_VERSION);
+    expect(bundle.state.cleansedData.map(d => [d.id, !!d.isOutlier])).toEqual([['a', false], ['b', false], ['c', true]]);
+    expect(bundle.state.reportingCurrency).toBe('USD');
+    expect(bundle.upgradeNotes).toHaveLength(1);
+  });
+
+  it('keeps flagged cleansing from v1 files written after outlier flagging', () => {
+    const data = [row('a', 10), { ...row('c', 500), isOutlier: true }];
+    const { state, notes } = upgradeWorkspaceState({ data, cleansedData: data, isCleansed: true, outlierSettings: { method: 'iqr', threshold: 1.5, window: 6, checkLeadTime: true } }, 1);
+    expect(state.cleansedData).toEqual(data);
+    expect(notes).toEqual([]);
+  });
+
+  it('round-trips the current version without notes', () => {
+    const { state } = upgradeWorkspaceState({}, BUNDLE_SCHEMA_VERSION);
+    const bundle = parseBundle(serializeBundle(createBundle(state, 'current')));
+    expect(bundle.state).toEqual(state);
+    expect(bundle.upgradeNotes).toEqual([]);
+  });
+
+  it('rejects bundles from a newer app', () => {
+    expect(() => upgradeWorkspaceState({}, BUNDLE_SCHEMA_VERSION + 1)).toThrow('Unsupported Workspace Version');
+  });
+});
+
+describe('parseBundle', () => {
+  const valid = { format: BUNDLE_FORMAT, schemaVersion: BUNDLE_SCHEMA_VERSION, metadata: { name: 'ws' }, state: {} };
+
+  it.each([
+    ['not JSON', '{"format":', 'not valid JSON'],
+    ['a JSON array', '[]', 'not a PredictaProcure workspace bundle'],
+    ['another format', JSON.stringify({ ...valid, format: 'other' }), 'not a PredictaProcure workspace bundle'],
+    ['a textual version', JSON.stringify({ ...valid, schemaVersion: '3' }), 'Missing schema version'],
+    ['a fractional version', JSON.stringify({ ...valid, schemaVersion: 2.5 }), 'Missing schema version'],
+    ['no metadata', JSON.stringify({ ...valid, metadata: undefined }), 'Missing bundle metadata'],
+    ['a list as state', JSON.stringify({ ...valid, state: [] }), 'state must be an object'],
+    ['a state field of the wrong type', JSON.stringify({ ...valid, state: { data: 'rows' } }), '"data" must be a list']
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseBundle(text)).toThrow(message);
+  });
+
+  it('rejects a bundle from a newer app', () => {
+    expect(() => parseBundle(JSON.stringify({ ...valid, schemaVersion: BUNDLE_SCHEMA_VERSION + 1 })))
+      .toThrow(`schema v${BUNDLE_SCHEMA_VERSION + 1}`);
+  });
+
+  it('drops unknown top-level fields', () => {
+    const bundle = parseBundle(JSON.stringify({ ...valid, extra: true }));
+    expect(Object.keys(bundle).sort()).toEqual(['format', 'metadata', 'schemaVersion', 'state', 'upgradeNotes']);
+  });
+});
@@ -0,0 +1,191 @@
+import { WorkspaceState, WorkspaceRecord, HistoricalData } from '../types';
+import { DEFAULT_OUTLIER_SETTINGS } from './outlierEngine';
+import { DEFAULT_FORECAST_SETTINGS } from './timeSeries';
+import { DEFAULT_LANDED_COST_SETTINGS } from './landedCost';
+import { DEFAULT_INVENTORY_SETTINGS } from './inventoryPolicy';
+import { downloadBlob } from './download';
+
+/**
+ * Portable workspace bundles.
+ * A bundle is a single versioned JSON document holding the full analysis state plus metadata.
+ * Older bundles and stored workspaces are upgraded step by step through MIGRATIONS before being normalized.
+ *
+ * Schema versions:
+ * 1. Initial bundle format. Files were stamped v1 until v8, so a v1 file may already hold later fields.
+ * 2. Multi-currency: `reportingCurrency`, `fxRates`; history prices are in the reporting currency.
+ * 3. Outliers are flagged on `cleansedData` rows instead of being removed from it.
+ * 4. Configurable forecast horizon and granularity (`forecastSettings`).
+ * 5. Landed cost: `landedCostRules`, `landedCostSettings`.
+ * 6. Inventory policy settings.
+ * 7. What-if scenarios.
+ * 8. Market index series and part links.
+ */
+
+export const BUNDLE_FORMAT = 'predictaprocure-workspace';
+export const BUNDLE_SCHEMA_VERSION = 8;
+
+export interface WorkspaceBundleMetadata {
+  name: string;
+  exportedAt: string;
+  historyRows: number;
+  forecastCount: number;
+  forecastModels: string[];
+  negotiatedRateCount: number;
+  benchmarkCount: number;
+}
+
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  metadata: WorkspaceBundleMetadata;
+  state: WorkspaceState;
+}
+
+export interface UpgradedWorkspace {
+  state: WorkspaceState;
+  notes: string[]; // What the upgrade changed, for the user
+}
+
+// Upgrades a state from one schema version to the next; `notes` collects anything the user should know
+type StateMigration = (state: Partial<WorkspaceState>, notes: string[]) => Partial<WorkspaceState>;
+
+const LEGACY_CLEANSE_REASON = 'Removed by the earlier whole-dataset IQR cleanse';
+
+// Keyed by the version being upgraded from; fields already present (see schema v1 above) are kept
+const MIGRATIONS: Record<number, StateMigration> = {
+  1: state => ({ reportingCurrency: 'USD', fxRates: [], ...state }),
+  2: (state, notes) => {
+    // Before v3 `cleansedData` held only the rows that survived the cleanse; outlier settings arrived with flagging
+    if (!state.isCleansed || state.outlierSettings || !Array.isArray(state.data) || !Array.isArray(state.cleansedData)) return state;
+    const kept = new Map<string, HistoricalData>(state.cleansedData.map(d => [d.id, d]));
+    const cleansedData = state.data.map(d => kept.get(d.id) ?? { ...d, isOutlier: true, outlierReason: LEGACY_CLEANSE_REASON });
+    notes.push(`${cleansedData.length - kept.size} rows removed by the earlier cleanse are now flagged outliers. Re-run outlier detection to apply per-combination bounds.`);
+    return { ...state, cleansedData, outlierCount: cleansedData.length - kept.size };
+  },
+  3: state => ({ forecastSettings: DEFAULT_FORECAST_SETTINGS, ...state }),
+  4: state => ({ landedCostRules: [], landedCostSettings: DEFAULT_LANDED_COST_SETTINGS, ...state }),
+  5: state => ({ inventorySettings: DEFAULT_INVENTORY_SETTINGS, ...state }),
+  6: state => ({ scenarios: [], activeScenarioId: null, ...state }),
+  7: state => ({ indexSeries: [], indexLinks: [], ...state })
+};
+
+const EMPTY_STATE: WorkspaceState = {
+  data: [],
+  cleansedData: [],
+  outlierCount: 0,
+  isCleansed: false,
+  outlierSettings: DEFAULT_OUTLIER_SETTINGS,
+  selectedModel: 'gemini-3-flash-preview',
+  forecastSettings: DEFAULT_FORECAST_SETTINGS,
+  filters: { partNumber: '', vendor: '', country: '' },
+  allForecasts: [],
+  uploadedForecasts: [],
+  forecastSource: 'system',
+  proposedRates: [],
+  benchmarks: [],
+  confidenceLevel: 95,
+  activeTab: 'trends',
+  reportingCurrency: 'USD',
+  fxRates: [],
+  landedCostRules: [],
+  landedCostSettings: DEFAULT_LANDED_COST_SETTINGS,
+  inventorySettings: DEFAULT_INVENTORY_SETTINGS,
+  scenarios: [],
+  activeScenarioId: null,
+  indexSeries: [],
+  indexLinks: []
+};
+
+/**
+ * Fills defaults for any field missing from a stored or imported state so that
+ * records written by earlier versions of the app can still be restored.
+ */
+export const normalizeWorkspaceState = (raw: Partial<WorkspaceState> | undefined): WorkspaceState => {
+  const state = { ...EMPTY_STATE, ...(raw || {}) };
+  const arrays: (keyof WorkspaceState)[] = ['data', 'cleansedData', 'allForecasts', 'uploadedForecasts', 'proposedRates', 'benchmarks', 'fxRates', 'landedCostRules', 'scenarios', 'indexSeries', 'indexLinks'];
+  arrays.forEach(key => {
+    if (!Array.isArray(state[key])) throw new Error(`Invalid Workspace: "${key}" must be a list.`);
+  });
+  return {
+    ...state,
+    filters: { ...EMPTY_STATE.filters, ...state.filters },
+    outlierSettings: { ...EMPTY_STATE.outlierSettings, ...state.outlierSettings },
+    forecastSettings: { ...EMPTY_STATE.forecastSettings, ...state.forecastSettings },
+    landedCostSettings: { ...EMPTY_STATE.landedCostSettings, ...state.landedCostSettings },
+    inventorySettings: { ...EMPTY_STATE.inventorySettings, ...state.inventorySettings }
+  };
+};
+
+export const upgradeWorkspaceState = (raw: Partial<WorkspaceState> | undefined, version: number): UpgradedWorkspace => {
+  if (version > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`Unsupported Workspace Version: The workspace uses schema v${version}, but this app only supports up to v${BUNDLE_SCHEMA_VERSION}. Please update the app.`);
+  }
+  const notes: string[] = [];
+  let state = raw || {};
+  for (let v = version; v < BUNDLE_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`Unsupported Workspace Version: No migration available from schema v${v}.`);
+    state = migrate(state, notes);
+  }
+  return { state: normalizeWorkspaceState(state), notes };
+};
+
+// Records saved before they carried a version are treated as v1
+export const restoreWorkspaceRecord = (record: WorkspaceRecord): UpgradedWorkspace =>
+  upgradeWorkspaceState(record.state, record.schemaVersion ?? 1);
+
+export const createBundle = (state: WorkspaceState, name: string): WorkspaceBundle => {
+  const forecastModels = Array.from(new Set(
+    [...state.allForecasts, ...state.uploadedForecasts].map(f => f.model || 'unknown')
+  )).sort();
+
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    metadata: {
+      name,
+      exportedAt: new Date().toISOString(),
+      historyRows: state.data.length,
+      forecastCount: state.allForecasts.length + state.uploadedForecasts.length,
+      forecastModels,
+      negotiatedRateCount: state.proposedRates.length,
+      benchmarkCount: state.benchmarks.length
+    },
+    state
+  };
+};
+
+export const serializeBundle = (bundle: WorkspaceBundle): string => JSON.stringify(bundle, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseBundle = (text: string): WorkspaceBundle & { upgradeNotes: string[] } => {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid Workspace File: The file is not valid JSON.");
+  }
+
+  if (!isRecord(bundle) || bundle.format !== BUNDLE_FORMAT) throw new Error("Invalid Workspace File: This is not a PredictaProcure workspace bundle.");
+  const { schemaVersion, metadata, state: raw } = bundle;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) throw new Error("Invalid Workspace File: Missing schema version.");
+  if (!isRecord(metadata)) throw new Error("Invalid Workspace File: Missing bundle metadata.");
+  if (raw !== undefined && !isRecord(raw)) throw new Error("Invalid Workspace File: The workspace state must be an object.");
+
+  // Field types inside the state are checked by normalizeWorkspaceState once every migration has run
+  const { state, notes } = upgradeWorkspaceState(raw as Partial<WorkspaceState> | undefined, schemaVersion);
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    metadata: metadata as unknown as WorkspaceBundleMetadata,
+    state,
+    upgradeNotes: notes
+  };
+};
+
+export const downloadBundle = (bundle: WorkspaceBundle): void => {
+  const safeName = bundle.metadata.name.replace(/[^a-z0-9-_]+/gi, '_') || 'workspace';
+  downloadBlob(`ProcureWorkspace_${safeName}_${bundle.metadata.exportedAt.split('T')[0]}.json`, new Blob([serializeBundle(bundle)], { type: 'application/json' }));
+};
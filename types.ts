@@ -3,46 +3,84 @@ export interface HistoricalData {
   id: string;
   partNumber: string;
   country: string;
-  usdPrice: number;
+  usdPrice: number; // Unit price normalized to the reporting currency (USD unless configured otherwise)
+  originalPrice?: number; // Unit price as recorded, in `currency`
+  currency?: string; // ISO 4217 code of the source document, defaults to USD
   quantity: number;
   leadTimeDays: number;
   vendor: string;
   date: string; // ISO format
+  category?: string; // Part category, selects the landed-cost rule together with `country`
   isOutlier?: boolean;
+  outlierReason?: string;
+  outlierRestored?: boolean; // Flagged by detection but kept in the analysis by the user
 }
 
 export interface NegotiatedRate {
   partNumber: string;
   vendor: string;
   country: string;
-  proposedPrice: number;
+  proposedPrice: number; // Normalized to the reporting currency
   proposedLeadTime: number;
+  originalPrice?: number;
+  currency?: string;
+  effectiveFrom?: string; // Validity window of the quote (YYYY-MM-DD); undated quotes apply from the next forecast period
+  effectiveTo?: string;
+  category?: string; // Falls back to the part's category in the history
+  incoterm?: Incoterm; // Falls back to the landed-cost default
+  paymentTermsDays?: number;
 }
 
+export type BenchmarkStatus = 'favorable' | 'warning' | 'critical' | 'anomaly';
+
 export interface BenchmarkResult {
   partNumber: string;
   vendor: string;
   country: string;
   proposedPrice: number;
   proposedLeadTime: number;
-  priceStatus: 'favorable' | 'warning' | 'critical' | 'anomaly';
-  leadTimeStatus: 'favorable' | 'warning' | 'critical' | 'anomaly';
+  originalPrice?: number;
+  currency?: string;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  baselineFrom?: string; // First and last forecast period the quote was compared against; unset when no baseline was available
+  baselineTo?: string;
+  category?: string;
+  incoterm?: Incoterm;
+  paymentTermsDays?: number;
+  landedCost?: number; // Unit price plus buyer-paid freight and duty, in the reporting currency
+  tco?: number; // Landed cost less the financing value of the payment terms
+  baselineTco?: number;
+  tcoStatus?: BenchmarkStatus;
+  priceStatus: BenchmarkStatus;
+  leadTimeStatus: BenchmarkStatus;
   confidenceMatch: boolean;
   comment: string;
+  commentCachedAt?: string; // Set when the AI comment was served from the response cache
 }
 
 export interface ForecastPoint {
   date: string;
   predictedPrice: number;
   predictedLeadTime: number;
-  confidenceIntervalUpper: number;
+  confidenceIntervalUpper: number; // Interval at the forecast's intervalLevel (95% by default); other levels are derived from it (see confidenceBands)
   confidenceIntervalLower: number;
+  leadTimeUpper?: number; // Lead-time interval, only provided by engines that estimate one
+  leadTimeLower?: number;
+  priceStdDev?: number; // Predictive standard deviation, only provided by engines that estimate one
+  leadTimeStdDev?: number;
 }
 
 export interface ForecastResult {
   partNumber: string;
   vendor: string;
   country: string;
+  model?: string; // Engine that produced the forecast, e.g. a Gemini model id, 'local-holt-winters' or 'uploaded'
+  currency?: string; // ISO 4217 code of uploaded prices, defaults to USD; engine forecasts are in the reporting currency
+  granularity?: ForecastGranularity; // Period length of the forecast points; monthly when absent
+  intervalLevel?: ConfidenceLevel; // Level of the stored interval bounds; 95 when absent
+  cachedAt?: string; // Set when the forecast was served from the AI response cache
+  indexAdjustment?: { indices: string[], rSquared: number }; // Set when the prices were blended with an index-driven projection
   forecast: ForecastPoint[];
   summary: {
     avgPredictedPrice: number;
@@ -59,4 +97,196 @@ export interface FilterState {
   country: string;
 }
 
+export interface BulkForecastFailure extends FilterState {
+  reason: string;
+}
+
 export type ConfidenceLevel = 90 | 95 | 99;
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey: string;
+}
+
+export type ForecastGranularity = 'weekly' | 'monthly' | 'quarterly';
+
+export interface ForecastSettings {
+  horizon: number; // Number of periods to forecast, 3–36
+  granularity: ForecastGranularity;
+}
+
+export interface BacktestMetrics {
+  mape: number | null; // Percent; null when every actual is zero
+  mae: number;
+  bias: number; // Mean of forecast minus actual; positive means over-forecasting
+  coverage: number | null; // Share of actuals inside the forecast interval; null when no interval was produced
+  points: number;
+}
+
+export interface BacktestResult {
+  partNumber: string;
+  vendor: string;
+  country: string;
+  model: string;
+  holdoutPeriods: number;
+  granularity: ForecastGranularity; // Period length of the holdout and of the scored forecast
+  price: BacktestMetrics;
+  leadTime: BacktestMetrics;
+}
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'mad' | 'rolling';
+
+export interface OutlierSettings {
+  method: OutlierMethod;
+  threshold: number; // IQR multiplier k, or the z / modified-z cut-off for the other methods
+  window: number; // Trailing observations used by the rolling method
+  checkLeadTime: boolean;
+}
+
+export type Incoterm = 'EXW' | 'FCA' | 'FOB' | 'CFR' | 'CIF' | 'CPT' | 'CIP' | 'DAP' | 'DPU' | 'DDP';
+
+export interface LandedCostRule {
+  country: string;
+  category?: string; // Absent applies to every category sourced from `country`
+  freightPerUnit: number; // Normalized to the reporting currency
+  originalFreight?: number;
+  currency?: string;
+  dutyRate: number; // Percent of the customs value (unit price plus freight)
+}
+
+export interface LandedCostSettings {
+  defaultIncoterm: Incoterm; // Assumed for historical prices, forecasts and quotes without an Incoterm
+  defaultPaymentTermsDays: number;
+  costOfCapital: number; // Annual percent used to value payment terms
+}
+
+export type ServiceLevel = 90 | 95 | 97.5 | 99 | 99.5;
+
+// Where σL in the safety stock formula comes from: the spread of observed lead times, or the forecast engine's
+// uncertainty about the predicted mean lead time (narrower, and not a measure of delivery-to-delivery variability)
+export type LeadTimeVariabilitySource = 'history' | 'forecast';
+
+export interface InventorySettings {
+  orderingCost: number; // Fixed cost per purchase order, in the reporting currency
+  holdingCostRate: number; // Annual percent of the unit price
+  serviceLevel: ServiceLevel; // Target probability of not stocking out during a replenishment lead time
+  leadTimeVariability: LeadTimeVariabilitySource;
+}
+
+export type ShockTarget = 'price' | 'leadTime';
+
+export interface ScenarioShock {
+  id: string;
+  target: ShockTarget;
+  mode: 'percent' | 'absolute'; // Percent change, or an amount in the reporting currency / days
+  value: number;
+  country?: string; // Empty filters match every combination
+  vendor?: string;
+  partNumber?: string;
+  from?: string; // Forecast periods starting within [from, to] (YYYY-MM-DD) are shocked; open-ended when absent
+  to?: string;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  shocks: ScenarioShock[];
+  updatedAt: string;
+}
+
+export interface IndexPoint {
+  index: string; // Name of the commodity or market index, e.g. "LME Copper"
+  date: string; // YYYY-MM-DD; values after the last procurement period act as index projections
+  value: number;
+}
+
+export interface IndexLink {
+  partNumber: string;
+  indices: string[]; // Index names the part's price is regressed on
+}
+
+export interface FxRate {
+  month: string; // YYYY-MM
+  currency: string;
+  usdPerUnit: number; // Value of one unit of `currency` in USD
+}
+
+export interface ImportRowError {
+  line: number;
+  reason: string;
+}
+
+export interface ImportReport<T> {
+  fileName?: string;
+  records: T[];
+  totalRows: number;
+  rejected: ImportRowError[];
+}
+
+export interface ValidationIssue {
+  item: string; // Combination or rate the issue belongs to
+  message: string;
+  action: 'repaired' | 'retried' | 'rejected'; // Fixed in place, re-requested from the model, or dropped
+}
+
+export interface ValidationReport {
+  source: string;
+  checked: number;
+  repaired: number;
+  retried: number;
+  rejected: number;
+  issues: ValidationIssue[];
+}
+
+export interface WorkspaceState {
+  data: HistoricalData[];
+  cleansedData: HistoricalData[];
+  outlierCount: number;
+  isCleansed: boolean;
+  outlierSettings: OutlierSettings;
+  selectedModel: string;
+  forecastSettings: ForecastSettings;
+  filters: FilterState;
+  allForecasts: ForecastResult[];
+  uploadedForecasts: ForecastResult[];
+  forecastSource: 'system' | 'upload';
+  proposedRates: NegotiatedRate[];
+  benchmarks: BenchmarkResult[];
+  confidenceLevel: ConfidenceLevel;
+  activeTab: 'trends' | 'benchmark' | 'backtest' | 'scorecard';
+  reportingCurrency: string;
+  fxRates: FxRate[];
+  landedCostRules: LandedCostRule[];
+  landedCostSettings: LandedCostSettings;
+  inventorySettings: InventorySettings;
+  scenarios: Scenario[];
+  activeScenarioId: string | null; // Scenario compared against the base forecasts, if any
+  indexSeries: IndexPoint[];
+  indexLinks: IndexLink[];
+}
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  kind: 'autosave' | 'snapshot';
+  createdAt: string;
+  updatedAt: string;
+  schemaVersion?: number; // Workspace schema the state was written with; absent on records saved before it was tracked
+  state: WorkspaceState;
+}
+
+export interface AICacheEntry {
+  key: string;
+  kind: 'forecast' | 'benchmark-comment';
+  partNumber: string;
+  vendor: string;
+  country: string;
+  model: string;
+  fingerprint: string; // Hash of the input the response was derived from
+  createdAt: string;
+  value: unknown; // ForecastResult or comment text
+}